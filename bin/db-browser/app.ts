@@ -0,0 +1,364 @@
+// bin/db-browser/app.ts
+
+import type { Context } from "jsr:@hono/hono@4.11.3";
+import { Hono } from "jsr:@hono/hono@4.11.3";
+
+import {
+  type DbBrowserEngine,
+  type DbRow,
+  type DbTableRef,
+  isReadOnlyStatement,
+} from "../../lib/db-browser.ts";
+
+/**
+ * Routes of the built-in read-only database browser, mounted under `prefix`
+ * so the service works behind the same reverse-proxy prefixes as
+ * sqlpage/surveilr services.
+ *
+ * HTML:
+ * - GET <prefix>/                           table list + SELECT console (probe target)
+ * - GET <prefix>/table/:name?page=&size=    paged rows (optional &schema=)
+ * - GET <prefix>/table/:name/schema         column definitions
+ * - GET  <prefix>/console                   console form
+ * - POST <prefix>/console                   ad-hoc read-only statement (form)
+ *
+ * JSON:
+ * - GET  <prefix>/api/tables
+ * - GET  <prefix>/api/tables/:name/schema
+ * - GET  <prefix>/api/tables/:name/rows?offset=&limit=
+ * - POST <prefix>/api/query                 body { "sql": "..." }
+ *
+ * Statements only run on POST: the query API takes application/json (which
+ * a cross-site page cannot send without a CORS preflight) and the console
+ * refuses cross-site form posts, so a link or <img> cannot fire a query.
+ */
+export function dbBrowserApp(engine: DbBrowserEngine, prefix: string) {
+  const app = new Hono({ strict: false });
+  const base = prefix.replace(/\/+$/, "");
+  const r = base ? app.basePath(base) : app;
+
+  const tableRef = (c: Context): DbTableRef => ({
+    name: c.req.param("name") ?? "",
+    schema: c.req.query("schema") || undefined,
+  });
+
+  /* -------------------------------- JSON -------------------------------- */
+
+  const runJson = async (sql: string | undefined) => {
+    if (!sql || !isReadOnlyStatement(sql, engine.name)) {
+      return Response.json(
+        { ok: false, error: "expected a single read-only statement" },
+        { status: 400 },
+      );
+    }
+    try {
+      return Response.json({ ok: true, rows: await engine.query(sql) });
+    } catch (error) {
+      return jsonError(error);
+    }
+  };
+
+  r.get("/api/tables", async (c) => {
+    try {
+      return c.json({ ok: true, tables: await engine.tables() });
+    } catch (error) {
+      return jsonError(error);
+    }
+  });
+
+  r.get("/api/tables/:name/schema", async (c) => {
+    try {
+      return c.json({ ok: true, columns: await engine.columns(tableRef(c)) });
+    } catch (error) {
+      return jsonError(error);
+    }
+  });
+
+  r.get("/api/tables/:name/rows", async (c) => {
+    const limit = clampInt(c.req.query("limit"), 100, 1, 1000);
+    const offset = clampInt(
+      c.req.query("offset"),
+      0,
+      0,
+      Number.MAX_SAFE_INTEGER,
+    );
+    try {
+      const t = tableRef(c);
+      const [rows, total] = await Promise.all([
+        engine.rows(t, { limit, offset }),
+        engine.count(t),
+      ]);
+      return c.json({ ok: true, offset, limit, total, rows });
+    } catch (error) {
+      return jsonError(error);
+    }
+  });
+
+  r.post("/api/query", async (c) => {
+    if (!c.req.header("content-type")?.startsWith("application/json")) {
+      return Response.json(
+        { ok: false, error: "expected an application/json body" },
+        { status: 415 },
+      );
+    }
+    let sql: string | undefined;
+    try {
+      const body = await c.req.json();
+      sql = typeof body?.sql === "string" ? body.sql : undefined;
+    } catch {
+      // fall through to 400
+    }
+    return await runJson(sql);
+  });
+
+  /* -------------------------------- HTML -------------------------------- */
+
+  const href = (path: string, q: Record<string, string | undefined> = {}) => {
+    const qs = new URLSearchParams(
+      Object.entries(q).filter((e): e is [string, string] => !!e[1]),
+    ).toString();
+    return `${base}${path}${qs ? `?${qs}` : ""}`;
+  };
+
+  const tableHref = (t: DbTableRef, suffix = "", q = {}) =>
+    href(`/table/${encodeURIComponent(t.name)}${suffix}`, {
+      schema: t.schema,
+      ...q,
+    });
+
+  const consoleForm = (sql = "") =>
+    `<form method="post" action="${escapeHtml(href("/console"))}">
+  <textarea name="sql" rows="5" placeholder="SELECT ...">${
+      escapeHtml(sql)
+    }</textarea>
+  <button type="submit">Run</button>
+</form>`;
+
+  r.get("/", async (c) => {
+    try {
+      const tables = await engine.tables();
+      const items = tables.map((t) => {
+        const ref = { name: t.name, schema: t.schema || undefined };
+        return `<tr><td><a href="${escapeHtml(tableHref(ref))}">${
+          escapeHtml(t.schema ? `${t.schema}.${t.name}` : t.name)
+        }</a></td><td>${escapeHtml(t.type)}</td><td><a href="${
+          escapeHtml(tableHref(ref, "/schema"))
+        }">schema</a></td></tr>`;
+      }).join("\n");
+
+      return c.html(page(
+        engine,
+        "Tables",
+        `<table><thead><tr><th>name</th><th>type</th><th></th></tr></thead>
+<tbody>${items}</tbody></table>
+<h2>Console</h2>
+${consoleForm()}`,
+      ));
+    } catch (error) {
+      return c.html(page(engine, "Tables", errorBox(error)), 500);
+    }
+  });
+
+  r.get("/table/:name", async (c) => {
+    const t = tableRef(c);
+    const size = clampInt(c.req.query("size"), 50, 1, 1000);
+    const pageNo = clampInt(c.req.query("page"), 1, 1, Number.MAX_SAFE_INTEGER);
+
+    try {
+      const [rows, total] = await Promise.all([
+        engine.rows(t, { limit: size, offset: (pageNo - 1) * size }),
+        engine.count(t),
+      ]);
+      const pages = Math.max(1, Math.ceil(total / size));
+      const nav = (n: number, label: string) =>
+        n >= 1 && n <= pages
+          ? `<a href="${
+            escapeHtml(
+              tableHref(t, "", { page: String(n), size: String(size) }),
+            )
+          }">${label}</a>`
+          : `<span class="muted">${label}</span>`;
+
+      return c.html(page(
+        engine,
+        t.name,
+        `<p><a href="${escapeHtml(href("/"))}">tables</a> ·
+<a href="${escapeHtml(tableHref(t, "/schema"))}">schema</a></p>
+<p>${nav(pageNo - 1, "‹ prev")} page ${pageNo} of ${pages} (${total} rows)
+${nav(pageNo + 1, "next ›")}</p>
+${rowsTable(rows)}`,
+      ));
+    } catch (error) {
+      return c.html(page(engine, t.name, errorBox(error)), 500);
+    }
+  });
+
+  r.get("/table/:name/schema", async (c) => {
+    const t = tableRef(c);
+    try {
+      const columns = await engine.columns(t);
+      return c.html(page(
+        engine,
+        `${t.name} schema`,
+        `<p><a href="${escapeHtml(href("/"))}">tables</a> ·
+<a href="${escapeHtml(tableHref(t))}">rows</a></p>
+${
+          rowsTable(columns.map((col) => ({
+            name: col.name,
+            type: col.type,
+            "not null": col.notNull ? "yes" : "",
+            "primary key": col.primaryKey ? "yes" : "",
+          })))
+        }`,
+      ));
+    } catch (error) {
+      return c.html(page(engine, `${t.name} schema`, errorBox(error)), 500);
+    }
+  });
+
+  const consolePage = (sql: string, body: string, status: 200 | 400 = 200) =>
+    new Response(
+      page(
+        engine,
+        "Console",
+        `<p><a href="${escapeHtml(href("/"))}">tables</a></p>
+${consoleForm(sql)}
+${body}`,
+      ),
+      { status, headers: { "content-type": "text/html; charset=utf-8" } },
+    );
+
+  r.get("/console", () => consolePage("", ""));
+
+  r.post("/console", async (c) => {
+    if (isCrossSite(c)) {
+      return consolePage(
+        "",
+        errorBox("cross-site console posts are refused"),
+        400,
+      );
+    }
+    let sql = "";
+    try {
+      const form = await c.req.parseBody();
+      sql = typeof form["sql"] === "string" ? form["sql"] : "";
+    } catch {
+      // empty console
+    }
+    if (!sql.trim()) return consolePage(sql, "");
+    if (!isReadOnlyStatement(sql, engine.name)) {
+      return consolePage(
+        sql,
+        errorBox("expected a single read-only statement"),
+        400,
+      );
+    }
+    try {
+      return consolePage(
+        sql,
+        rowsTable(await engine.query(sql), CONSOLE_MAX_ROWS),
+      );
+    } catch (error) {
+      return consolePage(sql, errorBox(error));
+    }
+  });
+
+  return app;
+}
+
+/* -------------------------------- helpers -------------------------------- */
+
+const CONSOLE_MAX_ROWS = 1000;
+
+/**
+ * A browser request sent from another site. Only Sec-Fetch-Site is trusted:
+ * behind a reverse proxy the Origin host need not match the request's.
+ */
+function isCrossSite(c: Context): boolean {
+  return c.req.header("sec-fetch-site") === "cross-site";
+}
+
+function jsonError(error: unknown) {
+  return Response.json(
+    { ok: false, error: errorText(error) },
+    { status: 500 },
+  );
+}
+
+function errorText(error: unknown): string {
+  return String((error as Error)?.message ?? error);
+}
+
+function clampInt(
+  v: string | undefined,
+  dflt: number,
+  min: number,
+  max: number,
+): number {
+  const n = v === undefined ? NaN : Number.parseInt(v, 10);
+  if (!Number.isFinite(n)) return dflt;
+  return Math.min(max, Math.max(min, n));
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function cellText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+function rowsTable(rows: readonly DbRow[], max = Infinity): string {
+  if (rows.length === 0) return `<p class="muted">no rows</p>`;
+
+  const cols = Object.keys(rows[0]);
+  const shown = rows.slice(0, max);
+  const head = cols.map((k) => `<th>${escapeHtml(k)}</th>`).join("");
+  const body = shown.map((row) =>
+    `<tr>${
+      cols.map((k) => `<td>${escapeHtml(cellText(row[k]))}</td>`).join("")
+    }</tr>`
+  ).join("\n");
+  const note = rows.length > shown.length
+    ? `<p class="muted">showing ${shown.length} of ${rows.length} rows</p>`
+    : "";
+
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>${note}`;
+}
+
+function errorBox(error: unknown): string {
+  return `<pre class="error">${escapeHtml(errorText(error))}</pre>`;
+}
+
+function page(engine: DbBrowserEngine, title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} · ${escapeHtml(engine.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; }
+  table { border-collapse: collapse; font-size: 0.9rem; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  textarea { width: 100%; font-family: ui-monospace, monospace; }
+  .muted { color: #888; }
+  .error { color: #b00020; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">${escapeHtml(engine.name)} · ${
+    escapeHtml(engine.dbPath)
+  } · read-only</p>
+${body}
+</body>
+</html>`;
+}
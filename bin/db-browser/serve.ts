@@ -0,0 +1,49 @@
+#!/usr/bin/env -S deno run -A --node-modules-dir=auto
+// bin/db-browser/serve.ts
+
+import { Command, EnumType } from "@cliffy/command";
+import { resolve } from "@std/path";
+
+import { duckdbEngine, sqliteEngine } from "../../lib/db-browser.ts";
+import { dbBrowserApp } from "./app.ts";
+
+/**
+ * Built-in read-only HTTP browser for a single database file.
+ *
+ * Spawned by Truth Yard for cargo kinds that have no dedicated app server
+ * (DuckDB, opted-in plain SQLite, and SQLite derived from Excel workbooks).
+ * See app.ts for the routes.
+ */
+async function main() {
+  const cmd = await new Command()
+    .name("truth-yard-db-browser")
+    .description("Read-only HTTP endpoint for a single database file")
+    .type("engine", new EnumType(["duckdb", "sqlite"] as const))
+    .option("--engine <engine:engine>", "Database engine", {
+      required: true,
+    })
+    .option("--db <path:string>", "Database file to serve", { required: true })
+    .option("--host <host:string>", "Host to bind", { default: "127.0.0.1" })
+    .option("--port <port:number>", "Port to listen on", { required: true })
+    .option("--prefix <prefix:string>", "Mount prefix (site prefix)", {
+      default: "/",
+    })
+    .option(
+      "--engine-bin <bin:string>",
+      "Engine CLI binary (default: duckdb or sqlite3)",
+    )
+    .parse(Deno.args);
+
+  const o = cmd.options;
+  const dbPath = resolve(o.db);
+  const engine = o.engine === "duckdb"
+    ? duckdbEngine(dbPath, { duckdbBin: o.engineBin })
+    : sqliteEngine(dbPath, { sqliteBin: o.engineBin });
+
+  const app = dbBrowserApp(engine, o.prefix);
+  Deno.serve({ hostname: o.host, port: o.port }, app.fetch);
+}
+
+if (import.meta.main) {
+  await main();
+}
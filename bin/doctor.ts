@@ -89,6 +89,19 @@ const api = doctor([
     type: "group",
     label: "Optional runtime dependencies",
     items: [
+      {
+        type: "exists",
+        cmd: "duckdb",
+        onFound: async (_ctx) =>
+          await Promise.resolve([
+            { type: "version", cmd: "duckdb --version", label: "duckdb" },
+          ]),
+        onMissing: () => ({
+          kind: "suggest" as const,
+          message:
+            "duckdb not found in PATH, install it if you want DuckDB cargo served",
+        }),
+      },
       {
         type: "exists",
         cmd: "nginx",
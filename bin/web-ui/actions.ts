@@ -0,0 +1,97 @@
+// bin/web-ui/actions.ts
+
+import type { Context, Hono } from "jsr:@hono/hono@4.11.3";
+import type {
+  OperatorActionResult,
+  OperatorActions,
+  OperatorActor,
+} from "../../lib/operator-actions.ts";
+import { jsonError } from "./app.ts";
+import {
+  remoteAddr,
+  requestMayReach,
+  requestPrincipal,
+  requestRestricted,
+} from "./auth.ts";
+
+export type ActionsDeps = {
+  app: Hono;
+  apiMount: string;
+  actions: OperatorActions;
+
+  /**
+   * Accept actions without an authenticated user (auth off, local use).
+   */
+  anonymousActions: boolean;
+};
+
+type ActionBody = { pid?: unknown; contextPath?: unknown };
+
+/**
+ * POST endpoints for operator actions. Bodies must be JSON, which a
+ * cross-site form cannot send, so browsers holding basic-auth credentials
+ * are not open to CSRF.
+ */
+export function registerActionsApi(deps: ActionsDeps) {
+  const { app, apiMount, actions, anonymousActions } = deps;
+
+  const handle = (
+    run: (body: ActionBody, actor: OperatorActor) =>
+      | Promise<OperatorActionResult>
+      | Response,
+  ) =>
+  async (c: Context) => {
+    const principal = requestPrincipal(c);
+    if (!principal && !anonymousActions) {
+      return jsonError(
+        "actions need an authenticated user (or --anonymous-actions)",
+        403,
+      );
+    }
+    if (!c.req.header("content-type")?.startsWith("application/json")) {
+      return jsonError("expected an application/json body", 415);
+    }
+
+    let body: ActionBody;
+    try {
+      body = (await c.req.json()) ?? {};
+    } catch {
+      return jsonError("invalid JSON body", 400);
+    }
+
+    const addr = remoteAddr(c);
+    const res = await run(body, {
+      name: principal?.user ?? "anonymous",
+      via: addr ? `web-ui ${addr}` : "web-ui",
+      mayReach: requestRestricted(c)
+        ? (prefix) => requestMayReach(c, prefix)
+        : undefined,
+    });
+    if (res instanceof Response) return res;
+    return c.json(res, res.ok ? 200 : 400);
+  };
+
+  const withPid = (
+    fn: (pid: number, actor: OperatorActor) => Promise<OperatorActionResult>,
+  ) =>
+    handle((body, actor) =>
+      typeof body.pid === "number" && Number.isInteger(body.pid)
+        ? fn(body.pid, actor)
+        : jsonError('"pid" must be an integer', 400)
+    );
+
+  app.post(`${apiMount}/actions/stop`, withPid(actions.stop));
+  app.post(`${apiMount}/actions/restart`, withPid(actions.restart));
+  app.post(
+    `${apiMount}/actions/respawn`,
+    handle((body, actor) =>
+      typeof body.contextPath === "string" && body.contextPath
+        ? actions.respawn(body.contextPath, actor)
+        : jsonError('"contextPath" must be a ledger context path', 400)
+    ),
+  );
+  app.post(
+    `${apiMount}/actions/materialize`,
+    handle((_body, actor) => actions.materialize(actor)),
+  );
+}
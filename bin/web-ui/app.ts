@@ -1,10 +1,19 @@
 // bin/web-ui/app.ts
 
-import { normalize, resolve } from "@std/path";
+import { normalize, relative, resolve } from "@std/path";
 import type { Hono } from "jsr:@hono/hono@4.11.3";
 import { serveStatic } from "jsr:@hono/hono@4.11.3/deno";
+import { parseByteRange } from "../../lib/log-tail.ts";
 import { reconcile, type ReconcileItem } from "../../lib/materialize.ts";
-import type { TaggedProcess } from "../../lib/spawn.ts";
+import type { SpawnedContext, TaggedProcess } from "../../lib/spawn.ts";
+import {
+  ledgerFileVisible,
+  viewTaggedProcesses,
+  viewYardStateEvent,
+  type YardStateEvent,
+  type YardStateFeed,
+} from "../../lib/state-feed.ts";
+import { requestView } from "./auth.ts";
 
 export type Mounts = {
   mount: string;
@@ -20,6 +29,7 @@ export type AppCfg = {
   ledgerDirAbs: string;
   assetsDir: string;
   proxyEnabled: boolean;
+  refreshMs: number;
 };
 
 export type SharedDeps = {
@@ -63,6 +73,64 @@ export async function readTextIfSmall(path: string, maxBytes = 2_000_000) {
   return await Deno.readTextFile(path);
 }
 
+/**
+ * Stream a file, honoring a single-range `Range` header (206/416), without
+ * reading it into memory.
+ */
+export async function fileResponse(
+  path: string,
+  init: {
+    range?: string | null;
+    contentType: string;
+    headers?: Record<string, string>;
+  },
+) {
+  const f = await Deno.open(path, { read: true });
+  const size = (await f.stat()).size;
+  const headers: Record<string, string> = {
+    "content-type": init.contentType,
+    "accept-ranges": "bytes",
+    ...init.headers,
+  };
+
+  const range = parseByteRange(init.range, size);
+  if (range === null) {
+    f.close();
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "content-range": `bytes */${size}` },
+    });
+  }
+
+  const start = range?.start ?? 0;
+  const length = range ? range.end - range.start + 1 : size;
+  await f.seek(start, Deno.SeekMode.Start);
+  let left = length;
+  let closed = false;
+  const close = () => {
+    if (!closed) f.close();
+    closed = true;
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(ctrl) {
+      const buf = new Uint8Array(Math.min(65_536, left));
+      const n = left > 0 ? await f.read(buf) : null;
+      if (n === null) {
+        close();
+        ctrl.close();
+        return;
+      }
+      left -= n;
+      ctrl.enqueue(buf.subarray(0, n));
+    },
+    cancel: close,
+  });
+
+  headers["content-length"] = String(length);
+  if (range) headers["content-range"] = `bytes ${start}-${range.end}/${size}`;
+  return new Response(body, { status: range ? 206 : 200, headers });
+}
+
 export function guessContentType(path: string) {
   const p = path.toLowerCase();
   if (p.endsWith(".html")) return "text/html; charset=utf-8";
@@ -74,6 +142,11 @@ export function guessContentType(path: string) {
   if (p.endsWith(".log") || p.endsWith(".txt")) {
     return "text/plain; charset=utf-8";
   }
+  // rotated log segments (lib/log-rotate.ts)
+  if (/\.log\.(\d+|\d{8}t\d{6}z(-\d+)?)$/.test(p)) {
+    return "text/plain; charset=utf-8";
+  }
+  if (p.endsWith(".gz")) return "application/gzip";
   if (p.endsWith(".svg")) return "image/svg+xml";
   if (p.endsWith(".png")) return "image/png";
   if (p.endsWith(".jpg") || p.endsWith(".jpeg")) return "image/jpeg";
@@ -117,12 +190,19 @@ export function htmlEscape(s: string) {
     .replaceAll('"', "&quot;");
 }
 
+export type LogSegmentListing = {
+  serviceId: string;
+  stream: string;
+  files: Array<{ relPath: string; size: number; rotatedAt?: string }>;
+};
+
 export function renderDirListing(params: {
   mountUrl: string;
   relPath: string;
   entries: Array<{ name: string; isDir: boolean; size?: number }>;
+  logs?: LogSegmentListing[];
 }) {
-  const { mountUrl, relPath, entries } = params;
+  const { mountUrl, relPath, entries, logs = [] } = params;
   const parts = relPath.split("/").filter(Boolean);
   const crumbs = [`<a href="${mountUrl}/">ledger.d</a>`]
     .concat(
@@ -149,6 +229,31 @@ export function renderDirListing(params: {
     })
     .join("");
 
+  const logRows = logs
+    .map((l) =>
+      l.files
+        .map((f, i) =>
+          `<tr>
+        <td>${i === 0 ? htmlEscape(`${l.serviceId} ${l.stream}`) : ""}</td>
+        <td><a href="${mountUrl}/${f.relPath}">${
+            htmlEscape(f.relPath.split("/").pop() ?? f.relPath)
+          }</a></td>
+        <td class="mono">${f.size} bytes</td>
+        <td class="mono">${htmlEscape(f.rotatedAt ?? "live")}</td>
+      </tr>`
+        )
+        .join("")
+    )
+    .join("");
+
+  const logSection = logRows
+    ? `<h2>Log segments</h2>
+  <table>
+    <thead><tr><th>Service</th><th>File</th><th>Size</th><th>Rotated</th></tr></thead>
+    <tbody>${logRows}</tbody>
+  </table>`
+    : "";
+
   return `<!doctype html>
 <html>
 <head>
@@ -162,6 +267,7 @@ export function renderDirListing(params: {
     <thead><tr><th>Name</th><th>Type/Size</th></tr></thead>
     <tbody>${rows}</tbody>
   </table>
+  ${logSection}
 </body>
 </html>`;
 }
@@ -205,6 +311,12 @@ export function registerUiRoutes(deps: SharedDeps) {
     if (!(await exists(indexPath))) return c.text(`Missing ${indexPath}`, 500);
     return c.html(await Deno.readTextFile(indexPath));
   });
+  // log viewer (bin/web-ui/logs.ts): ?context=<rel>&stream=stdout|stderr
+  app.get(`${uiMount}/logs`, async (c) => {
+    const pagePath = `${assetsDir}/logs.html`;
+    if (!(await exists(pagePath))) return c.text(`Missing ${pagePath}`, 500);
+    return c.html(await Deno.readTextFile(pagePath));
+  });
 }
 
 export function registerProcessesApi(deps: SharedDeps) {
@@ -213,7 +325,7 @@ export function registerProcessesApi(deps: SharedDeps) {
   const { ledgerDirAbs } = cfg;
 
   app.get(`${apiMount}/tagged-processes.json`, async (c) => {
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(await getProcesses(), requestView(c));
     return c.json({
       now: new Date().toISOString(),
       ledgerDir: ledgerDirAbs,
@@ -223,6 +335,86 @@ export function registerProcessesApi(deps: SharedDeps) {
   });
 }
 
+/**
+ * Server-sent events: a `snapshot` (same payload as tagged-processes.json)
+ * on connect, then the shared feed's events, named by their `type`. Both
+ * are limited to what the client may see (see YardStateView).
+ */
+export function registerEventsApi(deps: SharedDeps & { feed: YardStateFeed }) {
+  const { app, cfg, mounts, feed } = deps;
+  const { apiMount } = mounts;
+  const { ledgerDirAbs } = cfg;
+
+  app.get(`${apiMount}/events`, (c) => {
+    const view = requestView(c);
+    const enc = new TextEncoder();
+    let unsubscribe = () => {};
+    let keepalive: ReturnType<typeof setInterval> | undefined;
+    let seq = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(ctrl) {
+        const send = (event: string, data: unknown) =>
+          ctrl.enqueue(enc.encode(
+            `id: ${++seq}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+          ));
+
+        // filtered one at a time so events keep their order
+        let delivered = Promise.resolve();
+        const deliver = (e: YardStateEvent) => {
+          delivered = delivered
+            .then(async () => {
+              const seen = await viewYardStateEvent(e, view, ledgerDirAbs);
+              if (seen) send(seen.type, seen);
+            })
+            .catch(() => {
+              // stream already closed
+            });
+        };
+
+        // events raised while the snapshot loads follow it
+        let queued: YardStateEvent[] | undefined = [];
+        unsubscribe = feed.subscribe((e) => {
+          if (queued) queued.push(e);
+          else deliver(e);
+        });
+        keepalive = setInterval(() => {
+          try {
+            ctrl.enqueue(enc.encode(": keepalive\n\n"));
+          } catch {
+            // stream already closed
+          }
+        }, 15_000);
+
+        try {
+          const processes = viewTaggedProcesses(await feed.snapshot(), view);
+          send("snapshot", {
+            now: new Date().toISOString(),
+            ledgerDir: ledgerDirAbs,
+            count: processes.length,
+            taggedProcesses: processes,
+          });
+        } catch (e) {
+          send("error", { error: e instanceof Error ? e.message : String(e) });
+        }
+        for (const e of queued) deliver(e);
+        queued = undefined;
+      },
+      cancel() {
+        unsubscribe();
+        clearInterval(keepalive);
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "content-type": "text/event-stream; charset=utf-8",
+        "cache-control": "no-cache",
+      },
+    });
+  });
+}
+
 export function registerReconcileApi(deps: SharedDeps) {
   const { app, cfg, mounts } = deps;
   const { apiMount } = mounts;
@@ -256,6 +448,7 @@ export function registerLedgerBrowser(deps: SharedDeps) {
     const rel = c.req.path.slice((ledgerMount + "/").length);
     const fsPath = safeJoin(ledgerDirAbs, rel);
     if (!fsPath) return c.text("Invalid path", 400);
+    const view = requestView(c);
 
     let st: Deno.FileInfo;
     try {
@@ -269,6 +462,8 @@ export function registerLedgerBrowser(deps: SharedDeps) {
         [];
       for await (const e of Deno.readDir(fsPath)) {
         const p = `${fsPath}/${e.name}`;
+        // restricted principals only see the files of services they may reach
+        if (!e.isDirectory && !(await ledgerFileVisible(p, view))) continue;
         let size: number | undefined;
         if (e.isFile) {
           try {
@@ -282,11 +477,26 @@ export function registerLedgerBrowser(deps: SharedDeps) {
       entries.sort((a, b) =>
         Number(b.isDir) - Number(a.isDir) || a.name.localeCompare(b.name)
       );
+      const logs = await logSegmentListings(
+        ledgerDirAbs,
+        entries
+          .filter((e) => e.name.endsWith(".context.json"))
+          .map((e) => `${fsPath}/${e.name}`),
+      );
       return c.html(
-        renderDirListing({ mountUrl: ledgerMount, relPath: rel, entries }),
+        renderDirListing({
+          mountUrl: ledgerMount,
+          relPath: rel,
+          entries,
+          logs,
+        }),
       );
     }
 
+    if (!(await ledgerFileVisible(fsPath, view))) {
+      return c.text("Forbidden", 403);
+    }
+
     const ct = guessContentType(fsPath);
     if (
       ct.startsWith("text/") || ct.includes("json") ||
@@ -296,11 +506,66 @@ export function registerLedgerBrowser(deps: SharedDeps) {
       if (text !== null) return c.text(text, 200, { "content-type": ct });
     }
 
-    const data = await Deno.readFile(fsPath);
-    return new Response(data, { status: 200, headers: { "content-type": ct } });
+    return await fileResponse(fsPath, {
+      range: c.req.header("range"),
+      contentType: ct,
+    });
   });
 }
 
+/**
+ * Rotated log segments recorded in the given context files (live log first,
+ * then segments newest first), as paths relative to the ledger.
+ */
+export async function logSegmentListings(
+  ledgerDirAbs: string,
+  contextPaths: string[],
+): Promise<LogSegmentListing[]> {
+  const out: LogSegmentListing[] = [];
+  const rel = (p: string) => {
+    const r = toPosixPath(relative(ledgerDirAbs, p));
+    return r.startsWith("..") ? null : r;
+  };
+
+  for (const contextPath of contextPaths) {
+    let ctx: SpawnedContext;
+    try {
+      ctx = JSON.parse(await Deno.readTextFile(contextPath)) as SpawnedContext;
+    } catch {
+      continue;
+    }
+
+    for (const stream of ["stdout", "stderr"] as const) {
+      const state = ctx.logs?.[stream];
+      if (!state) continue;
+
+      const files: LogSegmentListing["files"] = [];
+      const live = rel(state.path);
+      if (live) {
+        let size = 0;
+        try {
+          size = (await Deno.stat(state.path)).size;
+        } catch {
+          // rotated away and not yet recreated
+        }
+        files.push({ relPath: live, size });
+      }
+      for (const seg of state.segments) {
+        if (!(await exists(seg.path))) continue;
+        const r = rel(seg.path);
+        if (r) {
+          files.push({ relPath: r, size: seg.bytes, rotatedAt: seg.rotatedAt });
+        }
+      }
+      if (files.length) {
+        out.push({ serviceId: ctx.service?.id ?? contextPath, stream, files });
+      }
+    }
+  }
+
+  return out;
+}
+
 /* ---------------- wiring helpers ---------------- */
 
 export function computeMounts(): Mounts {
@@ -337,5 +602,8 @@ export function logStartup(cfg: AppCfg, mounts: Mounts) {
   console.log(
     `API: http://${cfg.host}:${cfg.port}${mounts.apiMount}/tagged-processes.json`,
   );
+  console.log(
+    `Events: http://${cfg.host}:${cfg.port}${mounts.apiMount}/events`,
+  );
   console.log(`Ledger: http://${cfg.host}:${cfg.port}${mounts.ledgerMount}/`);
 }
@@ -3,6 +3,7 @@ const procStatusText = document.getElementById("procStatusText");
 const procTbody = document.getElementById("procTbody");
 const filterInput = document.getElementById("filterInput");
 const refreshBtn = document.getElementById("refreshBtn");
+const materializeBtn = document.getElementById("materializeBtn");
 
 const reconcileStatusText = document.getElementById("reconcileStatusText");
 const reconcileTbody = document.getElementById("reconcileTbody");
@@ -20,6 +21,11 @@ const healthTbody = document.getElementById("healthTbody");
 
 let lastPayload = null;
 
+// live process table, by pid + contextPath (see lib/state-feed.ts)
+const liveProcesses = new Map();
+let liveMeta = null;
+let reconcileTimer = null;
+
 function esc(s) {
   return String(s ?? "")
     .replaceAll("&", "&amp;")
@@ -61,14 +67,32 @@ function ledgerHref(rel) {
   return r ? `/.truth-yard/ledger.d/${r}` : "";
 }
 
-function deriveLogRel(relContextJson, which /* "stdout" | "stderr" */) {
-  const rel = toPosix(relContextJson || "");
-  if (!rel) return "";
-  const suffix = which === "stderr" ? ".stderr.log" : ".stdout.log";
-  if (rel.endsWith(".context.json")) {
-    return rel.slice(0, -".context.json".length) + suffix;
-  }
-  return rel + suffix;
+// log viewer (logs.html) for a ledger-relative context.json
+function logViewerHref(relContextJson, which /* "stdout" | "stderr" */) {
+  const rel = toPosix(relContextJson || "").replace(/^\/+/, "");
+  if (!rel.endsWith(".context.json")) return "";
+  const q = new URLSearchParams({ context: rel, stream: which });
+  return `/.truth-yard/ui/logs?${q.toString()}`;
+}
+
+function healthCell(health) {
+  if (!health) return `<span class="mono health-unknown">—</span>`;
+  const title = [
+    health.url,
+    health.checkedAt,
+    health.lastError,
+  ].filter(Boolean).join(" | ");
+  const latency = health.latencyMs !== undefined
+    ? ` ${health.latencyMs}ms`
+    : "";
+  const label = health.status === "healthy"
+    ? `ready${latency}`
+    : health.status === "pending"
+    ? "probing"
+    : `not ready${latency}`;
+  return `<span class="mono health-${esc(health.status)}" title="${
+    esc(title)
+  }">${esc(label)}</span>`;
 }
 
 function renderProcesses(payload) {
@@ -97,10 +121,8 @@ function renderProcesses(payload) {
       }" target="_blank" rel="noreferrer">${esc(ctxLabel)}</a>`
       : `<span class="mono">${esc(ctxLabel)}</span>`;
 
-    const stdoutRel = deriveLogRel(relContext, "stdout");
-    const stderrRel = deriveLogRel(relContext, "stderr");
-    const stdoutHref = ledgerHref(stdoutRel);
-    const stderrHref = ledgerHref(stderrRel);
+    const stdoutHref = logViewerHref(relContext, "stdout");
+    const stderrHref = logViewerHref(relContext, "stderr");
 
     const proxiedPath = p.proxyEndpointPrefix ?? "";
     const proxiedCell = proxiedPath
@@ -123,6 +145,7 @@ function renderProcesses(payload) {
     }" target="_blank" rel="noreferrer">${esc(upstreamUrl)}</a></td>
       <td class="mono">${proxiedCell}</td>
       <td>${serviceCell}</td>
+      <td>${healthCell(p.context?.health)}</td>
       <td>${ledgerCell}</td>
       <td class="actions">
         <a class="btnlink" href="${
@@ -131,6 +154,12 @@ function renderProcesses(payload) {
         <a class="btnlink" href="${
       esc(stderrHref || "#")
     }" target="_blank" rel="noreferrer">STDERR</a>
+        <button class="btnlink" data-action="stop" data-pid="${
+      esc(pid)
+    }">Stop</button>
+        <button class="btnlink" data-action="restart" data-pid="${
+      esc(pid)
+    }">Restart</button>
       </td>
     `;
     procTbody.appendChild(tr);
@@ -177,8 +206,8 @@ function renderReconcile(payload) {
     let stderrHref = "";
 
     if (rel && rel.endsWith(".context.json")) {
-      stdoutHref = ledgerHref(rel.replace(/\.context\.json$/, ".stdout.log"));
-      stderrHref = ledgerHref(rel.replace(/\.context\.json$/, ".stderr.log"));
+      stdoutHref = logViewerHref(rel, "stdout");
+      stderrHref = logViewerHref(rel, "stderr");
     }
 
     const ctxLink = href
@@ -199,9 +228,15 @@ function renderReconcile(payload) {
       }" target="_blank" rel="noreferrer">⚠️</a>`
       : "";
 
+    const respawnBtn = kind === "ledger_without_process" && path
+      ? ` <button class="btnlink" data-action="respawn" data-context="${
+        esc(path)
+      }">Respawn</button>`
+      : "";
+
     const pathCell = `${ctxLink}${stdoutIcon ? " " + stdoutIcon : ""}${
       stderrIcon ? " " + stderrIcon : ""
-    }`;
+    }${respawnBtn}`;
 
     const tr = document.createElement("tr");
     tr.innerHTML = `
@@ -356,6 +391,107 @@ async function runHealth() {
   }
 }
 
+function processKey(p) {
+  return `${p.pid}:${p.contextPath}`;
+}
+
+function renderLive(status) {
+  if (!liveMeta) return;
+  renderProcesses({
+    ...liveMeta,
+    now: new Date().toISOString(),
+    count: liveProcesses.size,
+    taggedProcesses: [...liveProcesses.values()],
+  });
+  if (status) procStatusText.textContent += ` | ${status}`;
+}
+
+function scheduleReconcile() {
+  clearTimeout(reconcileTimer);
+  reconcileTimer = setTimeout(runReconcile, 1000);
+}
+
+function connectEvents() {
+  const es = new EventSource("/.truth-yard/api/events");
+  const on = (type, fn) =>
+    es.addEventListener(type, (ev) => fn(JSON.parse(ev.data)));
+
+  on("snapshot", (payload) => {
+    liveMeta = { ledgerDir: payload.ledgerDir };
+    liveProcesses.clear();
+    for (const p of payload.taggedProcesses) {
+      liveProcesses.set(processKey(p), p);
+    }
+    renderLive("live");
+  });
+  on("process-added", (e) => {
+    liveProcesses.set(processKey(e.process), e.process);
+    renderLive("live");
+    scheduleReconcile();
+  });
+  on("process-removed", (e) => {
+    liveProcesses.delete(processKey(e.process));
+    renderLive("live");
+    scheduleReconcile();
+  });
+  on("health-changed", (e) => {
+    liveProcesses.set(processKey(e.process), e.process);
+    renderLive("live");
+  });
+  on("ledger-file-changed", (e) => {
+    if (e.path.endsWith(".context.json")) scheduleReconcile();
+  });
+
+  // EventSource reconnects by itself and gets a fresh snapshot
+  es.addEventListener("error", () => renderLive("reconnecting…"));
+}
+
+async function runAction(action, body) {
+  try {
+    const res = await fetch(`/.truth-yard/api/actions/${action}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const payload = await res.json();
+    if (!payload.ok) {
+      alert(`${action} failed: ${payload.error ?? `HTTP ${res.status}`}`);
+      return;
+    }
+    const pid = payload.newPid ? ` (new pid ${payload.newPid})` : "";
+    const spawned = payload.spawned !== undefined
+      ? ` (${payload.spawned} spawned)`
+      : "";
+    procStatusText.textContent = `${action}: ok${pid}${spawned}`;
+    scheduleReconcile();
+  } catch (e) {
+    alert(`${action} failed: ${e?.message ?? e}`);
+  }
+}
+
+function onActionClick(ev) {
+  const btn = ev.target.closest("button[data-action]");
+  if (!btn) return;
+  const action = btn.dataset.action;
+  const target = btn.dataset.pid
+    ? `pid ${btn.dataset.pid}`
+    : btn.dataset.context;
+  if (!confirm(`${action} ${target}?`)) return;
+  runAction(
+    action,
+    btn.dataset.pid
+      ? { pid: Number(btn.dataset.pid) }
+      : { contextPath: btn.dataset.context },
+  );
+}
+
+procTbody.addEventListener("click", onActionClick);
+reconcileTbody.addEventListener("click", onActionClick);
+materializeBtn.addEventListener("click", () => {
+  if (confirm("Materialize the cargo home (start what is not running)?")) {
+    runAction("materialize", {});
+  }
+});
 refreshBtn.addEventListener("click", refreshProcesses);
 filterInput.addEventListener("input", () => {
   if (lastPayload) renderProcesses(lastPayload);
@@ -365,6 +501,7 @@ proxyTableBtn.addEventListener("click", loadProxyTable);
 resolveBtn.addEventListener("click", resolveProxy);
 healthBtn.addEventListener("click", runHealth);
 
-// run reconcile on start (and processes)
-refreshProcesses();
+// live processes (falls back to one fetch without EventSource), reconcile once
+if (typeof EventSource === "function") connectEvents();
+else refreshProcesses();
 runReconcile();
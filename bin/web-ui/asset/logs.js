@@ -0,0 +1,171 @@
+// bin/web-ui/asset/logs.js
+// Log viewer: ?context=<ledger-relative context.json>&stream=stdout|stderr
+// [&offset=N] (negative: bytes before the end)
+const logTitle = document.getElementById("logTitle");
+const otherStreamLink = document.getElementById("otherStreamLink");
+const downloadLink = document.getElementById("downloadLink");
+const grepInput = document.getElementById("grepInput");
+const followInput = document.getElementById("followInput");
+const clearBtn = document.getElementById("clearBtn");
+const logLines = document.getElementById("logLines");
+const logStatusText = document.getElementById("logStatusText");
+const logCountText = document.getElementById("logCountText");
+
+const API = "/.truth-yard/api/logs";
+const MAX_LINES = 20_000;
+
+const params = new URLSearchParams(location.search);
+const context = params.get("context") ?? "";
+const stream = params.get("stream") === "stderr" ? "stderr" : "stdout";
+
+// kept lines, oldest first
+let lines = [];
+let partial = "";
+let matcher = () => true;
+
+// sqlpage logs `[<ts> INFO  sqlpage::...]`, surveilr `<ts>  INFO surveilr...`
+const LEVEL_RE = /\b(ERROR|WARN(?:ING)?|INFO|DEBUG|TRACE)\b/;
+// deno-lint-ignore no-control-regex
+const ANSI_RE = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+function logQuery(extra) {
+  const q = new URLSearchParams({ context, stream, ...extra });
+  return q.toString();
+}
+
+function lineLevel(text) {
+  const m = text.match(LEVEL_RE);
+  if (!m) return "";
+  return m[1].startsWith("WARN") ? "warn" : m[1].toLowerCase();
+}
+
+function compileGrep(q) {
+  if (!q) return () => true;
+  const re = q.match(/^\/(.+)\/([a-z]*)$/);
+  if (re) {
+    try {
+      const rx = new RegExp(re[1], re[2].replaceAll("g", ""));
+      grepInput.classList.remove("invalid");
+      return (text) => rx.test(text);
+    } catch {
+      grepInput.classList.add("invalid");
+      return () => true;
+    }
+  }
+  grepInput.classList.remove("invalid");
+  const needle = q.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+function lineElement(line) {
+  const div = document.createElement("div");
+  div.className = line.level ? `log-line level-${line.level}` : "log-line";
+  div.textContent = line.text;
+  return div;
+}
+
+function updateCount() {
+  const shown = logLines.childElementCount;
+  logCountText.textContent = shown === lines.length
+    ? `${lines.length} lines`
+    : `${shown} of ${lines.length} lines`;
+}
+
+function scrollIfFollowing() {
+  if (followInput.checked) globalThis.scrollTo(0, document.body.scrollHeight);
+}
+
+function renderAll() {
+  logLines.replaceChildren(
+    ...lines.filter((l) => matcher(l.text)).map(lineElement),
+  );
+  updateCount();
+  scrollIfFollowing();
+}
+
+function appendText(text) {
+  const parts = (partial + text).split("\n");
+  partial = parts.pop() ?? "";
+
+  const added = parts.map((raw) => {
+    const t = raw.replace(ANSI_RE, "").replace(/\r$/, "");
+    return { text: t, level: lineLevel(t) };
+  });
+  lines.push(...added);
+
+  if (lines.length > MAX_LINES) {
+    lines = lines.slice(lines.length - MAX_LINES);
+    renderAll();
+    return;
+  }
+  const frag = document.createDocumentFragment();
+  for (const l of added) if (matcher(l.text)) frag.appendChild(lineElement(l));
+  logLines.appendChild(frag);
+  updateCount();
+  scrollIfFollowing();
+}
+
+function connect() {
+  const offset = params.get("offset");
+  const es = new EventSource(
+    `${API}/stream?${logQuery(offset ? { offset } : {})}`,
+  );
+
+  es.addEventListener("info", (ev) => {
+    const info = JSON.parse(ev.data);
+    logTitle.textContent = `${info.path} (${info.stream})`;
+    logStatusText.textContent = `Following ${info.path}`;
+  });
+
+  es.addEventListener("chunk", (ev) => {
+    const chunk = JSON.parse(ev.data);
+    if (chunk.reset) {
+      if (partial) appendText("\n");
+      lines.push({ text: "--- log rotated ---", level: "marker" });
+      logLines.appendChild(lineElement(lines[lines.length - 1]));
+    }
+    appendText(chunk.text);
+    logStatusText.textContent = `At byte ${chunk.next} · ${
+      new Date().toLocaleTimeString()
+    }`;
+  });
+
+  es.addEventListener("error", (ev) => {
+    if (ev.data) {
+      logStatusText.textContent = `Error: ${JSON.parse(ev.data).error}`;
+    } else if (es.readyState === EventSource.CONNECTING) {
+      logStatusText.textContent = "Disconnected, retrying…";
+    } else {
+      logStatusText.textContent = "Disconnected";
+    }
+  });
+}
+
+if (!context) {
+  logStatusText.textContent = "Missing ?context=<ledger context path>";
+} else {
+  const other = stream === "stdout" ? "stderr" : "stdout";
+  otherStreamLink.textContent = other.toUpperCase();
+  otherStreamLink.href = `?${
+    new URLSearchParams({ context, stream: other }).toString()
+  }`;
+  downloadLink.href = `${API}/file?${logQuery({})}`;
+  document.title = `${stream.toUpperCase()} ${context} · Logs`;
+  connect();
+}
+
+let grepTimer = null;
+grepInput.addEventListener("input", () => {
+  clearTimeout(grepTimer);
+  grepTimer = setTimeout(() => {
+    matcher = compileGrep(grepInput.value.trim());
+    renderAll();
+  }, 150);
+});
+
+followInput.addEventListener("change", scrollIfFollowing);
+
+clearBtn.addEventListener("click", () => {
+  lines = [];
+  renderAll();
+});
@@ -0,0 +1,191 @@
+// bin/web-ui/auth.ts
+
+import type { Context, Hono } from "jsr:@hono/hono@4.11.3";
+import { getConnInfo } from "jsr:@hono/hono@4.11.3/deno";
+import {
+  basicAuthenticator,
+  bearerTokenAuthenticator,
+  matchAuthRule,
+  parseAuthRules,
+  parseHtpasswd,
+  parseTokensFile,
+  ruleAllows,
+  trustedHeaderAuthenticator,
+  type WebAuthenticator,
+  webAuthorize,
+  type WebAuthRules,
+  type WebPrincipal,
+} from "../../lib/web-auth.ts";
+import type { YardStateView } from "../../lib/state-feed.ts";
+import { jsonError } from "./app.ts";
+
+export type AuthCfg = {
+  tokensFile?: string;
+  htpasswdFile?: string;
+  trustedUserHeader?: string;
+  trustedGroupsHeader?: string;
+  trustedProxies?: string[];
+  rulesFile?: string;
+};
+
+export type AuthDeps = {
+  app: Hono;
+  authenticators: WebAuthenticator[];
+  rules?: WebAuthRules;
+};
+
+const grants = new WeakMap<
+  Context,
+  { principal: WebPrincipal; rules?: WebAuthRules }
+>();
+
+// requests as Deno.serve delivered them, before the headers were rewritten
+const originals = new WeakMap<Context, Request>();
+
+/** Identity headers set for upstream services; inbound copies are dropped. */
+const USER_HEADER = "x-truth-yard-user";
+const GROUPS_HEADER = "x-truth-yard-groups";
+
+export function authEnabled(cfg: AuthCfg) {
+  return !!(cfg.tokensFile || cfg.htpasswdFile || cfg.trustedUserHeader);
+}
+
+async function readConfigFile<T>(
+  path: string,
+  label: string,
+  parse: (text: string) => T,
+): Promise<T> {
+  try {
+    return parse(await Deno.readTextFile(path));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`${label} ${path}: ${msg}`);
+  }
+}
+
+/**
+ * Load the configured credential and rules files.
+ */
+export async function loadAuth(cfg: AuthCfg) {
+  const authenticators: WebAuthenticator[] = [];
+  if (cfg.trustedUserHeader) {
+    authenticators.push(trustedHeaderAuthenticator({
+      userHeader: cfg.trustedUserHeader,
+      groupsHeader: cfg.trustedGroupsHeader,
+      trustedProxies: cfg.trustedProxies?.length
+        ? cfg.trustedProxies
+        : undefined,
+    }));
+  }
+  if (cfg.tokensFile) {
+    authenticators.push(bearerTokenAuthenticator(
+      await readConfigFile(cfg.tokensFile, "tokens file", parseTokensFile),
+    ));
+  }
+  if (cfg.htpasswdFile) {
+    authenticators.push(basicAuthenticator(
+      await readConfigFile(cfg.htpasswdFile, "htpasswd", parseHtpasswd),
+    ));
+  }
+  const rules = cfg.rulesFile
+    ? await readConfigFile(cfg.rulesFile, "auth rules", parseAuthRules)
+    : undefined;
+  return { authenticators, rules };
+}
+
+/**
+ * The authenticated principal of a request (undefined when auth is off).
+ */
+export function requestPrincipal(c: Context): WebPrincipal | undefined {
+  return grants.get(c)?.principal;
+}
+
+/**
+ * Whether auth rules limit what the request's principal may reach.
+ */
+export function requestRestricted(c: Context): boolean {
+  return !!grants.get(c)?.rules;
+}
+
+/**
+ * Whether the request's principal may reach `path` under the auth rules
+ * (true when auth or rules are off).
+ */
+export function requestMayReach(c: Context, path: string): boolean {
+  const grant = grants.get(c);
+  if (!grant?.rules) return true;
+  const rule = matchAuthRule(path, grant.rules.rules);
+  return !!rule &&
+    ruleAllows(rule, grant.principal, grant.principal.groups);
+}
+
+/**
+ * What the request's principal may see of processes, events and the ledger.
+ */
+export function requestView(c: Context): YardStateView {
+  return requestRestricted(c)
+    ? { mayReach: (prefix) => requestMayReach(c, prefix) }
+    : {};
+}
+
+/**
+ * The request as received, which (unlike the header-rewritten `c.req.raw`)
+ * can still be upgraded to a WebSocket.
+ */
+export function originalRequest(c: Context): Request {
+  return originals.get(c) ?? c.req.raw;
+}
+
+export function remoteAddr(c: Context) {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Must be registered before every other route. Basic and bearer
+ * credentials are removed before requests reach proxied services, which
+ * get the principal as x-truth-yard-user / x-truth-yard-groups instead.
+ */
+export function registerAuth(deps: AuthDeps) {
+  const { app, authenticators, rules } = deps;
+  const schemes = new Set(authenticators.map((a) => a.scheme));
+
+  app.use("*", async (c, next) => {
+    const decision = await webAuthorize(c.req.raw, c.req.path, {
+      authenticators,
+      rules,
+      remoteAddr: remoteAddr(c),
+    });
+
+    if (!decision.ok) {
+      const res = jsonError(decision.reason, decision.status);
+      if (decision.status === 401) {
+        if (schemes.has("basic")) {
+          res.headers.append("www-authenticate", 'Basic realm="truth-yard"');
+        }
+        if (schemes.has("bearer")) {
+          res.headers.append("www-authenticate", 'Bearer realm="truth-yard"');
+        }
+      }
+      return res;
+    }
+
+    const { principal } = decision;
+    grants.set(c, { principal, rules });
+
+    const headers = new Headers(c.req.raw.headers);
+    if (principal.scheme !== "trusted-header") headers.delete("authorization");
+    headers.set(USER_HEADER, principal.user);
+    headers.delete(GROUPS_HEADER);
+    if (principal.groups.length) {
+      headers.set(GROUPS_HEADER, principal.groups.join(","));
+    }
+    originals.set(c, c.req.raw);
+    c.req.raw = new Request(c.req.raw, { headers });
+
+    await next();
+  });
+}
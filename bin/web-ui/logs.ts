@@ -0,0 +1,169 @@
+// bin/web-ui/logs.ts
+
+import { basename, isAbsolute, relative, resolve } from "@std/path";
+import type { Context, Hono } from "jsr:@hono/hono@4.11.3";
+import { type LogStream, serviceLogPath, tailLog } from "../../lib/log-tail.ts";
+import type { SpawnedContext } from "../../lib/spawn.ts";
+import { fileResponse, jsonError, safeJoin } from "./app.ts";
+import { requestMayReach, requestRestricted } from "./auth.ts";
+
+export type LogsDeps = {
+  app: Hono;
+  apiMount: string;
+  ledgerDirAbs: string;
+
+  /**
+   * Poll period of a tail (default 500).
+   */
+  tailIntervalMs?: number;
+};
+
+/**
+ * The log file behind `?context=<ledger-relative context>&stream=...`, or an
+ * error response. The log must live in the ledger too, and the user must be
+ * allowed to reach the service's proxy prefix.
+ */
+async function resolveLog(c: Context, ledgerDirAbs: string) {
+  const stream = c.req.query("stream") ?? "stdout";
+  if (stream !== "stdout" && stream !== "stderr") {
+    return jsonError('"stream" must be stdout or stderr', 400);
+  }
+  const rel = c.req.query("context") ?? "";
+  const contextPath = rel.endsWith(".context.json")
+    ? safeJoin(ledgerDirAbs, rel)
+    : null;
+  if (!contextPath) {
+    return jsonError('"context" must be a ledger context path', 400);
+  }
+
+  let ctx: SpawnedContext;
+  try {
+    ctx = JSON.parse(await Deno.readTextFile(contextPath)) as SpawnedContext;
+  } catch {
+    return jsonError(`no context at ${rel}`, 404);
+  }
+
+  // under access rules a service without a prefix matches none of them
+  const prefix = ctx.service?.proxyEndpointPrefix;
+  if (!prefix && requestRestricted(c)) {
+    return jsonError(
+      "not allowed to read logs of a service without a prefix",
+      403,
+    );
+  }
+  if (prefix && !requestMayReach(c, prefix)) {
+    return jsonError(`not allowed to read logs of ${prefix}`, 403);
+  }
+
+  const logPath = serviceLogPath(contextPath, ctx, stream as LogStream);
+  const inLedger = relative(ledgerDirAbs, resolve(logPath));
+  if (inLedger.startsWith("..") || isAbsolute(inLedger)) {
+    return jsonError("log file is outside the ledger", 400);
+  }
+  return { logPath, relPath: inLedger, stream: stream as LogStream };
+}
+
+/**
+ * Log viewer endpoints:
+ *
+ * - `logs/stream` follows a live log over server-sent events; each `chunk`
+ *   event carries `{offset, next, text, reset?}` and its id is `next`, so an
+ *   EventSource reconnect resumes where it left off. `offset` picks the
+ *   start (negative counts back from the end).
+ * - `logs/file` downloads the whole log, with HTTP Range support.
+ */
+export function registerLogsApi(deps: LogsDeps) {
+  const { app, apiMount, ledgerDirAbs } = deps;
+
+  app.get(`${apiMount}/logs/stream`, async (c) => {
+    const log = await resolveLog(c, ledgerDirAbs);
+    if (log instanceof Response) return log;
+
+    const resume = c.req.header("last-event-id") ?? c.req.query("offset");
+    const offset = resume === undefined || resume === ""
+      ? undefined
+      : Number(resume);
+    if (offset !== undefined && !Number.isInteger(offset)) {
+      return jsonError('"offset" must be an integer', 400);
+    }
+
+    const enc = new TextEncoder();
+    const ac = new AbortController();
+    let keepalive: ReturnType<typeof setInterval> | undefined;
+    const chunks = tailLog(log.logPath, {
+      offset,
+      intervalMs: deps.tailIntervalMs,
+      signal: ac.signal,
+    });
+
+    const body = new ReadableStream<Uint8Array>({
+      start(ctrl) {
+        ctrl.enqueue(enc.encode(
+          `event: info\ndata: ${
+            JSON.stringify({ stream: log.stream, path: log.relPath })
+          }\n\n`,
+        ));
+        keepalive = setInterval(() => {
+          try {
+            ctrl.enqueue(enc.encode(": keepalive\n\n"));
+          } catch {
+            // stream already closed
+          }
+        }, 15_000);
+      },
+      async pull(ctrl) {
+        try {
+          const next = await chunks.next();
+          if (next.done) {
+            clearInterval(keepalive);
+            ctrl.close();
+            return;
+          }
+          ctrl.enqueue(enc.encode(
+            `id: ${next.value.next}\nevent: chunk\ndata: ${
+              JSON.stringify(next.value)
+            }\n\n`,
+          ));
+        } catch (e) {
+          ctrl.enqueue(enc.encode(
+            `event: error\ndata: ${
+              JSON.stringify({ error: e instanceof Error ? e.message : e })
+            }\n\n`,
+          ));
+          clearInterval(keepalive);
+          ctrl.close();
+        }
+      },
+      cancel() {
+        ac.abort();
+        clearInterval(keepalive);
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "content-type": "text/event-stream; charset=utf-8",
+        "cache-control": "no-cache",
+      },
+    });
+  });
+
+  app.get(`${apiMount}/logs/file`, async (c) => {
+    const log = await resolveLog(c, ledgerDirAbs);
+    if (log instanceof Response) return log;
+
+    try {
+      return await fileResponse(log.logPath, {
+        range: c.req.header("range"),
+        contentType: "text/plain; charset=utf-8",
+        headers: {
+          "content-disposition": `attachment; filename="${
+            basename(log.logPath).replaceAll('"', "")
+          }"`,
+        },
+      });
+    } catch {
+      return jsonError("log file not found", 404);
+    }
+  });
+}
@@ -3,11 +3,22 @@
 import type { Context, Hono } from "jsr:@hono/hono@4.11.3";
 import { proxy } from "jsr:@hono/hono@4.11.3/proxy";
 import type { TaggedProcess } from "../../lib/spawn.ts";
+import { viewTaggedProcesses } from "../../lib/state-feed.ts";
 import { jsonError, jsonResponse, withTimeout } from "./app.ts";
+import { originalRequest, requestView } from "./auth.ts";
 
 export type ProxyRoute = { basePath: string; upstreamUrl: string };
 export type ProxyConflict = { basePath: string; upstreamUrls: string[] };
 
+export type ProxyTimeoutRule = { basePath: string; timeoutMs: number };
+
+/**
+ * How long the catch-all proxy waits for an upstream's response headers (or
+ * WebSocket handshake); 0 waits forever. Bodies and open sockets are never
+ * cut off, so long-lived streams keep working.
+ */
+export type ProxyTimeouts = { defaultMs: number; routes: ProxyTimeoutRule[] };
+
 export type ProxyDeps = {
   app: Hono;
   mount: string;
@@ -15,6 +26,7 @@ export type ProxyDeps = {
   apiMount: string;
   ledgerDir: string;
   getProcesses: () => Promise<TaggedProcess[]>;
+  timeouts?: ProxyTimeouts;
 };
 
 const REDACT = new Set([
@@ -77,6 +89,36 @@ export function buildProxyTableWithConflicts(processes: TaggedProcess[]) {
   return { table, conflicts };
 }
 
+/**
+ * Parse a `--proxy-timeout` value: `<basePath>=<ms>`.
+ */
+export function parseProxyTimeout(spec: string): ProxyTimeoutRule {
+  const eq = spec.lastIndexOf("=");
+  const basePath = normalizeBasePath(spec.slice(0, Math.max(0, eq)));
+  const timeoutMs = Number(spec.slice(eq + 1));
+  if (eq < 0 || !basePath || !Number.isInteger(timeoutMs) || timeoutMs < 0) {
+    throw new Error(
+      `invalid proxy timeout "${spec}" (expected <basePath>=<ms>)`,
+    );
+  }
+  return { basePath, timeoutMs };
+}
+
+/**
+ * Timeout for a request path: the longest matching route rule, else the
+ * default.
+ */
+export function proxyTimeoutFor(pathname: string, timeouts?: ProxyTimeouts) {
+  if (!timeouts) return 0;
+  const rule = [...timeouts.routes]
+    .sort((a, b) => b.basePath.length - a.basePath.length)
+    .find((r) =>
+      r.basePath === "/" || pathname === r.basePath ||
+      pathname.startsWith(r.basePath + "/")
+    );
+  return rule?.timeoutMs ?? timeouts.defaultMs;
+}
+
 export function resolveProxyPath(pathname: string, routes: ProxyRoute[]) {
   const path = pathname.startsWith("/") ? pathname : `/${pathname}`;
   const route = routes.find((r) =>
@@ -149,6 +191,140 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * Forward an HTTP request, streaming both bodies. Only the wait for the
+ * response headers is bounded; a client disconnect cancels the upstream
+ * request.
+ */
+async function forwardHttp(c: Context, proxiedUrl: string, timeoutMs: number) {
+  const ac = new AbortController();
+  const t = timeoutMs > 0 ? setTimeout(() => ac.abort(), timeoutMs) : undefined;
+  try {
+    return await proxy(proxiedUrl, {
+      raw: c.req.raw,
+      signal: AbortSignal.any([c.req.raw.signal, ac.signal]),
+    });
+  } catch (e) {
+    if (ac.signal.aborted) {
+      return c.text(`Upstream did not respond within ${timeoutMs}ms`, 504);
+    }
+    return c.text(
+      `Upstream error: ${e instanceof Error ? e.message : String(e)}`,
+      502,
+    );
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+// set by the WebSocket handshake itself (or meaningless upstream)
+const WS_HANDSHAKE_HEADERS = [
+  "host",
+  "connection",
+  "upgrade",
+  "sec-websocket-key",
+  "sec-websocket-version",
+  "sec-websocket-extensions",
+  "sec-websocket-protocol",
+];
+
+function isWebSocketUpgrade(req: Request) {
+  return req.headers.get("upgrade")?.toLowerCase() === "websocket";
+}
+
+function closeQuietly(ws: WebSocket, code: number, reason: string) {
+  if (
+    ws.readyState === WebSocket.CLOSING || ws.readyState === WebSocket.CLOSED
+  ) {
+    return;
+  }
+  // close() only accepts 1000 and application codes
+  const sendable = code === 1000 || (code >= 3000 && code <= 4999);
+  try {
+    ws.close(sendable ? code : 1000, reason);
+  } catch {
+    // not open yet
+  }
+}
+
+/**
+ * Relay a WebSocket: connect upstream first (so its chosen subprotocol can be
+ * answered), then upgrade the client and pass messages and closes both ways.
+ */
+async function proxyWebSocket(
+  c: Context,
+  proxiedUrl: string,
+  timeoutMs: number,
+) {
+  const target = new URL(proxiedUrl);
+  target.protocol = target.protocol === "https:" ? "wss:" : "ws:";
+  const headers = new Headers(c.req.raw.headers);
+  for (const h of WS_HANDSHAKE_HEADERS) headers.delete(h);
+  const protocols = (c.req.header("sec-websocket-protocol") ?? "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const upstream = new WebSocket(target, { protocols, headers });
+  upstream.binaryType = "arraybuffer";
+  const opened = await new Promise<"open" | "failed" | "timeout">(
+    (resolve) => {
+      const t = timeoutMs > 0
+        ? setTimeout(() => resolve("timeout"), timeoutMs)
+        : undefined;
+      const settle = (outcome: "open" | "failed") => () => {
+        clearTimeout(t);
+        resolve(outcome);
+      };
+      upstream.onopen = settle("open");
+      upstream.onerror = settle("failed");
+      upstream.onclose = settle("failed");
+    },
+  );
+  if (opened !== "open") {
+    closeQuietly(upstream, 1000, "");
+    return opened === "timeout"
+      ? c.text(`Upstream WebSocket did not open within ${timeoutMs}ms`, 504)
+      : c.text(`Upstream WebSocket ${target} refused the connection`, 502);
+  }
+
+  let upgraded: ReturnType<typeof Deno.upgradeWebSocket>;
+  try {
+    upgraded = Deno.upgradeWebSocket(
+      originalRequest(c),
+      upstream.protocol ? { protocol: upstream.protocol } : undefined,
+    );
+  } catch (e) {
+    closeQuietly(upstream, 1000, "");
+    return c.text(
+      `WebSocket upgrade failed: ${e instanceof Error ? e.message : e}`,
+      400,
+    );
+  }
+
+  const { socket, response } = upgraded;
+  socket.binaryType = "arraybuffer";
+
+  // upstream messages that arrive before the client side is open
+  const early: Array<string | ArrayBuffer> = [];
+  socket.onopen = () => {
+    for (const m of early.splice(0)) socket.send(m);
+    if (upstream.readyState !== WebSocket.OPEN) closeQuietly(socket, 1000, "");
+  };
+  upstream.onmessage = (e) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(e.data);
+    else early.push(e.data);
+  };
+  socket.onmessage = (e) => {
+    if (upstream.readyState === WebSocket.OPEN) upstream.send(e.data);
+  };
+  upstream.onerror = () => {};
+  upstream.onclose = (e) => closeQuietly(socket, e.code, e.reason);
+  socket.onclose = (e) => closeQuietly(upstream, e.code, e.reason);
+
+  return response;
+}
+
 function previewBodyIfSmall(bodyText: string, maxChars = 4000) {
   if (bodyText.length <= maxChars) return bodyText;
   return bodyText.slice(0, maxChars) + "\n…(truncated)…";
@@ -178,7 +354,10 @@ export function registerProxyApiRoutes(deps: ProxyDeps) {
   const { app, apiMount, uiMount, ledgerDir, getProcesses } = deps;
 
   app.get(`${apiMount}/proxy-table.json`, async (c) => {
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(
+      await getProcesses(),
+      requestView(c),
+    );
     const { table, conflicts } = buildProxyTableWithConflicts(processes);
     return c.json({
       now: new Date().toISOString(),
@@ -194,7 +373,10 @@ export function registerProxyApiRoutes(deps: ProxyDeps) {
     const path = url.searchParams.get("path") ?? "";
     if (!path) return jsonError('missing query param "path"', 400);
 
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(
+      await getProcesses(),
+      requestView(c),
+    );
     const { table } = buildProxyTableWithConflicts(processes);
 
     const resolved = resolveProxyPath(path, table);
@@ -221,7 +403,10 @@ export function registerProxyApiRoutes(deps: ProxyDeps) {
     const timeoutMs = Number(url.searchParams.get("timeoutMs") ?? "1500");
     const max = Number(url.searchParams.get("max") ?? "50");
 
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(
+      await getProcesses(),
+      requestView(c),
+    );
     const { table } = buildProxyTableWithConflicts(processes);
     const checks = table.slice(0, Math.max(0, Math.min(max, table.length)));
 
@@ -269,7 +454,10 @@ export function registerProxyApiRoutes(deps: ProxyDeps) {
       return c.json({ ok: false, error: 'missing query param "path"' }, 400);
     }
 
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(
+      await getProcesses(),
+      requestView(c),
+    );
     const { table, conflicts } = buildProxyTableWithConflicts(processes);
     const resolved = resolveProxyPath(path, table);
 
@@ -306,7 +494,10 @@ export function registerProxyApiRoutes(deps: ProxyDeps) {
       return c.json({ ok: false, error: 'missing query param "path"' }, 400);
     }
 
-    const processes = await getProcesses();
+    const processes = viewTaggedProcesses(
+      await getProcesses(),
+      requestView(c),
+    );
     const { table } = buildProxyTableWithConflicts(processes);
     const resolved = resolveProxyPath(path, table);
     if (!resolved) {
@@ -425,16 +616,16 @@ export function registerCatchAllProxy(deps: ProxyDeps) {
     const traceOn = traceRequested(c);
     const traceId = traceOn ? getOrMakeTraceId(c) : "";
     const started = Date.now();
+    const timeoutMs = proxyTimeoutFor(reqPath, deps.timeouts);
 
-    const resp = await proxy(proxiedUrl, {
-      method: c.req.method,
-      headers: c.req.raw.headers,
-      body: c.req.raw.body,
-    });
+    const resp = isWebSocketUpgrade(c.req.raw)
+      ? await proxyWebSocket(c, proxiedUrl, timeoutMs)
+      : await forwardHttp(c, proxiedUrl, timeoutMs);
 
     if (!traceOn) return resp;
 
-    const traced = applyTraceHeaders(resp, {
+    // a 101 upgrade response cannot be rebuilt; it is only logged
+    const traced = resp.status === 101 ? resp : applyTraceHeaders(resp, {
       traceId,
       matchedBasePath: resolved.route.basePath,
       upstreamUrl: resolved.route.upstreamUrl,
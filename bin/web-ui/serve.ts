@@ -4,13 +4,17 @@
 import { Command } from "@cliffy/command";
 import { normalize, resolve } from "@std/path";
 import { Hono } from "jsr:@hono/hono@4.11.3";
+import { operatorActions } from "../../lib/operator-actions.ts";
 import { taggedProcesses } from "../../lib/spawn.ts";
+import { yardStateFeed } from "../../lib/state-feed.ts";
 
+import { registerActionsApi } from "./actions.ts";
 import {
   type AppCfg,
   computeMounts,
   logStartup,
   registerAssetsRoutes,
+  registerEventsApi,
   registerLedgerBrowser,
   registerProcessesApi,
   registerReconcileApi,
@@ -19,7 +23,15 @@ import {
   requireDir,
 } from "./app.ts";
 
-import { registerCatchAllProxy, registerProxyApiRoutes } from "./proxy.ts";
+import { type AuthCfg, authEnabled, loadAuth, registerAuth } from "./auth.ts";
+import { registerLogsApi } from "./logs.ts";
+
+import {
+  parseProxyTimeout,
+  type ProxyTimeouts,
+  registerCatchAllProxy,
+  registerProxyApiRoutes,
+} from "./proxy.ts";
 
 async function main() {
   const cmd = await new Command()
@@ -40,11 +52,55 @@ async function main() {
     .option("--no-proxy", "Disable proxy behavior for non /.truth-yard paths", {
       default: false,
     })
+    .option(
+      "--proxy-timeout-ms <ms:number>",
+      "How long the proxy waits for upstream response headers (0: no limit)",
+      { default: 60_000 },
+    )
+    .option(
+      "--proxy-timeout <route:string>",
+      "Per-route proxy timeout as <basePath>=<ms> (repeatable)",
+      { collect: true },
+    )
     .option(
       "--refresh-ms <ms:number>",
-      "UI polling interval for tagged processes",
+      "Interval of the shared tagged-process scan behind the events stream",
       { default: 2000 },
     )
+    .option(
+      "--auth-tokens <path:string>",
+      "Bearer tokens file (one <user>:<token> per line)",
+    )
+    .option(
+      "--htpasswd <path:string>",
+      "htpasswd file for HTTP basic auth (SHA-1 entries, htpasswd -s)",
+    )
+    .option(
+      "--trusted-user-header <name:string>",
+      "Accept the user named in this header from a trusted SSO proxy",
+    )
+    .option(
+      "--trusted-groups-header <name:string>",
+      "Comma-separated groups of the trusted-header user",
+      { depends: ["trusted-user-header"] },
+    )
+    .option(
+      "--trusted-proxy <addr:string>",
+      "Address allowed to send trusted headers (repeatable; default loopback)",
+      { collect: true, depends: ["trusted-user-header"] },
+    )
+    .option(
+      "--auth-rules <path:string>",
+      "JSON file of per-prefix authorization rules",
+    )
+    .option(
+      "--cargo-home <dir:string>",
+      "Cargo root for the materialize action (action disabled without it)",
+    )
+    .option(
+      "--anonymous-actions",
+      "Allow stop/restart/respawn/materialize without authentication",
+    )
     .parse(Deno.args);
 
   const cfg: AppCfg = {
@@ -53,22 +109,86 @@ async function main() {
     ledgerDirAbs: normalize(resolve(cmd.options.ledgerDir)),
     assetsDir: cmd.options.assetsDir,
     proxyEnabled: !cmd.options.proxy,
+    refreshMs: cmd.options.refreshMs,
   };
 
   await requireDir(cfg.assetsDir);
 
+  let proxyTimeouts: ProxyTimeouts;
+  try {
+    proxyTimeouts = {
+      defaultMs: cmd.options.proxyTimeoutMs,
+      routes: (cmd.options.proxyTimeout ?? []).map(parseProxyTimeout),
+    };
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    Deno.exit(2);
+  }
+
+  const authCfg: AuthCfg = {
+    tokensFile: cmd.options.authTokens,
+    htpasswdFile: cmd.options.htpasswd,
+    trustedUserHeader: cmd.options.trustedUserHeader,
+    trustedGroupsHeader: cmd.options.trustedGroupsHeader,
+    trustedProxies: cmd.options.trustedProxy,
+    rulesFile: cmd.options.authRules,
+  };
+  if (cmd.options.authRules && !authEnabled(authCfg)) {
+    console.error(
+      "--auth-rules needs --auth-tokens, --htpasswd or --trusted-user-header",
+    );
+    Deno.exit(2);
+  }
+
   const app = new Hono();
   const mounts = computeMounts();
   const getProcesses = () => Array.fromAsync(taggedProcesses());
 
   const shared = { app, cfg, mounts, getProcesses };
 
+  if (authEnabled(authCfg)) {
+    try {
+      registerAuth({ app, ...(await loadAuth(authCfg)) });
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : e);
+      Deno.exit(2);
+    }
+  } else if (!["127.0.0.1", "localhost", "::1"].includes(cfg.host)) {
+    console.warn(
+      `WARNING: listening on ${cfg.host} without authentication; ` +
+        "see --auth-tokens, --htpasswd and --trusted-user-header",
+    );
+  }
+
   registerRootRedirects(shared);
   registerAssetsRoutes(shared);
   registerUiRoutes(shared);
   registerProcessesApi(shared);
   registerReconcileApi(shared);
+  registerEventsApi({
+    ...shared,
+    feed: yardStateFeed({
+      ledgerDir: cfg.ledgerDirAbs,
+      intervalMs: cfg.refreshMs,
+      states: getProcesses,
+    }),
+  });
   registerLedgerBrowser(shared);
+  registerLogsApi({
+    app,
+    apiMount: mounts.apiMount,
+    ledgerDirAbs: cfg.ledgerDirAbs,
+  });
+
+  registerActionsApi({
+    app,
+    apiMount: mounts.apiMount,
+    actions: operatorActions({
+      ledgerHome: cfg.ledgerDirAbs,
+      cargoHome: cmd.options.cargoHome,
+    }),
+    anonymousActions: !!cmd.options.anonymousActions,
+  });
 
   registerProxyApiRoutes({
     app,
@@ -87,6 +207,7 @@ async function main() {
       mount: mounts.mount,
       ledgerDir: cfg.ledgerDirAbs,
       getProcesses,
+      timeouts: proxyTimeouts,
     });
   }
 
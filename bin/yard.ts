@@ -4,19 +4,63 @@ import { Command, EnumType } from "@cliffy/command";
 import { CompletionsCommand } from "@cliffy/completions";
 import { HelpCommand } from "@cliffy/help";
 import { blue, cyan, dim, green, red, yellow } from "@std/fmt/colors";
+import { dirname } from "@std/path";
 import { compose } from "../lib/composite.ts";
+import {
+  combineListeners,
+  eventJournal,
+  journalMatches,
+  readJournal,
+  resolveEventsJournal,
+} from "../lib/journal.ts";
+import { ledgerDiff } from "../lib/ledger-diff.ts";
+import { ledgerGc } from "../lib/ledger-gc.ts";
+import { logRotationEnabled, rotateServiceLogs } from "../lib/log-rotate.ts";
 import {
   materialize,
   materializeWatch,
   reconcile,
   type ReconcileItem,
+  type ReconcileSummary,
   spawnedLedgerStates,
 } from "../lib/materialize.ts";
+import {
+  LEDGER_COLUMNS,
+  LEDGER_SCHEMA,
+  ledgerRow,
+  OUTPUT_FORMATS,
+  PROCESS_COLUMNS,
+  PROCESS_SCHEMA,
+  processRow,
+  RECONCILE_COLUMNS,
+  RECONCILE_SCHEMA,
+  reconcileExitCode,
+  reconcileRow,
+  renderRows,
+} from "../lib/output-format.ts";
+import {
+  proxyConfRegenerator,
+  proxyConfWatchEnabled,
+} from "../lib/proxy-conf-watch.ts";
+import { type RepairAction, repairReconcile } from "../lib/repair.ts";
 import {
   generateReverseProxyConfsFromSpawnedStates,
   nginxProxyManagerJSON,
+  proxyConfTarget,
 } from "../lib/reverse-proxy-conf.ts";
-import { killSpawnedProcesses, taggedProcesses } from "../lib/spawn.ts";
+import { richTextUISpawnEvents } from "../lib/spawn-event.ts";
+import {
+  type ServiceHealth,
+  type SpawnEvent,
+  type SpawnEventListener,
+  taggedProcesses,
+} from "../lib/spawn.ts";
+import {
+  removeLedgerSessions,
+  type StopOptions,
+  type StopResult,
+  stopServices,
+} from "../lib/stop.ts";
 
 export async function lsLedgers(
   spawnStateHomeOrSessionHome: string,
@@ -35,16 +79,87 @@ export async function lsLedgers(
     const natureLabel = dim(nature);
 
     const urlLabel = pidAlive ? yellow(upstreamUrl) : dim(upstreamUrl);
+    const healthLabel = pidAlive && context.health
+      ? ` ${fmtHealth(context.health)}`
+      : "";
 
     console.log(
       `${statusIcon} [${pidLabel}] ${urlLabel} ${dim("(")}${kindLabel}${
         dim("/")
-      }${natureLabel}${dim(")")}`,
+      }${natureLabel}${dim(")")}${healthLabel}`,
     );
   }
 }
 
+function fmtHealth(health: ServiceHealth): string {
+  const latency = health.latencyMs !== undefined
+    ? dim(` ${health.latencyMs}ms`)
+    : "";
+  if (health.status === "healthy") return `${green("ready")}${latency}`;
+  if (health.status === "pending") return yellow("probing");
+  return `${red("not ready")}${latency}${
+    health.lastError ? dim(` ${health.lastError}`) : ""
+  }`;
+}
+
+async function stopAndReport(
+  selectors: readonly string[],
+  opts: StopOptions,
+): Promise<StopResult[]> {
+  const results: StopResult[] = [];
+  for await (const r of stopServices(selectors, opts)) {
+    results.push(r);
+    const p = r.process;
+    const label = `[${p.pid}] ${cyan(p.serviceId)} ${
+      dim(p.proxyEndpointPrefix ?? p.provenance)
+    }`;
+
+    if (!r.outcome) {
+      console.log(`🔎 ${yellow("would stop")} ${label}`);
+      continue;
+    }
+
+    const { signal, exited, waitedMs } = r.outcome;
+    const how = signal === null
+      ? dim("already gone")
+      : signal === "SIGTERM"
+      ? green(`SIGTERM, exited in ${waitedMs}ms`)
+      : exited
+      ? yellow(`SIGKILL after ${waitedMs}ms grace`)
+      : red("survived SIGKILL");
+    console.log(`${exited ? "🛑" : "⚠️"} ${label} ${how}`);
+  }
+  return results;
+}
+
+function fmtBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  const units = ["KiB", "MiB", "GiB", "TiB"];
+  let v = n / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(1)} ${units[i]}`;
+}
+
+const outputFormatType = new EnumType(OUTPUT_FORMATS);
+
+async function writeStdout(text: string): Promise<void> {
+  const bytes = new TextEncoder().encode(text);
+  for (let off = 0; off < bytes.length;) {
+    off += await Deno.stdout.write(bytes.subarray(off));
+  }
+}
+
+const logSegmentNamingType = new EnumType(
+  ["numbered", "timestamped"] as const,
+);
+
 const psStrategyType = new EnumType(["container", "native"] as const);
+const orphanPolicyType = new EnumType(["adopt", "kill", "ignore"] as const);
+const stalePolicyType = new EnumType(["respawn", "archive", "ignore"] as const);
 
 const YARD_VERSION = "dev";
 
@@ -59,7 +174,7 @@ function escapeHtml(s: string): string {
 
 async function psReconcile(
   spawnStateHomeOrSessionHome: string,
-): Promise<void> {
+): Promise<ReconcileSummary> {
   const base = spawnStateHomeOrSessionHome;
 
   const fmt = (item: ReconcileItem): string => {
@@ -111,7 +226,7 @@ async function psReconcile(
       if (!any && !ok) {
         console.log(dim("  (no items emitted)"));
       }
-      return;
+      return s;
     }
 
     any = true;
@@ -119,6 +234,63 @@ async function psReconcile(
   }
 }
 
+async function psRepair(
+  ledgerHome: string,
+  opts: Readonly<{
+    orphans?: "adopt" | "kill" | "ignore";
+    stale?: "respawn" | "archive" | "ignore";
+    dryRun?: boolean;
+    graceMs?: number;
+  }>,
+): Promise<number> {
+  const report = await repairReconcile(ledgerHome, {
+    ...opts,
+    materialize: { verbose: false, spawnedLedgerHome: ledgerHome },
+  });
+
+  const target = (a: RepairAction): string =>
+    a.item.kind === "process_without_ledger"
+      ? `[${a.item.pid}] ${cyan(a.item.serviceId)}`
+      : `[${a.item.pid}] ${blue(a.item.ledgerContextPath)}`;
+
+  for (const a of report.actions) {
+    const detail = [
+      a.pid !== undefined ? `pid=${green(String(a.pid))}` : "",
+      a.contextPath ? `→ ${blue(a.contextPath)}` : "",
+      a.reason ? dim(`(${a.reason})`) : "",
+      a.error ? red(a.error) : "",
+    ].filter(Boolean).join(" ");
+
+    if (a.action === "skip") {
+      console.log(`⏭️  ${dim("skip")} ${target(a)} ${detail}`);
+    } else if (!a.ok) {
+      console.log(`❌ ${red(a.action)} ${target(a)} ${detail}`);
+    } else {
+      const verb = report.dryRun
+        ? yellow(`would ${a.action}`)
+        : green(a.action);
+      console.log(`🔧 ${verb} ${target(a)} ${detail}`);
+    }
+  }
+
+  const failed = report.actions.filter((a) => !a.ok).length;
+  const acted = report.actions.filter((a) => a.action !== "skip").length;
+  console.log(
+    dim(
+      `${acted} of ${report.actions.length} discrepancies ${
+        report.dryRun ? "would be repaired" : "repaired"
+      } (orphans=${report.policies.orphans}, stale=${report.policies.stale})${
+        failed ? `, ${failed} failed` : ""
+      }`,
+    ),
+  );
+  if (report.reportPath) console.log(`📝 ${dim(report.reportPath)}`);
+
+  // a dry run repairs nothing, so it reports like a plain reconcile
+  if (report.dryRun) return reconcileExitCode(report.summary);
+  return failed ? 1 : 0;
+}
+
 export async function lsProcesses(
   opts: Readonly<{ extended?: boolean; strategy?: "container" | "native" }> =
     {},
@@ -356,7 +528,18 @@ export async function htmlFromLsProcesses(
 
 const verboseType = new EnumType(["essential", "comprehensive"] as const);
 const proxyType = new EnumType(
-  ["nginx", "traefik", "both", "nginx-proxy-manager"] as const,
+  [
+    "nginx",
+    "traefik",
+    "both",
+    "caddy",
+    "haproxy",
+    "apache",
+    "nginx-proxy-manager",
+  ] as const,
+);
+const proxyTargetType = new EnumType(
+  ["nginx", "traefik", "caddy", "haproxy", "apache"] as const,
 );
 const dialectType = new EnumType(["SQLite", "DuckDB"] as const);
 const scopeType = new EnumType(["admin", "cross-tenant", "tenant"] as const);
@@ -424,10 +607,102 @@ await new Command()
     "--watch-strict-kills-only",
     "Watch mode: only kill processes from THIS watch loop session (Linux only)",
   )
+  .option(
+    "--no-respawn",
+    "Watch mode: don't respawn services that exit on their own",
+  )
+  .option(
+    "--liveness-ms <ms:number>",
+    "Watch mode: liveness check interval in ms (default 2000)",
+  )
+  .option(
+    "--respawn-max-restarts <n:number>",
+    "Watch mode: give up on a service after N restarts within 5 minutes (default 5)",
+  )
+  .option(
+    "--restart-on-change",
+    "Watch mode: restart a service on the same port when its cargo content changes",
+  )
+  .option(
+    "--fingerprint-hash",
+    "Watch mode: compare cargo content by SHA-256 instead of size/mtime",
+  )
+  .option(
+    "--health-monitor",
+    "Watch mode: keep probing each service and log results to <name>.health.jsonl",
+  )
+  .option(
+    "--health-interval-ms <ms:number>",
+    "Watch mode: health probe interval in ms (default 10000)",
+  )
+  .option(
+    "--health-failures <n:number>",
+    "Watch mode: consecutive failed probes before a service is unhealthy (default 3)",
+  )
+  .option(
+    "--health-restart-after-ms <ms:number>",
+    "Watch mode: restart a service that stays unhealthy this long (default: never)",
+  )
+  .type("segments", logSegmentNamingType)
+  .option(
+    "--log-max-bytes <bytes:integer>",
+    "Watch mode: rotate a service's stdout/stderr log at this size",
+  )
+  .option(
+    "--log-max-age-hours <hours:number>",
+    "Watch mode: rotate a service's stdout/stderr log after this long",
+  )
+  .option(
+    "--log-segments <naming:segments>",
+    "Rotated segment names: numbered (.1, .2, …) or timestamped (default numbered)",
+  )
+  .option("--log-keep <n:integer>", "Rotated segments kept per log (default 5)")
+  .option("--log-gzip", "Gzip rotated log segments")
+  .option(
+    "--log-rotate-interval-ms <ms:number>",
+    "Watch mode: how often logs are checked for rotation (default 60000)",
+  )
+  .type("proxy_target", proxyTargetType)
+  .option(
+    "--proxy-conf <type:proxy_target>",
+    "Watch mode: regenerate this reverse proxy config after every reconcile",
+    { depends: ["proxy-conf-out"] },
+  )
+  .option(
+    "--proxy-conf-out <dir:string>",
+    "Watch mode: where --proxy-conf files are written",
+    { depends: ["proxy-conf"] },
+  )
+  .option(
+    "--proxy-reload <command:string>",
+    "Watch mode: shell command run after proxy configs changed (e.g. 'nginx -s reload')",
+    { depends: ["proxy-conf"] },
+  )
   .option(
     "--start-port <port:number>",
     "Starting port for upstream services (default 3000)",
   )
+  .option(
+    "--probe",
+    "Wait for each service to answer HTTP 200 and record its health in the ledger",
+  )
+  .option(
+    "--probe-timeout-ms <ms:number>",
+    "Readiness probe timeout per service in ms (default 15000)",
+  )
+  .option(
+    "--no-host-leases",
+    "Don't coordinate with other hosts sharing this cargo and ledger (watch mode)",
+  )
+  .option(
+    "--host-lease-ttl-ms <ms:number>",
+    "Host lease lifetime in ms, renewed at a third of it (default 300000)",
+    { depends: ["watch"] },
+  )
+  .option(
+    "--no-sticky-ports",
+    "Don't reuse each cargo's previous port (allocate in discovery order)",
+  )
   .action(
     async (
       {
@@ -439,8 +714,31 @@ await new Command()
         watch,
         watchDebounceMs,
         watchStrictKillsOnly,
+        respawn,
+        livenessMs,
+        respawnMaxRestarts,
+        restartOnChange,
+        fingerprintHash,
+        healthMonitor,
+        healthIntervalMs,
+        healthFailures,
+        healthRestartAfterMs,
+        logMaxBytes,
+        logMaxAgeHours,
+        logSegments,
+        logKeep,
+        logGzip,
+        logRotateIntervalMs,
+        proxyConf,
+        proxyConfOut,
+        proxyReload,
         listenHost,
         startPort,
+        stickyPorts,
+        probe,
+        probeTimeoutMs,
+        hostLeases,
+        hostLeaseTtlMs,
       },
     ) => {
       const optsBase = {
@@ -448,6 +746,8 @@ await new Command()
         spawnedLedgerHome: ledgerHome,
         listenHost,
         startPort,
+        stickyPorts,
+        probe: { enabled: !!probe, timeoutMs: probeTimeoutMs },
       } as const;
 
       if (watch) {
@@ -463,18 +763,52 @@ await new Command()
             blue(
               String(!!watchStrictKillsOnly),
             )
-          }`,
+          }  respawn=${blue(String(respawn))}  restartOnChange=${
+            blue(String(!!restartOnChange))
+          }  healthMonitor=${blue(String(!!healthMonitor))}`,
         );
         console.log(dim("Press Ctrl+C to stop watching.\n"));
 
         const gen = materializeWatch([{ path: cargoHome }], {
           ...optsBase,
+          hostLeases: { enabled: hostLeases, ttlMs: hostLeaseTtlMs },
           watch: {
             enabled: true,
             debounceMs: typeof watchDebounceMs === "number"
               ? watchDebounceMs
               : undefined,
             strictKillsOnly: watchStrictKillsOnly ? true : undefined,
+            supervise: {
+              enabled: respawn,
+              intervalMs: livenessMs,
+              crashLoopMaxRestarts: respawnMaxRestarts,
+            },
+            restartOnChange: {
+              enabled: !!restartOnChange,
+              hash: !!fingerprintHash,
+            },
+            health: {
+              enabled: !!healthMonitor,
+              intervalMs: healthIntervalMs,
+              failureThreshold: healthFailures,
+              restartAfterMs: healthRestartAfterMs,
+            },
+            logRotation: {
+              maxBytes: logMaxBytes,
+              maxAgeMs: logMaxAgeHours !== undefined
+                ? logMaxAgeHours * 3_600_000
+                : undefined,
+              naming: logSegments,
+              keep: logKeep,
+              gzip: !!logGzip,
+              intervalMs: logRotateIntervalMs,
+            },
+            proxyConf: proxyConf
+              ? {
+                ...proxyConfTarget(proxyConf, proxyConfOut),
+                reloadCommand: proxyReload,
+              }
+              : undefined,
           },
         });
 
@@ -624,7 +958,26 @@ await new Command()
     `Spawn state home (default ${defaultLedgerHome})`,
     { default: defaultLedgerHome },
   )
-  .action(async ({ ledgerHome }) => {
+  .type("format", outputFormatType)
+  .option(
+    "--format <format:format>",
+    "Machine-readable output (json|jsonl|csv|yaml)",
+  )
+  .action(async ({ ledgerHome, format }) => {
+    if (format) {
+      const items = [];
+      for await (const le of spawnedLedgerStates(ledgerHome)) {
+        items.push(ledgerRow(le));
+      }
+      await writeStdout(
+        renderRows(format, {
+          schema: LEDGER_SCHEMA,
+          columns: LEDGER_COLUMNS,
+          items,
+        }),
+      );
+      return;
+    }
     await lsLedgers(ledgerHome);
   })
   .command("ps", `List Linux tagged processes`)
@@ -644,6 +997,37 @@ await new Command()
     "Process enumeration strategy: container=ps, native=/proc (default: auto)",
   )
   .option("--html", "Emit a static HTML index page to STDOUT")
+  .type("format", outputFormatType)
+  .option(
+    "--format <format:format>",
+    "Machine-readable output (json|jsonl|csv|yaml)",
+    { conflicts: ["html", "extended"] },
+  )
+  .type("orphans", orphanPolicyType)
+  .type("stale", stalePolicyType)
+  .option(
+    "--repair",
+    "Repair reconcile discrepancies and write a report to <ledger>/repair-reports",
+    { depends: ["reconcile"], conflicts: ["html", "format"] },
+  )
+  .option(
+    "--orphans <policy:orphans>",
+    "Processes without ledger: adopt (default; context from tags), kill, ignore",
+    { depends: ["repair"] },
+  )
+  .option(
+    "--stale <policy:stale>",
+    "Ledger entries without process: respawn, archive (default), ignore",
+    { depends: ["repair"] },
+  )
+  .option("--dry-run", "Show the repair actions without taking them", {
+    depends: ["repair"],
+  })
+  .option(
+    "--grace-ms <ms:integer>",
+    "SIGTERM grace period before SIGKILL for --orphans kill (default 2000)",
+    { depends: ["repair"] },
+  )
   .action(async (options) => {
     if (options.html) {
       if (options.reconcile) {
@@ -653,8 +1037,61 @@ await new Command()
       return;
     }
 
-    if (options.reconcile) {
-      await psReconcile(options.ledgerHome);
+    if (options.format && options.reconcile) {
+      const items = [];
+      const gen = reconcile(options.ledgerHome);
+      while (true) {
+        const next = await gen.next();
+        if (next.done) {
+          await writeStdout(
+            renderRows(options.format, {
+              schema: RECONCILE_SCHEMA,
+              columns: RECONCILE_COLUMNS,
+              items,
+              summary: next.value,
+            }),
+          );
+          Deno.exitCode = reconcileExitCode(next.value);
+          return;
+        }
+        items.push(reconcileRow(next.value));
+      }
+    }
+
+    if (options.format) {
+      const items = [];
+      for await (
+        const tp of taggedProcesses(
+          options.strategy
+            ? {
+              strategy: options.strategy === "container" ? "ps" : "/proc",
+            }
+            : undefined,
+        )
+      ) {
+        items.push(processRow(tp));
+      }
+      await writeStdout(
+        renderRows(options.format, {
+          schema: PROCESS_SCHEMA,
+          columns: PROCESS_COLUMNS,
+          items,
+        }),
+      );
+      return;
+    }
+
+    if (options.repair) {
+      Deno.exitCode = await psRepair(options.ledgerHome, {
+        orphans: options.orphans,
+        stale: options.stale,
+        dryRun: options.dryRun,
+        graceMs: options.graceMs,
+      });
+    } else if (options.reconcile) {
+      Deno.exitCode = reconcileExitCode(
+        await psReconcile(options.ledgerHome),
+      );
     } else {
       await lsProcesses({
         extended: options.extended,
@@ -662,9 +1099,62 @@ await new Command()
       });
     }
   })
+  .command(
+    "events [session:string]",
+    "Show a session's events.jsonl journal (default: the current session)",
+  )
+  .type("verbose", verboseType)
+  .option(
+    "--ledger-home <dir:string>",
+    `Spawn state home (default ${defaultLedgerHome})`,
+    { default: defaultLedgerHome },
+  )
+  .option("--type <types:string>", "Only these event types (CSV)")
+  .option("--service <serviceId:string>", "Only events about this service")
+  .option("--since <time:string>", "Only events at or after this ISO time")
+  .option("--errors", "Only errors and events that carry one")
+  .option("-f, --follow", "Keep printing events as they are appended")
+  .option("--jsonl", "Print the matching journal lines as JSONL")
+  .option(
+    "--verbose <level:verbose>",
+    "How much to pretty-print (default comprehensive)",
+  )
+  .action(async (o, session) => {
+    const path = await resolveEventsJournal(o.ledgerHome, session);
+    const since = o.since ? new Date(o.since) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      throw new Error(`invalid --since time: ${o.since}`);
+    }
+    const filter = {
+      types: o.type?.split(",").map((t: string) => t.trim()).filter(Boolean),
+      serviceId: o.service,
+      since,
+      errorsOnly: !!o.errors,
+    };
+
+    const ac = new AbortController();
+    const stop = () => ac.abort();
+    if (o.follow) Deno.addSignalListener("SIGINT", stop);
+
+    const pretty = richTextUISpawnEvents(o.verbose ?? "comprehensive");
+    try {
+      for await (
+        const ev of readJournal(path, { follow: o.follow, signal: ac.signal })
+      ) {
+        if (!journalMatches(ev, filter)) continue;
+        if (o.jsonl) {
+          console.log(JSON.stringify(ev));
+          continue;
+        }
+        await pretty(ev as unknown as SpawnEvent);
+      }
+    } finally {
+      if (o.follow) Deno.removeSignalListener("SIGINT", stop);
+    }
+  })
   .command(
     "proxy-conf",
-    `NGINX, Traefik, etc. proxy configs from upstream URLs in spawn-state home`,
+    `NGINX, Traefik, Caddy, HAProxy, Apache, etc. proxy configs from upstream URLs in spawn-state home`,
   )
   .type("proxy", proxyType)
   .option(
@@ -677,6 +1167,12 @@ await new Command()
   })
   .option("--nginx-out <dir:string>", "Write nginx confs into this dir")
   .option("--traefik-out <dir:string>", "Write traefik confs into this dir")
+  .option(
+    "--caddy-out <dir:string>",
+    "Write caddy snippets and an importing Caddyfile into this dir",
+  )
+  .option("--haproxy-out <dir:string>", "Write haproxy confs into this dir")
+  .option("--apache-out <dir:string>", "Write apache confs into this dir")
   .option("--include-dead", "Include dead PIDs when generating configs")
   .option("--verbose", "Print where configs were written")
   .option(
@@ -689,9 +1185,12 @@ await new Command()
   )
   .option(
     "--server-name <name:string>",
-    "nginx: server_name value (default '_')",
+    "nginx: server_name value (default '_'); apache: ServerName",
+  )
+  .option(
+    "--listen <listen:string>",
+    "nginx: listen value; apache: VirtualHost port or address (default '80')",
   )
-  .option("--listen <listen:string>", "nginx: listen value (default '80')")
   .option(
     "--entrypoints <csv:string>",
     "traefik: entryPoints CSV (default 'web')",
@@ -708,6 +1207,26 @@ await new Command()
     "--traefik-extra <text:string>",
     "traefik: extra yaml appended at end",
   )
+  .option(
+    "--site-address <address:string>",
+    "caddy: site address of the generated Caddyfile (default ':80')",
+  )
+  .option(
+    "--caddy-extra <text:string>",
+    "caddy: extra directives appended into the site block",
+  )
+  .option(
+    "--bind <bind:string>",
+    "haproxy: frontend bind address (default '*:80')",
+  )
+  .option(
+    "--haproxy-extra <text:string>",
+    "haproxy: extra lines appended into the frontend section",
+  )
+  .option(
+    "--apache-extra <text:string>",
+    "apache: extra directives appended into the VirtualHost",
+  )
   .option(
     "--upstream-scheme <scheme:string>",
     "nginx-proxy-manager: forward_scheme (default 'http')",
@@ -717,9 +1236,26 @@ await new Command()
     "nginx-proxy-manager: forward_host (default '0.0.0.0')",
     { default: "0.0.0.0" },
   )
+  .option(
+    "--watch",
+    "Keep regenerating the configs, writing only files that changed",
+  )
+  .option(
+    "--interval-ms <ms:integer>",
+    "--watch: how often services are checked in ms (default 2000)",
+    { depends: ["watch"] },
+  )
+  .option(
+    "--reload <command:string>",
+    "--watch: shell command run after configs changed (e.g. 'nginx -s reload')",
+    { depends: ["watch"] },
+  )
   .action(async (o) => {
     const wantNginx = o.type === "nginx" || o.type === "both";
     const wantTraefik = o.type === "traefik" || o.type === "both";
+    const wantCaddy = o.type === "caddy";
+    const wantHaproxy = o.type === "haproxy";
+    const wantApache = o.type === "apache";
     const wantNPM = o.type === "nginx-proxy-manager";
 
     const overrides = {
@@ -737,6 +1273,25 @@ await new Command()
         stripPrefix: o.stripPrefix ? true : undefined,
         extra: o.traefikExtra,
       },
+      caddy: {
+        locationPrefix: o.locationPrefix,
+        siteAddress: o.siteAddress,
+        stripPrefix: o.stripPrefix ? true : undefined,
+        extra: o.caddyExtra,
+      },
+      haproxy: {
+        locationPrefix: o.locationPrefix,
+        bind: o.bind,
+        stripPrefix: o.stripPrefix ? true : undefined,
+        extra: o.haproxyExtra,
+      },
+      apache: {
+        locationPrefix: o.locationPrefix,
+        serverName: o.serverName,
+        listen: o.listen,
+        stripPrefix: o.stripPrefix ? true : undefined,
+        extra: o.apacheExtra,
+      },
       nginxProxyManager: {
         locationPrefix: o.locationPrefix,
         upstreamScheme: o.upstreamScheme,
@@ -744,6 +1299,71 @@ await new Command()
       },
     } as const;
 
+    if (o.watch) {
+      if (wantNPM) {
+        throw new Error("proxy-conf --watch needs a file-based --type");
+      }
+      const targets = {
+        nginxConfHome: wantNginx ? o.nginxOut : undefined,
+        traefikConfHome: wantTraefik ? o.traefikOut : undefined,
+        caddyConfHome: wantCaddy ? o.caddyOut : undefined,
+        haproxyConfHome: wantHaproxy ? o.haproxyOut : undefined,
+        apacheConfHome: wantApache ? o.apacheOut : undefined,
+      };
+      if (!proxyConfWatchEnabled(targets)) {
+        throw new Error(
+          `proxy-conf --watch needs an output directory (--${o.type}-out)`,
+        );
+      }
+
+      // failures go to the current session's journal, when there is one
+      let journal: SpawnEventListener | undefined;
+      try {
+        journal = eventJournal(
+          dirname(await resolveEventsJournal(o.ledgerHome)),
+        );
+      } catch {
+        // console only
+      }
+
+      const regen = proxyConfRegenerator(
+        { ...targets, overrides, reloadCommand: o.reload },
+        {
+          session: {
+            sessionId: crypto.randomUUID(),
+            host: { identity: "proxy-conf", pid: Deno.pid },
+            startedAt: new Date().toISOString(),
+          },
+          onEvent: combineListeners(
+            richTextUISpawnEvents("essential"),
+            journal,
+          ),
+        },
+      );
+
+      console.log(dim("Press Ctrl+C to stop watching."));
+      const ac = new AbortController();
+      const stop = () => ac.abort();
+      Deno.addSignalListener("SIGINT", stop);
+      try {
+        while (!ac.signal.aborted) {
+          await regen.check();
+          await new Promise<void>((r) => {
+            const done = () => {
+              clearTimeout(t);
+              ac.signal.removeEventListener("abort", done);
+              r();
+            };
+            const t = setTimeout(done, o.intervalMs ?? 2_000);
+            ac.signal.addEventListener("abort", done, { once: true });
+          });
+        }
+      } finally {
+        Deno.removeSignalListener("SIGINT", stop);
+      }
+      return;
+    }
+
     if (wantNPM) {
       const states = [];
       for await (const s of taggedProcesses()) {
@@ -756,10 +1376,44 @@ await new Command()
     await generateReverseProxyConfsFromSpawnedStates({
       nginxConfHome: wantNginx ? o.nginxOut : undefined,
       traefikConfHome: wantTraefik ? o.traefikOut : undefined,
+      caddyConfHome: wantCaddy ? o.caddyOut : undefined,
+      haproxyConfHome: wantHaproxy ? o.haproxyOut : undefined,
+      apacheConfHome: wantApache ? o.apacheOut : undefined,
       verbose: o.verbose ? true : undefined,
       overrides,
+      stdoutType: wantCaddy
+        ? "caddy"
+        : wantHaproxy
+        ? "haproxy"
+        : wantApache
+        ? "apache"
+        : "nginx",
     });
   })
+  .command(
+    "stop <selectors...:string>",
+    "Gracefully stop services by serviceId, proxy prefix or cargo path",
+  )
+  .option(
+    "--ledger-home <dir:string>",
+    `Spawn state home (default ${defaultLedgerHome})`,
+    { default: defaultLedgerHome },
+  )
+  .option(
+    "--grace-ms <ms:number>",
+    "Wait this long after SIGTERM before SIGKILL (default 2000)",
+  )
+  .option("--dry-run", "Only list the services that would be stopped")
+  .action(async ({ ledgerHome, graceMs, dryRun }, ...selectors) => {
+    const stopped = await stopAndReport(selectors, {
+      ledgerHome,
+      graceMs,
+      dryRun,
+    });
+    if (stopped.length === 0) {
+      console.log(dim(`no services match ${selectors.join(" ")}`));
+    }
+  })
   .command(
     "kill",
     `Stop (kill) managed processes (default ${defaultLedgerHome})`,
@@ -769,15 +1423,204 @@ await new Command()
     `Spawn state home (default ${defaultLedgerHome})`,
     { default: defaultLedgerHome },
   )
-  .option("--clean", "Remove ledger root after killing processes")
-  .action(async ({ clean, ledgerHome }) => {
-    await killSpawnedProcesses();
+  .option(
+    "--grace-ms <ms:number>",
+    "Wait this long after SIGTERM before SIGKILL (default 2000)",
+  )
+  .option(
+    "--only-ledger",
+    "Only kill services whose context lives under --ledger-home",
+  )
+  .option("--clean", "Remove the ledger sessions of the killed services")
+  .action(async ({ clean, ledgerHome, graceMs, onlyLedger }) => {
+    const stopped = await stopAndReport([], {
+      ledgerHome,
+      graceMs,
+      anyLedger: !onlyLedger,
+    });
     if (clean) {
-      Deno.remove(ledgerHome, { recursive: true }).catch(() => undefined);
+      const removed = await removeLedgerSessions(
+        ledgerHome,
+        stopped.map((r) => r.process.contextPath),
+      );
+      for (const s of removed) console.log(`🧹 removed ${dim(s)}`);
     } else {
       await lsLedgers(ledgerHome);
     }
   })
+  .command(
+    "ledger",
+    new Command()
+      .description("Maintain the spawn-state ledger")
+      .command("gc", "Remove or archive old ledger sessions")
+      .option(
+        "--ledger-home <dir:string>",
+        `Spawn state home (default ${defaultLedgerHome})`,
+        { default: defaultLedgerHome },
+      )
+      .option("--keep-last <n:integer>", "Always keep the newest N sessions")
+      .option(
+        "--no-keep-live",
+        "Also collect sessions that still have live PIDs",
+      )
+      .option(
+        "--max-age-days <days:number>",
+        "Collect sessions started more than this many days ago",
+      )
+      .option(
+        "--max-log-bytes <bytes:integer>",
+        "Collect the oldest sessions until logs (with rotated segments) fit this budget",
+      )
+      .option("--archive", "Compress collected sessions into tar.gz archives")
+      .option(
+        "--archive-dir <dir:string>",
+        "Where archives go (default <ledger-home>/archive; implies --archive)",
+      )
+      .option("--dry-run", "Only show what would be collected")
+      .action(async (o) => {
+        const archiveDir = o.archiveDir ??
+          (o.archive ? `${o.ledgerHome}/archive` : undefined);
+        const { items, removedBytes, archives } = await ledgerGc(o.ledgerHome, {
+          keepLast: o.keepLast,
+          keepLive: o.keepLive,
+          maxAgeMs: o.maxAgeDays !== undefined
+            ? o.maxAgeDays * 86_400_000
+            : undefined,
+          maxLogBytes: o.maxLogBytes,
+        }, { dryRun: o.dryRun, archiveDir });
+
+        for (const it of items) {
+          const size = dim(fmtBytes(it.session.bytes));
+          const why = it.reasons.length
+            ? dim(` (${it.reasons.join(", ")})`)
+            : "";
+          if (it.action === "keep") {
+            console.log(
+              `✅ ${green("keep")}   ${it.session.name} ${size}${why}`,
+            );
+          } else {
+            const verb = o.dryRun
+              ? yellow("would remove")
+              : archiveDir
+              ? yellow("archived")
+              : red("removed");
+            console.log(`🧹 ${verb} ${it.session.name} ${size}${why}`);
+          }
+        }
+        for (const a of archives) console.log(`📦 ${dim(a)}`);
+
+        const n = items.filter((it) => it.action === "remove").length;
+        console.log(
+          dim(
+            `${n} of ${items.length} session(s) ${
+              o.dryRun ? "would be collected" : "collected"
+            }, ${fmtBytes(removedBytes)}`,
+          ),
+        );
+      })
+      .command("rotate", "Rotate the stdout/stderr logs of ledger services")
+      .type("segments", logSegmentNamingType)
+      .option(
+        "--ledger-home <dir:string>",
+        `Spawn state home (default ${defaultLedgerHome})`,
+        { default: defaultLedgerHome },
+      )
+      .option("--max-bytes <bytes:integer>", "Rotate logs at this size")
+      .option(
+        "--max-age-hours <hours:number>",
+        "Rotate logs opened (or last rotated) this long ago",
+      )
+      .option(
+        "--segments <naming:segments>",
+        "numbered (.1, .2, …) or timestamped (default numbered)",
+      )
+      .option("--keep <n:integer>", "Segments kept per log (default 5)")
+      .option("--gzip", "Gzip rotated segments")
+      .option("--force", "Rotate every non-empty log now")
+      .action(async (o) => {
+        const opts = {
+          maxBytes: o.force ? 1 : o.maxBytes,
+          maxAgeMs: o.maxAgeHours !== undefined
+            ? o.maxAgeHours * 3_600_000
+            : undefined,
+          naming: o.segments,
+          keep: o.keep,
+          gzip: !!o.gzip,
+        };
+        if (!logRotationEnabled(opts)) {
+          console.log(
+            dim("nothing to do: pass --max-bytes, --max-age-hours or --force"),
+          );
+          return;
+        }
+
+        let count = 0;
+        for await (const state of spawnedLedgerStates(o.ledgerHome)) {
+          for (const r of await rotateServiceLogs(state.filePath, opts)) {
+            count++;
+            console.log(
+              `🗂️ ${cyan(state.context.service.id)} ${dim(r.stream)} → ${
+                dim(r.segment.path)
+              } ${dim(fmtBytes(r.segment.bytes))}`,
+            );
+          }
+        }
+        console.log(dim(`${count} log(s) rotated`));
+      })
+      .command(
+        "diff <sessionA:string> <sessionB:string>",
+        "Compare the services of two ledger sessions by provenance",
+      )
+      .option(
+        "--ledger-home <dir:string>",
+        `Spawn state home (default ${defaultLedgerHome})`,
+        { default: defaultLedgerHome },
+      )
+      .option("--json", "Print the diff as JSON")
+      .option("--all", "Also list unchanged services")
+      .action(async (o, sessionA: string, sessionB: string) => {
+        const diff = await ledgerDiff(o.ledgerHome, sessionA, sessionB);
+        if (o.json) {
+          await writeStdout(JSON.stringify(diff, null, 2) + "\n");
+          return;
+        }
+
+        const show = (v: unknown) =>
+          Array.isArray(v) ? v.join(" ") : v === null ? "(none)" : String(v);
+
+        console.log(`${dim("---")} ${diff.a.session}`);
+        console.log(`${dim("+++")} ${diff.b.session}`);
+        for (const s of diff.services) {
+          const id = s.b?.serviceId ?? s.a?.serviceId ?? "";
+          const where = dim(s.provenance);
+          if (s.status === "added") {
+            console.log(
+              `${green("+")} ${cyan(id)} ${where} ${
+                dim(`${s.b?.host}:${s.b?.port}`)
+              }`,
+            );
+          } else if (s.status === "removed") {
+            console.log(`${red("-")} ${cyan(id)} ${where}`);
+          } else if (s.status === "changed") {
+            console.log(`${yellow("~")} ${cyan(id)} ${where}`);
+            for (const c of s.changes) {
+              console.log(
+                `    ${c.field}: ${red(show(c.from))} → ${green(show(c.to))}`,
+              );
+            }
+          } else if (o.all) {
+            console.log(`  ${cyan(id)} ${where}`);
+          }
+        }
+
+        const { added, removed, changed, unchanged } = diff.summary;
+        console.log(
+          dim(
+            `${added} added, ${removed} removed, ${changed} changed, ${unchanged} unchanged`,
+          ),
+        );
+      }),
+  )
   .command("help", new HelpCommand())
   .command("completions", new CompletionsCommand())
   .parse(Deno.args);
@@ -0,0 +1,347 @@
+// lib/db-browser.ts
+
+/**
+ * Engine layer for the built-in read-only database endpoint
+ * (bin/db-browser/serve.ts).
+ *
+ * Engines shell out to the database's own CLI so Truth Yard does not need
+ * native drivers; every query runs against a read-only, locked-down
+ * connection and is additionally screened by isReadOnlyStatement().
+ */
+export type DbBrowserEngineName = "duckdb" | "sqlite";
+
+export type DbRow = Record<string, unknown>;
+
+export type DbTable = Readonly<{
+  schema: string;
+  name: string;
+  type: string;
+}>;
+
+export type DbColumn = Readonly<{
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey: boolean;
+}>;
+
+/**
+ * A table reference; `schema` is omitted for the default schema.
+ */
+export type DbTableRef = Readonly<{ schema?: string; name: string }>;
+
+export type DbBrowserEngine = Readonly<{
+  name: DbBrowserEngineName;
+  dbPath: string;
+
+  /**
+   * Run a single read-only statement and return its rows.
+   */
+  query: (sql: string) => Promise<DbRow[]>;
+
+  /**
+   * List user tables and views.
+   */
+  tables: () => Promise<DbTable[]>;
+
+  /**
+   * Column definitions of a table or view.
+   */
+  columns: (table: DbTableRef) => Promise<DbColumn[]>;
+
+  /**
+   * One page of rows, in storage order.
+   */
+  rows: (
+    table: DbTableRef,
+    page: Readonly<{ limit: number; offset: number }>,
+  ) => Promise<DbRow[]>;
+
+  /**
+   * Total row count.
+   */
+  count: (table: DbTableRef) => Promise<number>;
+}>;
+
+const READ_ONLY_LEADS = [
+  "select",
+  "with",
+  "from",
+  "values",
+  "table",
+  "describe",
+  "show",
+  "summarize",
+  "explain",
+] as const;
+
+/**
+ * True when `sql` is a single statement that starts with a read-only verb.
+ *
+ * This is a guard in front of the engine's own read-only and safe modes (see
+ * cliJsonQuery()), not a SQL parser: literals, quoted identifiers and
+ * comments are skipped first, and anything with a second statement or an
+ * unterminated literal is rejected.
+ */
+export function isReadOnlyStatement(
+  sql: string,
+  dialect?: DbBrowserEngineName,
+): boolean {
+  const code = sqlCode(sql, dialect);
+  if (code === undefined) return false;
+  const s = code.trim().replace(/;\s*$/, "");
+  if (!s) return false;
+  if (s.includes(";")) return false;
+
+  const lead = s.match(/^\(*\s*([A-Za-z]+)/)?.[1]?.toLowerCase();
+  if (!lead) return false;
+  return (READ_ONLY_LEADS as readonly string[]).includes(lead);
+}
+
+const DOLLAR_QUOTE = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+
+/**
+ * `sql` with string literals and quoted identifiers emptied and comments
+ * blanked, so only code is left to inspect; undefined when a literal or
+ * comment is not terminated, or where SQLite and DuckDB would disagree on
+ * where a literal ends.
+ *
+ * `[...]` quotes an identifier in SQLite but is a list in DuckDB; without a
+ * dialect, brackets holding quotes or semicolons are refused.
+ */
+function sqlCode(
+  sql: string,
+  dialect?: DbBrowserEngineName,
+): string | undefined {
+  let out = "";
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (sql.startsWith("--", i)) {
+      const end = sql.indexOf("\n", i);
+      i = end < 0 ? sql.length : end;
+      out += " ";
+      continue;
+    }
+    if (sql.startsWith("/*", i)) {
+      const end = sql.indexOf("*/", i + 2);
+      if (end < 0) return undefined;
+      i = end + 2;
+      out += " ";
+      continue;
+    }
+
+    // DuckDB dollar-quoted strings ($$...$$, $tag$...$tag$) mean nothing to
+    // SQLite, so the engines would disagree on where they end: refused
+    DOLLAR_QUOTE.lastIndex = i;
+    if (DOLLAR_QUOTE.test(sql)) return undefined;
+
+    if (ch === "[" && dialect !== "duckdb") {
+      const end = sql.indexOf("]", i + 1);
+      if (end < 0) return undefined;
+      if (!dialect && /['"`;]/.test(sql.slice(i + 1, end))) return undefined;
+      i = end + 1;
+      out += '""';
+      continue;
+    }
+
+    if (ch === "'" || ch === '"' || ch === "`") {
+      let j = i + 1;
+      for (; j < sql.length; j++) {
+        if (sql[j] !== ch) continue;
+        if (sql[j + 1] === ch) j++;
+        else break;
+      }
+      if (j >= sql.length) return undefined;
+      // DuckDB's E'...' strings take backslash escapes, SQLite's do not
+      if (
+        ch === "'" && /(^|[^A-Za-z0-9_])[Ee]$/.test(out.slice(-2)) &&
+        sql.slice(i, j).includes("\\")
+      ) {
+        return undefined;
+      }
+      i = j + 1;
+      out += ch === "'" ? "''" : '""';
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+  return out;
+}
+
+export function sqlIdent(s: string): string {
+  return `"${s.replaceAll('"', '""')}"`;
+}
+
+export function sqlTableRef(t: DbTableRef): string {
+  return t.schema
+    ? `${sqlIdent(t.schema)}.${sqlIdent(t.name)}`
+    : sqlIdent(t.name);
+}
+
+function sqlString(s: string): string {
+  return `'${s.replaceAll("'", "''")}'`;
+}
+
+/* ---------------------------------- cli ---------------------------------- */
+
+/**
+ * Run one read-only statement through a CLI that supports
+ * `-readonly -json <db> <sql>` (both `duckdb` and `sqlite3` do), after
+ * `lockdown` arguments that shut out file, network and extension access:
+ * read-only alone still allows e.g. `SELECT writefile(...)`.
+ */
+function cliJsonQuery(
+  engine: DbBrowserEngineName,
+  bin: string,
+  dbPath: string,
+  lockdown: readonly string[],
+) {
+  return async (sql: string): Promise<DbRow[]> => {
+    if (!isReadOnlyStatement(sql, engine)) {
+      throw new Error("db-browser: only single read-only statements allowed");
+    }
+
+    const { code, stdout, stderr } = await new Deno.Command(bin, {
+      args: [...lockdown, "-readonly", "-json", dbPath, sql],
+      stdin: "null",
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+
+    const dec = new TextDecoder();
+    if (code !== 0) {
+      const err = dec.decode(stderr).trim();
+      throw new Error(`${engine}: ${err || `exit code ${code}`}`);
+    }
+
+    // Both CLIs print nothing (not "[]") for an empty result set.
+    const text = dec.decode(stdout).trim();
+    if (!text) return [];
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed as DbRow[] : [];
+  };
+}
+
+/**
+ * Paging and counting are the same SQL for every engine.
+ */
+function pagedOps(query: (sql: string) => Promise<DbRow[]>) {
+  return {
+    rows: (t: DbTableRef, page: Readonly<{ limit: number; offset: number }>) =>
+      query(
+        `SELECT * FROM ${sqlTableRef(t)} LIMIT ${
+          Math.max(0, Math.trunc(page.limit))
+        } OFFSET ${Math.max(0, Math.trunc(page.offset))}`,
+      ),
+    count: async (t: DbTableRef) => {
+      const rows = await query(`SELECT count(*) AS n FROM ${sqlTableRef(t)}`);
+      return Number(rows[0]?.["n"] ?? 0);
+    },
+  };
+}
+
+/* --------------------------------- duckdb -------------------------------- */
+
+/**
+ * DuckDB engine backed by the `duckdb` CLI (`-readonly -json`). External
+ * access (read_text(), read_csv(), glob(), httpfs, extensions) is disabled
+ * and the configuration locked before the statement runs.
+ */
+export function duckdbEngine(
+  dbPath: string,
+  opts: Readonly<{ duckdbBin?: string }> = {},
+): DbBrowserEngine {
+  const query = cliJsonQuery("duckdb", opts.duckdbBin ?? "duckdb", dbPath, [
+    "-cmd",
+    "SET enable_external_access = false; SET lock_configuration = true;",
+  ]);
+
+  return {
+    name: "duckdb",
+    dbPath,
+    query,
+    tables: async () => {
+      const rows = await query(
+        `SELECT table_schema, table_name, table_type
+           FROM information_schema.tables
+          WHERE table_schema NOT IN ('information_schema', 'pg_catalog')
+          ORDER BY table_schema, table_name`,
+      );
+      return rows.map((r) => ({
+        schema: String(r["table_schema"] ?? ""),
+        name: String(r["table_name"] ?? ""),
+        type: String(r["table_type"] ?? ""),
+      }));
+    },
+    columns: async (t) => {
+      const rows = await query(
+        `SELECT column_name, data_type, is_nullable
+           FROM information_schema.columns
+          WHERE table_name = ${sqlString(t.name)}
+            AND table_schema = ${sqlString(t.schema ?? "main")}
+          ORDER BY ordinal_position`,
+      );
+      return rows.map((r) => ({
+        name: String(r["column_name"] ?? ""),
+        type: String(r["data_type"] ?? ""),
+        notNull: r["is_nullable"] === "NO",
+        primaryKey: false,
+      }));
+    },
+    ...pagedOps(query),
+  };
+}
+
+/* --------------------------------- sqlite -------------------------------- */
+
+/**
+ * SQLite engine backed by the `sqlite3` CLI (`-safe -readonly -json`);
+ * safe mode refuses ATTACH, writefile(), load_extension() and the like.
+ */
+export function sqliteEngine(
+  dbPath: string,
+  opts: Readonly<{ sqliteBin?: string }> = {},
+): DbBrowserEngine {
+  const query = cliJsonQuery(
+    "sqlite",
+    opts.sqliteBin ?? "sqlite3",
+    dbPath,
+    ["-safe"],
+  );
+
+  return {
+    name: "sqlite",
+    dbPath,
+    query,
+    tables: async () => {
+      const rows = await query(
+        `SELECT name, type FROM sqlite_master
+          WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+          ORDER BY name`,
+      );
+      return rows.map((r) => ({
+        schema: "main",
+        name: String(r["name"] ?? ""),
+        type: String(r["type"] ?? ""),
+      }));
+    },
+    columns: async (t) => {
+      const rows = await query(
+        `SELECT name, type, "notnull" AS not_null, pk
+           FROM pragma_table_info(${sqlString(t.name)})
+          ORDER BY cid`,
+      );
+      return rows.map((r) => ({
+        name: String(r["name"] ?? ""),
+        type: String(r["type"] ?? ""),
+        notNull: Number(r["not_null"]) === 1,
+        primaryKey: Number(r["pk"]) > 0,
+      }));
+    },
+    ...pagedOps(query),
+  };
+}
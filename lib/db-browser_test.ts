@@ -0,0 +1,145 @@
+// db-browser_test.ts
+import { assert, assertEquals, assertFalse, assertRejects } from "@std/assert";
+import { join, resolve } from "@std/path";
+
+import {
+  duckdbEngine,
+  isReadOnlyStatement,
+  sqliteEngine,
+} from "./db-browser.ts";
+
+Deno.test("db-browser: read-only statement guard", async (t) => {
+  await t.step("accepts single read-only statements", () => {
+    assert(isReadOnlyStatement("SELECT 1"));
+    assert(isReadOnlyStatement("  select * from t;  "));
+    assert(isReadOnlyStatement("WITH x AS (SELECT 1) SELECT * FROM x"));
+    assert(isReadOnlyStatement("FROM t LIMIT 5"));
+    assert(isReadOnlyStatement("DESCRIBE t"));
+    assert(isReadOnlyStatement("-- comment\nSELECT 2"));
+    assert(isReadOnlyStatement("(SELECT 1) UNION (SELECT 2)"));
+  });
+
+  await t.step("rejects writes and multiple statements", () => {
+    assertFalse(isReadOnlyStatement(""));
+    assertFalse(isReadOnlyStatement("DELETE FROM t"));
+    assertFalse(isReadOnlyStatement("COPY t TO 'out.csv'"));
+    assertFalse(isReadOnlyStatement("ATTACH 'other.db'"));
+    assertFalse(isReadOnlyStatement("SELECT 1; DROP TABLE t"));
+    assertFalse(isReadOnlyStatement("/* SELECT */ INSERT INTO t VALUES (1)"));
+    assertFalse(isReadOnlyStatement("PRAGMA writable_schema = 1"));
+  });
+
+  await t.step("literals and quoted names are not code", () => {
+    assert(isReadOnlyStatement("SELECT ';' AS semi, '--' AS dashes"));
+    assert(isReadOnlyStatement(`SELECT "a;b" FROM "t--x"`));
+    assert(isReadOnlyStatement("SELECT [a;b] FROM t", "sqlite"));
+    assert(isReadOnlyStatement("SELECT ['a', 'b;']", "duckdb"));
+    assertFalse(isReadOnlyStatement("SELECT '--'; ATTACH '/tmp/x.db' AS y"));
+    assertFalse(isReadOnlyStatement("SELECT '/*'; ATTACH 'x' AS y; -- */"));
+    assertFalse(isReadOnlyStatement("SELECT 'unterminated"));
+    assertFalse(isReadOnlyStatement("SELECT $$;$$; ATTACH 'x' AS y"));
+    assertFalse(isReadOnlyStatement("SELECT E'\\'; ATTACH 'x' AS y; --'"));
+    assertFalse(isReadOnlyStatement("SELECT [x'] ; ATTACH 'y' AS z; --'"));
+    assertFalse(
+      isReadOnlyStatement("SELECT [']'; ATTACH 'x' AS y; --']", "duckdb"),
+    );
+  });
+});
+
+/** `bin --version` runs (spawning a missing binary throws synchronously). */
+async function onPath(bin: string): Promise<boolean> {
+  try {
+    const out = await new Deno.Command(bin, {
+      args: ["--version"],
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    return out.code === 0;
+  } catch {
+    return false;
+  }
+}
+
+Deno.test("db-browser: sqlite engine pages and describes tables", async (t) => {
+  const hasSqlite = await onPath("sqlite3");
+  if (!hasSqlite) {
+    console.log("sqlite3 not found on PATH; skipping sqlite engine test");
+    return;
+  }
+
+  const engine = sqliteEngine(
+    resolve(join(import.meta.dirname ?? ".", "../support/fixtures/chinook.db")),
+  );
+
+  await t.step("lists tables without sqlite internals", async () => {
+    const names = (await engine.tables()).map((x) => x.name);
+    assert(names.includes("albums"));
+    assertFalse(names.some((n) => n.startsWith("sqlite_")));
+  });
+
+  await t.step("describes columns with primary keys", async () => {
+    const cols = await engine.columns({ name: "albums" });
+    assertEquals(cols[0], {
+      name: "AlbumId",
+      type: "INTEGER",
+      notNull: true,
+      primaryKey: true,
+    });
+  });
+
+  await t.step("side-effecting functions are refused", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "truth-yard-dbb-" });
+    const out = join(dir, "pwn.txt");
+    try {
+      await assertRejects(() =>
+        engine.query(`SELECT writefile('${out}', 'owned')`)
+      );
+      await assertRejects(() => engine.query("SELECT load_extension('/x')"));
+      assertFalse(await Deno.stat(out).then(() => true, () => false));
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("pages rows and counts", async () => {
+    const rows = await engine.rows({ name: "albums" }, { limit: 2, offset: 5 });
+    assertEquals(rows.map((r) => r["AlbumId"]), [6, 7]);
+    assertEquals(await engine.count({ name: "albums" }), 347);
+  });
+});
+
+Deno.test("db-browser: duckdb engine has no external access", async (t) => {
+  const hasDuckdb = await onPath("duckdb");
+  if (!hasDuckdb) {
+    console.log("duckdb not found on PATH; skipping duckdb engine test");
+    return;
+  }
+
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-dbb-" });
+  const dbPath = join(dir, "t.duckdb");
+  await new Deno.Command("duckdb", {
+    args: [dbPath, "CREATE TABLE t AS SELECT 1 AS n"],
+    stdout: "null",
+  }).output();
+  const engine = duckdbEngine(dbPath);
+
+  try {
+    await t.step("queries still run", async () => {
+      assertEquals(await engine.query("SELECT n FROM t"), [{ n: 1 }]);
+    });
+
+    await t.step("host files are not readable", async () => {
+      for (
+        const sql of [
+          "SELECT * FROM read_text('/etc/hostname')",
+          "SELECT * FROM read_csv('/etc/passwd')",
+          "SELECT * FROM glob('/etc/*')",
+        ]
+      ) {
+        await assertRejects(() => engine.query(sql));
+      }
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
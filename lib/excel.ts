@@ -0,0 +1,358 @@
+// lib/excel.ts
+import { dirname } from "@std/path";
+
+import type { Derivation } from "./exposable.ts";
+import { ensureParentDir } from "./path.ts";
+
+/**
+ * Minimal, dependency-free XLSX reader plus the Excel -> SQLite derivation
+ * used to expose workbooks as read-only services.
+ *
+ * Only what is needed to read cell values is supported: the ZIP container
+ * (stored/deflate, no ZIP64), the workbook sheet list, shared strings and
+ * worksheet cells. Styles, formulas (cached values are used) and dates
+ * (left as serial numbers) are not interpreted.
+ */
+export type XlsxCell = string | number | boolean | null;
+
+export type XlsxSheet = Readonly<{
+  name: string;
+  rows: XlsxCell[][];
+}>;
+
+/* ---------------------------------- zip ---------------------------------- */
+
+async function unzipEntries(
+  bytes: Uint8Array,
+  wanted: (name: string) => boolean,
+): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("xlsx: not a zip archive");
+
+  const entries = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  if (p === 0xffffffff) throw new Error("xlsx: zip64 archives not supported");
+
+  const dec = new TextDecoder();
+  const out = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entries; i++) {
+    if (view.getUint32(p, true) !== 0x02014b50) {
+      throw new Error("xlsx: corrupt zip central directory");
+    }
+    const method = view.getUint16(p + 10, true);
+    const compSize = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const localOffset = view.getUint32(p + 42, true);
+    const name = dec.decode(bytes.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + commentLen;
+
+    if (!wanted(name)) continue;
+
+    const lNameLen = view.getUint16(localOffset + 26, true);
+    const lExtraLen = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + lNameLen + lExtraLen;
+    const data = bytes.subarray(start, start + compSize);
+
+    if (method === 0) out.set(name, data);
+    else if (method === 8) out.set(name, await inflateRaw(data));
+    else throw new Error(`xlsx: unsupported zip compression ${method}`);
+  }
+
+  return out;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(
+    new DecompressionStream("deflate-raw"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/* ---------------------------------- xml ---------------------------------- */
+
+function decodeXmlEntities(s: string): string {
+  return s.replaceAll(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g,
+    (_m, e: string) => {
+      if (e === "lt") return "<";
+      if (e === "gt") return ">";
+      if (e === "amp") return "&";
+      if (e === "quot") return '"';
+      if (e === "apos") return "'";
+      const code = e.startsWith("#x")
+        ? parseInt(e.slice(2), 16)
+        : parseInt(e.slice(1), 10);
+      return String.fromCodePoint(code);
+    },
+  );
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+  const m = attrs.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return m ? decodeXmlEntities(m[1]) : undefined;
+}
+
+/** Concatenate all <t> runs (rich text), ignoring phonetic <rPh> runs. */
+function textRuns(xml: string): string {
+  const body = xml.replaceAll(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let out = "";
+  for (const m of body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>|<t\b[^>]*\/>/g)) {
+    out += decodeXmlEntities(m[1] ?? "");
+  }
+  return out;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0]?.toUpperCase() ?? "";
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function resolveZipTarget(base: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = `${base}/${target}`.split("/");
+  const stack: string[] = [];
+  for (const part of parts) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") stack.pop();
+    else stack.push(part);
+  }
+  return stack.join("/");
+}
+
+/* --------------------------------- reader -------------------------------- */
+
+/**
+ * Read every worksheet of an XLSX workbook as rows of cell values, in
+ * workbook order. Missing cells are null; rows are not padded.
+ */
+export async function readXlsxSheets(path: string): Promise<XlsxSheet[]> {
+  const bytes = await Deno.readFile(path);
+  const files = await unzipEntries(
+    bytes,
+    (n) => n.startsWith("xl/") && n.endsWith(".xml") || n.endsWith(".rels"),
+  );
+
+  const dec = new TextDecoder();
+  const text = (name: string) => {
+    const f = files.get(name);
+    return f ? dec.decode(f) : undefined;
+  };
+
+  const workbook = text("xl/workbook.xml");
+  if (!workbook) throw new Error("xlsx: missing xl/workbook.xml");
+
+  const rels = new Map<string, string>();
+  for (
+    const m of (text("xl/_rels/workbook.xml.rels") ?? "").matchAll(
+      /<Relationship\b([^>]*)\/?>/g,
+    )
+  ) {
+    const id = xmlAttr(m[1], "Id");
+    const target = xmlAttr(m[1], "Target");
+    if (id && target) rels.set(id, resolveZipTarget("xl", target));
+  }
+
+  const shared: string[] = [];
+  for (
+    const m of (text("xl/sharedStrings.xml") ?? "").matchAll(
+      /<si>([\s\S]*?)<\/si>|<si\/>/g,
+    )
+  ) shared.push(textRuns(m[1] ?? ""));
+
+  const sheets: XlsxSheet[] = [];
+  for (const m of workbook.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const name = xmlAttr(m[1], "name") ?? `Sheet${sheets.length + 1}`;
+    const rid = xmlAttr(m[1], "r:id");
+    const target = rid ? rels.get(rid) : undefined;
+    const xml = target ? text(target) : undefined;
+    if (!xml) continue;
+    sheets.push({ name, rows: parseSheetRows(xml, shared) });
+  }
+
+  return sheets;
+}
+
+function parseSheetRows(xml: string, shared: readonly string[]): XlsxCell[][] {
+  const rows: XlsxCell[][] = [];
+
+  for (const rm of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rAttr = xmlAttr(rm[1], "r");
+    const rowIndex = rAttr ? Number(rAttr) - 1 : rows.length;
+    const row: XlsxCell[] = [];
+
+    for (
+      const cm of (rm[2] ?? "").matchAll(
+        /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+      )
+    ) {
+      const ref = xmlAttr(cm[1], "r");
+      const col = ref ? columnIndex(ref) : row.length;
+      const type = xmlAttr(cm[1], "t") ?? "n";
+      const inner = cm[2] ?? "";
+      const v = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: XlsxCell = null;
+      if (type === "s") value = v !== undefined ? shared[Number(v)] ?? "" : "";
+      else if (type === "inlineStr") value = textRuns(inner);
+      else if (type === "b") value = v === "1";
+      else if (v !== undefined) {
+        const raw = decodeXmlEntities(v);
+        const num = Number(raw);
+        value = type === "n" && raw.trim() !== "" && Number.isFinite(num)
+          ? num
+          : raw;
+      }
+
+      while (row.length < col) row.push(null);
+      row[col] = value;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  }
+
+  return rows;
+}
+
+/* ------------------------------- derivation ------------------------------ */
+
+function uniqueNames(raw: readonly string[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((name0, i) => {
+    const name = name0.trim() || `column_${i + 1}`;
+    const key = name.toLowerCase();
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return n === 1 ? name : `${name}_${n}`;
+  });
+}
+
+function sqlIdent(s: string): string {
+  return `"${s.replaceAll('"', '""')}"`;
+}
+
+function sqlValue(v: XlsxCell | undefined): string {
+  if (v === null || v === undefined) return "NULL";
+  if (typeof v === "boolean") return v ? "1" : "0";
+  if (typeof v === "number") return String(v);
+  return `'${v.replaceAll("'", "''")}'`;
+}
+
+/**
+ * Build the SQL script that loads `sheets` into SQLite: one table per sheet,
+ * named after the sheet, with the first row as column names.
+ */
+export function excelSheetsToSql(
+  sheets: readonly XlsxSheet[],
+): { sql: string; tables: Derivation["tables"] } {
+  const lines: string[] = ["BEGIN;"];
+  const tables: Array<Derivation["tables"][number]> = [];
+  const tableNames = uniqueNames(sheets.map((s) => s.name));
+
+  sheets.forEach((sheet, i) => {
+    const [header = [], ...body] = sheet.rows;
+    const width = Math.max(0, ...sheet.rows.map((r) => r.length));
+    if (width === 0) return;
+
+    const columns = uniqueNames(
+      Array.from(
+        { length: width },
+        (_, c) =>
+          header[c] === null || header[c] === undefined
+            ? ""
+            : String(header[c]),
+      ),
+    );
+    const table = tableNames[i];
+
+    lines.push(
+      `CREATE TABLE ${sqlIdent(table)} (${columns.map(sqlIdent).join(", ")});`,
+    );
+
+    let rows = 0;
+    for (const r of body) {
+      if (r.every((v) => v === null || v === undefined)) continue;
+      const values = Array.from({ length: width }, (_, c) => sqlValue(r[c]));
+      lines.push(
+        `INSERT INTO ${sqlIdent(table)} VALUES (${values.join(", ")});`,
+      );
+      rows++;
+    }
+
+    tables.push({ source: sheet.name, table, columns, rows });
+  });
+
+  lines.push("COMMIT;");
+  return { sql: lines.join("\n") + "\n", tables };
+}
+
+/**
+ * Convert an XLSX workbook into a SQLite database at `derivedPath` (replaced
+ * atomically) using the sqlite3 CLI, and describe what was derived.
+ */
+export async function deriveSqliteFromExcel(
+  sourcePath: string,
+  derivedPath: string,
+  opts: Readonly<{ sqliteBin?: string }> = {},
+): Promise<Derivation> {
+  const sheets = await readXlsxSheets(sourcePath);
+  const { sql, tables } = excelSheetsToSql(sheets);
+
+  await ensureParentDir(derivedPath);
+  const tmp = await Deno.makeTempFile({
+    dir: dirname(derivedPath),
+    prefix: ".derive-",
+    suffix: ".db",
+  });
+
+  try {
+    await Deno.remove(tmp);
+
+    const child = new Deno.Command(opts.sqliteBin ?? "sqlite3", {
+      args: ["-bail", tmp],
+      stdin: "piped",
+      stdout: "null",
+      stderr: "piped",
+    }).spawn();
+
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(sql));
+    await writer.close();
+
+    const { code, stderr } = await child.output();
+    if (code !== 0) {
+      const err = new TextDecoder().decode(stderr).trim();
+      throw new Error(`sqlite3: ${err || `exit code ${code}`}`);
+    }
+
+    await Deno.rename(tmp, derivedPath);
+  } catch (error) {
+    try {
+      await Deno.remove(tmp);
+    } catch {
+      // ignore
+    }
+    throw error;
+  }
+
+  return {
+    method: "xlsx-to-sqlite",
+    source: sourcePath,
+    derived: derivedPath,
+    derivedAt: new Date().toISOString(),
+    tables,
+  };
+}
@@ -0,0 +1,83 @@
+// excel_test.ts
+import { assert, assertEquals } from "@std/assert";
+import { join, resolve } from "@std/path";
+
+import {
+  deriveSqliteFromExcel,
+  excelSheetsToSql,
+  readXlsxSheets,
+} from "./excel.ts";
+
+function fixturePath(name: string): string {
+  return resolve(join(import.meta.dirname ?? ".", "../support/fixtures", name));
+}
+
+/** `bin --version` runs (spawning a missing binary throws synchronously). */
+async function onPath(bin: string): Promise<boolean> {
+  try {
+    const out = await new Deno.Command(bin, {
+      args: ["--version"],
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    return out.code === 0;
+  } catch {
+    return false;
+  }
+}
+
+Deno.test("excel: xlsx reading and SQLite derivation", async (t) => {
+  const workbook = fixturePath("northwind.xlsx");
+
+  await t.step("reads sheets in workbook order with typed cells", async () => {
+    const sheets = await readXlsxSheets(workbook);
+    const categories = sheets.find((s) => s.name === "categories");
+    assert(categories, "Expected a categories sheet");
+    assertEquals(categories.rows[0].slice(0, 2), [
+      "categoryid",
+      "categoryname",
+    ]);
+    assertEquals(categories.rows[1].slice(0, 2), [1, "Beverages"]);
+  });
+
+  await t.step("SQL script uses the header row and skips blank rows", () => {
+    const { sql, tables } = excelSheetsToSql([
+      {
+        name: "People",
+        rows: [["name", "name", null], ["O'Brien", 42, true], [], [null]],
+      },
+    ]);
+    assertEquals(tables, [{
+      source: "People",
+      table: "People",
+      columns: ["name", "name_2", "column_3"],
+      rows: 1,
+    }]);
+    assert(
+      sql.includes(`INSERT INTO "People" VALUES ('O''Brien', 42, 1);`),
+      sql,
+    );
+  });
+
+  await t.step("derives a SQLite file and describes it", async () => {
+    if (!await onPath("sqlite3")) {
+      console.log("sqlite3 not found on PATH; skipping derivation test");
+      return;
+    }
+
+    const dir = await Deno.makeTempDir({ prefix: "truth-yard-excel-" });
+    try {
+      const derived = join(dir, "northwind.xlsx.derived.sqlite.db");
+      const d = await deriveSqliteFromExcel(workbook, derived);
+      assertEquals(d.method, "xlsx-to-sqlite");
+      assertEquals(d.derived, derived);
+      assert((await Deno.stat(derived)).size > 0);
+      assertEquals(
+        d.tables.find((x) => x.table === "categories")?.rows,
+        8,
+      );
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
@@ -1,6 +1,10 @@
 // lib/exposable.ts
-import { resolve } from "@std/path";
+import { fromFileUrl, resolve } from "@std/path";
+import { deriveSqliteFromExcel } from "./excel.ts";
 import type {
+  DuckDbDataSupplier,
+  ExcelDataSupplier,
+  SqliteDataSupplier,
   SqlPageDataSupplier,
   SurveilrDataSupplier,
   TabularDataSupplier,
@@ -14,6 +18,13 @@ import { ensureParentDir } from "./path.ts";
 export type SpawnHost = Readonly<{
   identity: string;
   pid: number;
+
+  /**
+   * Machine the spawner ran on (shared cargo volumes may be served by
+   * several hosts).
+   */
+  hostname?: string;
+  machineId?: string;
 }>;
 
 /**
@@ -60,6 +71,31 @@ export type SpawnedProcess = Readonly<{
   pid: number;
   process: Deno.ChildProcess;
   kill: (signal?: Deno.Signal) => Promise<void>;
+
+  /**
+   * Present when the service serves a derived copy of its cargo.
+   */
+  derivation?: Derivation;
+}>;
+
+/**
+ * Audit record for cargo that had to be converted before it could be served
+ * (for example an Excel workbook loaded into SQLite). Stored in the ledger
+ * context so the derived file can be traced back to its source.
+ */
+export type Derivation = Readonly<{
+  method: "xlsx-to-sqlite";
+  source: string;
+  derived: string;
+  derivedAt: string;
+  tables: ReadonlyArray<
+    Readonly<{
+      source: string;
+      table: string;
+      columns: readonly string[];
+      rows: number;
+    }>
+  >;
 }>;
 
 /* -------------------------------- helpers -------------------------------- */
@@ -230,6 +266,43 @@ export type SurveilrInit =
     surveilrBin: string;
   }>;
 
+/**
+ * Service-specific init for DuckDB.
+ *
+ * DuckDB cargo is served by the built-in read-only endpoint
+ * (bin/db-browser/serve.ts) running under Deno.
+ */
+export type DuckDbInit =
+  & ExposableInit
+  & Readonly<{
+    duckdbBin: string;
+    denoBin: string;
+  }>;
+
+/**
+ * Service-specific init for plain SQLite (generic read-only browser).
+ */
+export type SqliteInit =
+  & ExposableInit
+  & Readonly<{
+    sqliteBin: string;
+    denoBin: string;
+  }>;
+
+/**
+ * Service-specific init for Excel.
+ *
+ * Workbooks are converted into a SQLite file at `derivedDbPath` (inside the
+ * ledger session) and served by the built-in read-only endpoint.
+ */
+export type ExcelInit =
+  & ExposableInit
+  & Readonly<{
+    sqliteBin: string;
+    denoBin: string;
+    derivedDbPath: string;
+  }>;
+
 /**
  * Optional per-service configuration that can be attached to a supplier.
  *
@@ -240,20 +313,45 @@ export type SurveilrInit =
  * - "sqlpage.env": object
  * - "surveilr.bin": string
  * - "surveilr.args": string[]
+ * - "surveilr.env": object
+ * - "duckdb.bin": string
+ * - "duckdb.args": string[] (extra endpoint args)
+ * - "duckdb.env": object
+ * - "sqlite.bin": string (plain SQLite browser, Excel derivation and serving)
+ * - "sqlite.args": string[] (extra endpoint args)
+ * - "sqlite.env": object
+ * - "excel.args": string[] (extra endpoint args)
+ * - "excel.env": object
+ *
+ * Materialize fills these from the sibling `.env` and cargo manifests
+ * (see manifest.ts).
  */
 export type ExposableServiceConf = Readonly<Record<string, unknown>>;
 
-export type ExposableKind = "sqlpage" | "surveilr";
+export type ExposableKind =
+  | "sqlpage"
+  | "surveilr"
+  | "duckdb"
+  | "excel"
+  | "sqlite";
 
 export type ExposableService =
   | SqlPageExposableService
-  | SurveilrExposableService;
+  | SurveilrExposableService
+  | DuckDbExposableService
+  | ExcelExposableService
+  | SqliteExposableService;
 
 export type ExposableBase = Readonly<{
   nature: "service";
   kind: ExposableKind;
 
-  supplier: SqlPageDataSupplier | SurveilrDataSupplier;
+  supplier:
+    | SqlPageDataSupplier
+    | SurveilrDataSupplier
+    | DuckDbDataSupplier
+    | ExcelDataSupplier
+    | SqliteDataSupplier;
 
   id: string;
   label: string;
@@ -289,6 +387,69 @@ export type SurveilrExposableService =
     ) => Promise<SpawnedProcess>;
   }>;
 
+export type DuckDbExposableService =
+  & ExposableBase
+  & Readonly<{
+    kind: "duckdb";
+    supplier: DuckDbDataSupplier;
+
+    spawn: (
+      args: Readonly<{
+        host: SpawnHost;
+        init: DuckDbInit;
+        exposableServiceConf?: ExposableServiceConf;
+      }>,
+    ) => Promise<SpawnedProcess>;
+  }>;
+
+export type ExcelExposableService =
+  & ExposableBase
+  & Readonly<{
+    kind: "excel";
+    supplier: ExcelDataSupplier;
+
+    spawn: (
+      args: Readonly<{
+        host: SpawnHost;
+        init: ExcelInit;
+        exposableServiceConf?: ExposableServiceConf;
+      }>,
+    ) => Promise<SpawnedProcess>;
+  }>;
+
+export type SqliteExposableService =
+  & ExposableBase
+  & Readonly<{
+    kind: "sqlite";
+    supplier: SqliteDataSupplier;
+
+    spawn: (
+      args: Readonly<{
+        host: SpawnHost;
+        init: SqliteInit;
+        exposableServiceConf?: ExposableServiceConf;
+      }>,
+    ) => Promise<SpawnedProcess>;
+  }>;
+
+export type ExposableOptions = Readonly<{
+  /**
+   * Opt-in for plain SQLite suppliers (no sqlpage/surveilr tables). When it
+   * returns true the database is exposed through the generic read-only
+   * browser; by default plain SQLite is not exposed.
+   */
+  browseSqlite?: (s: SqliteDataSupplier) => boolean | Promise<boolean>;
+
+  /**
+   * Serve a supplier as a different kind (for example from a cargo
+   * manifest). Only honored within the SQLite family (sqlpage, surveilr,
+   * sqlite); an explicit "sqlite" override also counts as browse opt-in.
+   */
+  kindOverride?: (
+    s: TabularDataSupplier,
+  ) => ExposableKind | undefined | Promise<ExposableKind | undefined>;
+}>;
+
 /**
  * Convert TabularDataSupplier items into ExposableService items.
  *
@@ -296,13 +457,39 @@ export type SurveilrExposableService =
  */
 export async function* exposable(
   suppliers: Iterable<TabularDataSupplier> | AsyncIterable<TabularDataSupplier>,
+  opts: ExposableOptions = {},
 ): AsyncGenerator<ExposableService> {
-  for await (const s of suppliers as AsyncIterable<TabularDataSupplier>) {
+  for await (const s0 of suppliers as AsyncIterable<TabularDataSupplier>) {
+    const override = await opts.kindOverride?.(s0);
+    const s = override ? retargetSupplier(s0, override) : s0;
+
     if (s.kind === "sqlpage") yield makeSqlPageService(s);
     else if (s.kind === "surveilr") yield makeSurveilrService(s);
+    else if (s.kind === "duckdb") yield makeDuckDbService(s);
+    else if (s.kind === "excel") yield makeExcelService(s);
+    else if (s.kind === "sqlite") {
+      if (override === "sqlite" || await opts.browseSqlite?.(s)) {
+        yield makeSqliteService(s);
+      }
+    }
   }
 }
 
+const SQLITE_FAMILY: ReadonlySet<string> = new Set([
+  "sqlite",
+  "sqlpage",
+  "surveilr",
+]);
+
+function retargetSupplier(
+  s: TabularDataSupplier,
+  kind: ExposableKind,
+): TabularDataSupplier {
+  if (s.kind === kind) return s;
+  if (!SQLITE_FAMILY.has(s.kind) || !SQLITE_FAMILY.has(kind)) return s;
+  return { ...s, kind } as TabularDataSupplier;
+}
+
 /* --------------------------- exposable builders --------------------------- */
 
 function makeSqlPageService(s: SqlPageDataSupplier): SqlPageExposableService {
@@ -343,6 +530,62 @@ function makeSurveilrService(
   };
 }
 
+function makeDuckDbService(s: DuckDbDataSupplier): DuckDbExposableService {
+  return {
+    nature: "service",
+    kind: "duckdb",
+    supplier: s,
+    id: s.dbPath,
+    label: `duckdb:${s.dbPath}`,
+    spawn: async ({ host, init, exposableServiceConf }) => {
+      const plan = buildDuckDbSpawnPlan({
+        dbPath: s.dbPath,
+        init,
+        conf: exposableServiceConf ?? {},
+      });
+      return await spawnPlan(host, plan);
+    },
+  };
+}
+
+function makeExcelService(s: ExcelDataSupplier): ExcelExposableService {
+  return {
+    nature: "service",
+    kind: "excel",
+    supplier: s,
+    id: s.filePath,
+    label: `excel:${s.filePath}`,
+    spawn: async ({ host, init, exposableServiceConf }) => {
+      const conf = exposableServiceConf ?? {};
+      const derivation = await deriveSqliteFromExcel(
+        resolve(s.filePath),
+        init.derivedDbPath,
+        { sqliteBin: sqliteBinFromConf(conf, init) },
+      );
+      const plan = buildExcelSpawnPlan({ filePath: s.filePath, init, conf });
+      return { ...await spawnPlan(host, plan), derivation };
+    },
+  };
+}
+
+function makeSqliteService(s: SqliteDataSupplier): SqliteExposableService {
+  return {
+    nature: "service",
+    kind: "sqlite",
+    supplier: s,
+    id: s.dbPath,
+    label: `sqlite:${s.dbPath}`,
+    spawn: async ({ host, init, exposableServiceConf }) => {
+      const plan = buildSqliteSpawnPlan({
+        dbPath: s.dbPath,
+        init,
+        conf: exposableServiceConf ?? {},
+      });
+      return await spawnPlan(host, plan);
+    },
+  };
+}
+
 /* ----------------------- service-specific spawn plans ---------------------- */
 
 function buildSqlpageDatabaseUrl(dbAbsPath: string): string {
@@ -425,6 +668,7 @@ function buildSurveilrSpawnPlan(args: {
     : init.surveilrBin;
 
   const extraArgs = readStringArray(conf["surveilr.args"]);
+  const extraEnv = readEnvObject(conf["surveilr.env"]);
   const envBlock = envFromConf(conf);
 
   return {
@@ -442,6 +686,7 @@ function buildSurveilrSpawnPlan(args: {
     env: {
       SQLPAGE_SITE_PREFIX: init.proxyEndpointPrefix,
       ...processTagsEnv(init),
+      ...extraEnv,
       ...envBlock,
     },
     tag: `surveilr:${dbPath}`,
@@ -450,6 +695,133 @@ function buildSurveilrSpawnPlan(args: {
   };
 }
 
+const DB_BROWSER_ENTRY = new URL("../bin/db-browser/serve.ts", import.meta.url);
+const DENO_CONFIG = new URL("../deno.jsonc", import.meta.url);
+
+/**
+ * Plan for the built-in read-only endpoint serving `dbPath` with `engine`.
+ */
+function buildDbBrowserSpawnPlan(args: {
+  engine: "duckdb" | "sqlite";
+  engineBin: string;
+  dbPath: string;
+  tag: string;
+  init: ExposableInit & Readonly<{ denoBin: string }>;
+  extraArgs: readonly string[];
+  extraEnv: Readonly<Record<string, string>>;
+  conf: ExposableServiceConf;
+}): SpawnPlan {
+  const { engine, engineBin, dbPath, init, conf } = args;
+
+  // The endpoint resolves bare specifiers through this repo's import map,
+  // which must not depend on the cwd the orchestrator was started from.
+  const configArgs = DENO_CONFIG.protocol === "file:"
+    ? ["--config", fromFileUrl(DENO_CONFIG)]
+    : [];
+
+  return {
+    command: init.denoBin,
+    args: [
+      "run",
+      ...configArgs,
+      "--allow-net",
+      "--allow-read",
+      "--allow-env",
+      "--allow-run",
+      DB_BROWSER_ENTRY.href,
+      "--engine",
+      engine,
+      "--db",
+      resolve(dbPath),
+      "--host",
+      init.listenHost,
+      "--port",
+      String(init.port),
+      "--prefix",
+      init.proxyEndpointPrefix,
+      "--engine-bin",
+      engineBin,
+      ...args.extraArgs,
+    ],
+    env: {
+      ...processTagsEnv(init),
+      ...args.extraEnv,
+      ...envFromConf(conf),
+    },
+    tag: args.tag,
+    stdoutLogPath: init.stdoutLogPath,
+    stderrLogPath: init.stderrLogPath,
+  };
+}
+
+function buildDuckDbSpawnPlan(args: {
+  dbPath: string;
+  init: DuckDbInit;
+  conf: ExposableServiceConf;
+}): SpawnPlan {
+  const { dbPath, init, conf } = args;
+
+  return buildDbBrowserSpawnPlan({
+    engine: "duckdb",
+    engineBin: typeof conf["duckdb.bin"] === "string"
+      ? String(conf["duckdb.bin"])
+      : init.duckdbBin,
+    dbPath,
+    tag: `duckdb:${dbPath}`,
+    init,
+    extraArgs: readStringArray(conf["duckdb.args"]),
+    extraEnv: readEnvObject(conf["duckdb.env"]),
+    conf,
+  });
+}
+
+function buildExcelSpawnPlan(args: {
+  filePath: string;
+  init: ExcelInit;
+  conf: ExposableServiceConf;
+}): SpawnPlan {
+  const { filePath, init, conf } = args;
+
+  return buildDbBrowserSpawnPlan({
+    engine: "sqlite",
+    engineBin: sqliteBinFromConf(conf, init),
+    dbPath: init.derivedDbPath,
+    tag: `excel:${filePath}`,
+    init,
+    extraArgs: readStringArray(conf["excel.args"]),
+    extraEnv: readEnvObject(conf["excel.env"]),
+    conf,
+  });
+}
+
+function buildSqliteSpawnPlan(args: {
+  dbPath: string;
+  init: SqliteInit;
+  conf: ExposableServiceConf;
+}): SpawnPlan {
+  const { dbPath, init, conf } = args;
+
+  return buildDbBrowserSpawnPlan({
+    engine: "sqlite",
+    engineBin: sqliteBinFromConf(conf, init),
+    dbPath,
+    tag: `sqlite:${dbPath}`,
+    init,
+    extraArgs: readStringArray(conf["sqlite.args"]),
+    extraEnv: readEnvObject(conf["sqlite.env"]),
+    conf,
+  });
+}
+
+function sqliteBinFromConf(
+  conf: ExposableServiceConf,
+  init: Readonly<{ sqliteBin: string }>,
+) {
+  return typeof conf["sqlite.bin"] === "string"
+    ? String(conf["sqlite.bin"])
+    : init.sqliteBin;
+}
+
 /* ------------------------------ conf helpers ------------------------------ */
 
 function readStringArray(v: unknown): string[] {
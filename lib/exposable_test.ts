@@ -4,6 +4,8 @@ import { basename, join, resolve } from "@std/path";
 
 import { tabular, type TabularDataSupplier } from "./tabular.ts";
 import {
+  type DuckDbExposableService,
+  type ExcelExposableService,
   exposable,
   type ExposableService,
   type SpawnHost,
@@ -112,6 +114,28 @@ async function findExposable(
   return undefined;
 }
 
+Deno.test("exposable: plain SQLite is opt-in", async () => {
+  const suppliers = await collectSuppliers();
+
+  const kinds = async (svcs: AsyncIterable<ExposableService>) => {
+    const out: string[] = [];
+    for await (const s of svcs) {
+      if (s.kind === "sqlite") out.push(basename(s.supplier.location));
+    }
+    return out;
+  };
+
+  assertEquals(await kinds(exposable(suppliers)), []);
+  assertEquals(
+    await kinds(
+      exposable(suppliers, {
+        browseSqlite: (s) => basename(s.dbPath) === "chinook.db",
+      }),
+    ),
+    ["chinook.db"],
+  );
+});
+
 Deno.test("exposable: smoke spawn and HTTP 200", async (t) => {
   const host: SpawnHost = { identity: "exposable_test", pid: Deno.pid };
 
@@ -202,4 +226,99 @@ Deno.test("exposable: smoke spawn and HTTP 200", async (t) => {
       await proc.kill();
     }
   });
+
+  await t.step(
+    "duckdb spawns the built-in endpoint under its prefix",
+    async () => {
+      const hasDuckdb = await commandExists("duckdb");
+      if (!hasDuckdb) {
+        console.log("duckdb not found on PATH; skipping duckdb smoke test");
+        return;
+      }
+
+      const dir = await Deno.makeTempDir({ prefix: "truth-yard-duckdb-" });
+      const dbPath = join(dir, "warehouse.duckdb");
+      const { code } = await new Deno.Command("duckdb", {
+        args: [dbPath, "CREATE TABLE evidence AS SELECT 1 AS id"],
+        stdout: "null",
+        stderr: "null",
+      }).output();
+      assertEquals(code, 0);
+
+      const svc = await findExposable(
+        exposable(tabular([{ path: dir }])),
+        (e) => e.kind === "duckdb",
+      );
+
+      assert(svc, "Expected a DuckDbExposableService for warehouse.duckdb");
+
+      const port = reserveFreePort();
+      const logs = logTargetsForTest("duckdb");
+
+      const proc = await (svc as DuckDbExposableService).spawn({
+        host,
+        init: {
+          listenHost: "127.0.0.1",
+          port,
+          proxyEndpointPrefix: "/apps/duckdb/warehouse",
+          duckdbBin: "duckdb",
+          denoBin: Deno.execPath(),
+          stdoutLogPath: logs.stdout,
+          stderrLogPath: logs.stderr,
+        },
+      });
+
+      try {
+        await waitForHttp200(
+          `http://127.0.0.1:${port}/apps/duckdb/warehouse/api/tables`,
+          60_000,
+        );
+      } finally {
+        await proc.kill();
+        await Deno.remove(dir, { recursive: true });
+      }
+    },
+  );
+
+  await t.step("excel derives SQLite and serves it read-only", async () => {
+    const hasSqlite = await commandExists("sqlite3");
+    if (!hasSqlite) {
+      console.log("sqlite3 not found on PATH; skipping excel smoke test");
+      return;
+    }
+
+    const suppliers = await collectSuppliers();
+    const svc = await findExposable(
+      exposable(suppliers),
+      (e) => e.kind === "excel",
+    );
+
+    assert(svc, "Expected an ExcelExposableService for northwind.xlsx");
+
+    const dir = await Deno.makeTempDir({ prefix: "truth-yard-excel-" });
+    const port = reserveFreePort();
+    const logs = logTargetsForTest("excel");
+
+    const proc = await (svc as ExcelExposableService).spawn({
+      host,
+      init: {
+        listenHost: "127.0.0.1",
+        port,
+        proxyEndpointPrefix: "/",
+        sqliteBin: "sqlite3",
+        denoBin: Deno.execPath(),
+        derivedDbPath: join(dir, "northwind.xlsx.derived.sqlite.db"),
+        stdoutLogPath: logs.stdout,
+        stderrLogPath: logs.stderr,
+      },
+    });
+
+    try {
+      assertEquals(proc.derivation?.method, "xlsx-to-sqlite");
+      await waitForHttp200(`http://127.0.0.1:${port}/api/tables`, 60_000);
+    } finally {
+      await proc.kill();
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
 });
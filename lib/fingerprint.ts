@@ -0,0 +1,56 @@
+// lib/fingerprint.ts
+
+/**
+ * A cheap identity for a cargo file's content, stored in the ledger
+ * (SpawnedContext.supplier.fingerprint) so later passes can tell whether the
+ * file a vessel is serving was replaced or rewritten.
+ */
+export type CargoFingerprint = Readonly<{
+  size: number;
+  mtimeMs?: number;
+
+  /**
+   * Optional hex SHA-256 of the full file. Reads the whole file, so only
+   * computed when explicitly requested.
+   */
+  sha256?: string;
+}>;
+
+export type CargoFingerprintOptions = Readonly<{
+  hash?: boolean;
+}>;
+
+export async function cargoFingerprint(
+  path: string,
+  opts: CargoFingerprintOptions = {},
+): Promise<CargoFingerprint> {
+  const st = await Deno.stat(path);
+  const mtimeMs = st.mtime ? st.mtime.getTime() : undefined;
+
+  if (!opts.hash) return { size: st.size, mtimeMs };
+
+  const bytes = await Deno.readFile(path);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  const sha256 = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return { size: st.size, mtimeMs, sha256 };
+}
+
+/**
+ * True when `current` describes different content than `previous`.
+ *
+ * If both sides carry a hash, the hash decides (a touched but identical file is
+ * not a change). Otherwise size and mtime are compared.
+ */
+export function fingerprintChanged(
+  previous: CargoFingerprint,
+  current: CargoFingerprint,
+): boolean {
+  if (previous.sha256 && current.sha256) {
+    return previous.sha256 !== current.sha256;
+  }
+  if (previous.size !== current.size) return true;
+  return previous.mtimeMs !== current.mtimeMs;
+}
@@ -0,0 +1,45 @@
+// fingerprint_test.ts
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { join } from "@std/path";
+
+import { cargoFingerprint, fingerprintChanged } from "./fingerprint.ts";
+
+Deno.test("fingerprint: cargo content identity", async (t) => {
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-fingerprint-" });
+  const file = join(dir, "cargo.sqlite.db");
+
+  try {
+    await Deno.writeTextFile(file, "version one");
+
+    await t.step("stat-only fingerprint has size and mtime", async () => {
+      const fp = await cargoFingerprint(file);
+      assertEquals(fp.size, "version one".length);
+      assert(typeof fp.mtimeMs === "number");
+      assertEquals(fp.sha256, undefined);
+    });
+
+    await t.step("hash is computed only when requested", async () => {
+      const fp = await cargoFingerprint(file, { hash: true });
+      assertEquals(fp.sha256?.length, 64);
+    });
+
+    await t.step("size or mtime differences are changes", () => {
+      const base = { size: 10, mtimeMs: 1000 };
+      assertFalse(fingerprintChanged(base, { size: 10, mtimeMs: 1000 }));
+      assert(fingerprintChanged(base, { size: 11, mtimeMs: 1000 }));
+      assert(fingerprintChanged(base, { size: 10, mtimeMs: 2000 }));
+    });
+
+    await t.step("hash wins when both sides have one", async () => {
+      const before = await cargoFingerprint(file, { hash: true });
+      const touched = { ...before, mtimeMs: (before.mtimeMs ?? 0) + 5000 };
+      assertFalse(fingerprintChanged(before, touched));
+
+      await Deno.writeTextFile(file, "version two");
+      const after = await cargoFingerprint(file, { hash: true });
+      assert(fingerprintChanged(before, after));
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
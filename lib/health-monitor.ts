@@ -0,0 +1,340 @@
+// lib/health-monitor.ts
+import { resolve } from "@std/path";
+
+import { appendJsonLine, writeTextFileAtomic } from "./path.ts";
+import {
+  type ServiceHealth,
+  type SpawnedContext,
+  type SpawnEvent,
+  type SpawnEventListener,
+  type SpawnEventPayload,
+  type SpawnSession,
+  type TaggedProcess,
+  taggedProcesses,
+} from "./spawn.ts";
+
+/**
+ * Continuous HTTP health monitoring for watch mode.
+ *
+ * The readiness probe only runs once, right after spawn. The monitor is
+ * polled on a timer, probes every tagged service's `listen.probeUrl` once per
+ * round and appends each result to `<name>.health.jsonl` next to the
+ * service's context and logs. A service is unhealthy after
+ * `failureThreshold` consecutive failed probes and recovered on the next
+ * success; both transitions are raised as events and written into the
+ * context's `health` section.
+ */
+export type HealthMonitorOptions = Readonly<{
+  /**
+   * Monitoring is off unless enabled.
+   */
+  enabled?: boolean;
+
+  /**
+   * Probe period in ms (default 10000).
+   */
+  intervalMs?: number;
+
+  /**
+   * Per-probe timeout in ms (default 2000).
+   */
+  timeoutMs?: number;
+
+  /**
+   * Consecutive failed probes before a service counts as unhealthy
+   * (default 3).
+   */
+  failureThreshold?: number;
+
+  /**
+   * Restart a service that stays unhealthy this long, on the same port.
+   * Unset means never restart.
+   */
+  restartAfterMs?: number;
+}>;
+
+/**
+ * One line of `<name>.health.jsonl` per probe.
+ */
+export type HealthCheckRecord = Readonly<{
+  type: "health_check";
+  ts: string;
+  serviceId: string;
+  pid: number;
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+}>;
+
+export type HealthTrack = Readonly<{
+  failures: number;
+  unhealthySince?: number;
+  restartRequested?: boolean;
+}>;
+
+export type HealthStep = Readonly<{
+  next: HealthTrack;
+  transition?: "unhealthy" | "recovered";
+  restart: boolean;
+}>;
+
+/**
+ * Pure health policy: fold one probe result into a service's track.
+ */
+export function healthStep(
+  prev: HealthTrack | undefined,
+  ok: boolean,
+  now: number,
+  opts: HealthMonitorOptions = {},
+): HealthStep {
+  const threshold = Math.max(1, opts.failureThreshold ?? 3);
+
+  if (ok) {
+    return {
+      next: { failures: 0 },
+      transition: prev?.unhealthySince !== undefined ? "recovered" : undefined,
+      restart: false,
+    };
+  }
+
+  const failures = (prev?.failures ?? 0) + 1;
+  let unhealthySince = prev?.unhealthySince;
+  let transition: HealthStep["transition"];
+  if (unhealthySince === undefined && failures >= threshold) {
+    unhealthySince = now;
+    transition = "unhealthy";
+  }
+
+  const restart = opts.restartAfterMs !== undefined &&
+    unhealthySince !== undefined &&
+    !prev?.restartRequested &&
+    now - unhealthySince >= opts.restartAfterMs;
+
+  return {
+    next: {
+      failures,
+      unhealthySince,
+      restartRequested: prev?.restartRequested || restart,
+    },
+    transition,
+    restart,
+  };
+}
+
+/**
+ * `<name>.health.jsonl` for a context file `<name>.context.json`.
+ */
+export function healthLedgerPath(contextPath: string): string {
+  return contextPath.endsWith(".context.json")
+    ? contextPath.slice(0, -".context.json".length) + ".health.jsonl"
+    : `${contextPath}.health.jsonl`;
+}
+
+export type HealthRestart = Readonly<{
+  provenance: string;
+  process: TaggedProcess;
+}>;
+
+export type HealthMonitorEvent = Extract<
+  SpawnEventPayload,
+  {
+    type:
+      | "service_unhealthy"
+      | "service_recovered"
+      | "service_unhealthy_restart";
+  }
+>;
+
+export type HealthMonitor = ReturnType<typeof healthMonitor>;
+
+/**
+ * Create a health monitor for services whose provenance lives under
+ * `rootsAbs`. Linux only (relies on taggedProcesses()).
+ */
+export function healthMonitor(
+  opts: HealthMonitorOptions,
+  args: Readonly<{
+    session: SpawnSession;
+    rootsAbs: readonly string[];
+    onEvent?: SpawnEventListener;
+
+    /**
+     * Only monitor (and so never restart) services of `sessionId`.
+     */
+    strictKillsOnly?: boolean;
+    sessionId?: string;
+  }>,
+) {
+  const timeoutMs = opts.timeoutMs ?? 2_000;
+  const t0 = performance.now();
+
+  const tracks = new Map<string, HealthTrack & { pid: number }>();
+
+  const underRoots = (prov: string) =>
+    args.rootsAbs.some((r) => prov === r || prov.startsWith(r + "/"));
+
+  const emit = async (contextPath: string, event: HealthMonitorEvent) => {
+    const e = {
+      session: args.session,
+      ts: new Date().toISOString(),
+      tMs: performance.now() - t0,
+      ...event,
+    } as SpawnEvent;
+
+    try {
+      await appendJsonLine(healthLedgerPath(contextPath), e);
+    } catch {
+      // ledger write failures must not stop monitoring
+    }
+
+    if (!args.onEvent) return;
+    try {
+      await args.onEvent(e);
+    } catch {
+      // ignore listener failures
+    }
+  };
+
+  return {
+    /**
+     * Probe every monitored service once and return those that stayed
+     * unhealthy past `restartAfterMs` (the caller restarts them).
+     */
+    async check(): Promise<HealthRestart[]> {
+      const restarts: HealthRestart[] = [];
+      if (Deno.build.os !== "linux") return restarts;
+
+      const seen = new Set<string>();
+
+      for await (const tp of taggedProcesses()) {
+        const prov = resolve(tp.provenance);
+        const url = tp.context?.listen?.probeUrl;
+        if (!underRoots(prov) || !url) continue;
+        if (args.strictKillsOnly && tp.sessionId !== args.sessionId) continue;
+        seen.add(prov);
+
+        const prev = tracks.get(prov);
+        const track = prev?.pid === tp.pid ? prev : undefined;
+
+        const result = await probeOnce(url, timeoutMs);
+        const now = Date.now();
+
+        const record: HealthCheckRecord = {
+          type: "health_check",
+          ts: new Date(now).toISOString(),
+          serviceId: tp.serviceId,
+          pid: tp.pid,
+          url,
+          ...result,
+        };
+        try {
+          await appendJsonLine(healthLedgerPath(tp.contextPath), record);
+        } catch {
+          // best-effort
+        }
+
+        const step = healthStep(track, result.ok, now, opts);
+        tracks.set(prov, { ...step.next, pid: tp.pid });
+
+        if (step.transition === "unhealthy") {
+          await emit(tp.contextPath, {
+            type: "service_unhealthy",
+            serviceId: tp.serviceId,
+            provenance: prov,
+            pid: tp.pid,
+            url,
+            failures: step.next.failures,
+            error: result.error,
+          });
+        } else if (step.transition === "recovered") {
+          await emit(tp.contextPath, {
+            type: "service_recovered",
+            serviceId: tp.serviceId,
+            provenance: prov,
+            pid: tp.pid,
+            url,
+            downMs: now - (track?.unhealthySince ?? now),
+          });
+        }
+
+        if (step.transition) {
+          await updateContextHealth(tp.contextPath, {
+            status: step.transition === "unhealthy" ? "unhealthy" : "healthy",
+            url,
+            checkedAt: record.ts,
+            latencyMs: result.latencyMs,
+            httpStatus: result.httpStatus,
+            lastError: result.error,
+          });
+        }
+
+        if (step.restart) {
+          await emit(tp.contextPath, {
+            type: "service_unhealthy_restart",
+            serviceId: tp.serviceId,
+            provenance: prov,
+            pid: tp.pid,
+            unhealthyMs: now - (step.next.unhealthySince ?? now),
+          });
+          restarts.push({ provenance: prov, process: tp });
+        }
+      }
+
+      for (const prov of tracks.keys()) {
+        if (!seen.has(prov)) tracks.delete(prov);
+      }
+
+      return restarts;
+    },
+  };
+}
+
+async function probeOnce(
+  url: string,
+  timeoutMs: number,
+): Promise<
+  Pick<HealthCheckRecord, "ok" | "latencyMs" | "httpStatus" | "error">
+> {
+  const started = performance.now();
+  try {
+    const res = await fetch(url, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await res.body?.cancel();
+    const latencyMs = Math.round(performance.now() - started);
+    return res.status === 200
+      ? { ok: true, latencyMs, httpStatus: res.status }
+      : {
+        ok: false,
+        latencyMs,
+        httpStatus: res.status,
+        error: `HTTP ${res.status}`,
+      };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Math.round(performance.now() - started),
+      error: String((error as Error)?.message ?? error),
+    };
+  }
+}
+
+async function updateContextHealth(
+  contextPath: string,
+  health: ServiceHealth,
+): Promise<void> {
+  try {
+    const ctx = JSON.parse(
+      await Deno.readTextFile(contextPath),
+    ) as SpawnedContext;
+    await writeTextFileAtomic(
+      contextPath,
+      JSON.stringify({ ...ctx, health }, null, 2) + "\n",
+    );
+  } catch {
+    // the context may have been cleaned up; the JSONL still has the history
+  }
+}
@@ -0,0 +1,62 @@
+// health-monitor_test.ts
+import { assert, assertEquals, assertFalse } from "@std/assert";
+
+import {
+  healthLedgerPath,
+  healthStep,
+  type HealthTrack,
+} from "./health-monitor.ts";
+
+Deno.test("health-monitor: unhealthy/recovered policy", async (t) => {
+  await t.step("failures below the threshold are not a transition", () => {
+    let track: HealthTrack | undefined;
+    for (let i = 0; i < 2; i++) {
+      const step = healthStep(track, false, 1_000 * i);
+      assertEquals(step.transition, undefined);
+      track = step.next;
+    }
+    assertEquals(track?.failures, 2);
+    assertEquals(track?.unhealthySince, undefined);
+  });
+
+  await t.step("reaching the threshold marks the service unhealthy", () => {
+    const step = healthStep({ failures: 2 }, false, 5_000);
+    assertEquals(step.transition, "unhealthy");
+    assertEquals(step.next.unhealthySince, 5_000);
+
+    const again = healthStep(step.next, false, 6_000);
+    assertEquals(again.transition, undefined);
+    assertEquals(again.next.unhealthySince, 5_000);
+  });
+
+  await t.step("a success after unhealthy is a recovery", () => {
+    const step = healthStep({ failures: 4, unhealthySince: 1 }, true, 10);
+    assertEquals(step.transition, "recovered");
+    assertEquals(step.next, { failures: 0 });
+  });
+
+  await t.step("a success while healthy is quiet", () => {
+    const step = healthStep({ failures: 1 }, true, 10);
+    assertEquals(step.transition, undefined);
+    assertEquals(step.next.failures, 0);
+  });
+
+  await t.step("restart only when configured, once, past the window", () => {
+    const unhealthy = { failures: 3, unhealthySince: 0 };
+    assertFalse(healthStep(unhealthy, false, 60_000).restart);
+
+    const opts = { restartAfterMs: 30_000 };
+    assertFalse(healthStep(unhealthy, false, 10_000, opts).restart);
+
+    const due = healthStep(unhealthy, false, 30_000, opts);
+    assert(due.restart);
+    assertFalse(healthStep(due.next, false, 40_000, opts).restart);
+  });
+
+  await t.step("health log sits next to the context", () => {
+    assertEquals(
+      healthLedgerPath("/l/s/northwind.sqlite.db.context.json"),
+      "/l/s/northwind.sqlite.db.health.jsonl",
+    );
+  });
+});
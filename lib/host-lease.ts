@@ -0,0 +1,209 @@
+// lib/host-lease.ts
+import { join } from "@std/path";
+
+import { ensureParentDir, writeTextFileAtomic } from "./path.ts";
+
+/**
+ * Multi-host awareness for shared cargo volumes.
+ *
+ * When several machines mount the same cargo and ledger (NFS and the like),
+ * local process inspection cannot tell that another machine already launched
+ * a vessel. Each cargo file therefore gets an advisory lease file in the
+ * ledger home, `<ledgerHome>/host-leases/<sha256(key)>.json`, naming the host
+ * that launched it. The key is the cargo's path relative to its cargo root, so
+ * hosts that mount the volume at different paths agree on it. Only the holder
+ * spawns; leases are renewed while the holder runs (watch mode only, since
+ * nothing else would renew them) and can be taken over once they expire.
+ *
+ * Leases are advisory: they coordinate cooperating yard instances and do not
+ * rely on NFS file locking.
+ */
+export const HOST_LEASES_DIR = "host-leases";
+
+export type HostIdentity = Readonly<{
+  hostname: string;
+  machineId?: string;
+}>;
+
+let cachedIdentity: HostIdentity | undefined;
+
+/**
+ * This machine's identity: hostname plus the systemd/dbus machine-id when
+ * available (hostnames alone are often reused by clones and containers).
+ */
+export function localHostIdentity(): HostIdentity {
+  if (cachedIdentity) return cachedIdentity;
+
+  let hostname = "unknown";
+  try {
+    hostname = Deno.hostname();
+  } catch {
+    // no --allow-sys
+  }
+
+  let machineId: string | undefined;
+  for (const p of ["/etc/machine-id", "/var/lib/dbus/machine-id"]) {
+    try {
+      machineId = Deno.readTextFileSync(p).trim() || undefined;
+      if (machineId) break;
+    } catch {
+      // try the next one
+    }
+  }
+
+  cachedIdentity = { hostname, machineId };
+  return cachedIdentity;
+}
+
+export function sameHost(a: HostIdentity, b: HostIdentity): boolean {
+  if (a.machineId && b.machineId) return a.machineId === b.machineId;
+  return a.hostname === b.hostname;
+}
+
+export type HostLease = Readonly<{
+  key: string;
+  host: HostIdentity;
+  pid: number;
+  serviceId?: string;
+  acquiredAt: string;
+  renewedAt: string;
+  expiresAt: string;
+}>;
+
+export type HostLeaseVerdict =
+  | Readonly<{ kind: "acquired"; lease: HostLease }>
+  | Readonly<{ kind: "renewed"; lease: HostLease }>
+  | Readonly<{ kind: "taken_over"; lease: HostLease; previous: HostLease }>
+  | Readonly<{ kind: "held_elsewhere"; holder: HostLease }>;
+
+export type HostLeaseStore = ReturnType<typeof hostLeases>;
+
+export function hostLeases(
+  ledgerHome: string,
+  opts: Readonly<{ ttlMs?: number; host?: HostIdentity }> = {},
+) {
+  const dir = join(ledgerHome, HOST_LEASES_DIR);
+  const ttlMs = opts.ttlMs ?? 300_000;
+  const host = opts.host ?? localHostIdentity();
+
+  const pathOf = async (key: string) => {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+    const hex = Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+    return join(dir, `${hex}.json`);
+  };
+
+  const read = async (path: string): Promise<HostLease | undefined> => {
+    try {
+      return JSON.parse(await Deno.readTextFile(path)) as HostLease;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const fresh = (
+    key: string,
+    serviceId: string | undefined,
+    acquiredAt?: string,
+  ): HostLease => {
+    const now = Date.now();
+    return {
+      key,
+      host,
+      pid: Deno.pid,
+      serviceId,
+      acquiredAt: acquiredAt ?? new Date(now).toISOString(),
+      renewedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+  };
+
+  return {
+    dir,
+    ttlMs,
+    host,
+
+    /**
+     * Claim `key` for this host: create the lease, renew our own, or
+     * take over an expired one.
+     */
+    async acquire(
+      key: string,
+      serviceId?: string,
+    ): Promise<HostLeaseVerdict> {
+      const path = await pathOf(key);
+      await ensureParentDir(path);
+
+      const lease = fresh(key, serviceId);
+      try {
+        // createNew makes the first claim atomic between hosts
+        await Deno.writeTextFile(path, JSON.stringify(lease, null, 2) + "\n", {
+          createNew: true,
+        });
+        return { kind: "acquired", lease };
+      } catch (error) {
+        if (!(error instanceof Deno.errors.AlreadyExists)) throw error;
+      }
+
+      const current = await read(path);
+      if (current && sameHost(current.host, host)) {
+        const renewed = fresh(key, serviceId, current.acquiredAt);
+        await writeTextFileAtomic(
+          path,
+          JSON.stringify(renewed, null, 2) + "\n",
+        );
+        return { kind: "renewed", lease: renewed };
+      }
+
+      if (current && Date.parse(current.expiresAt) > Date.now()) {
+        return { kind: "held_elsewhere", holder: current };
+      }
+
+      await writeTextFileAtomic(path, JSON.stringify(lease, null, 2) + "\n");
+
+      // Another host may have taken over at the same moment; last writer wins
+      const after = await read(path);
+      if (after && !sameHost(after.host, host)) {
+        return { kind: "held_elsewhere", holder: after };
+      }
+      return current
+        ? { kind: "taken_over", lease, previous: current }
+        : { kind: "acquired", lease };
+    },
+
+    /**
+     * Extend this host's lease; false when the lease is gone or now belongs
+     * to another host.
+     */
+    async renew(key: string): Promise<boolean> {
+      const path = await pathOf(key);
+      const current = await read(path);
+      if (!current || !sameHost(current.host, host)) return false;
+      const renewed = fresh(key, current.serviceId, current.acquiredAt);
+      await writeTextFileAtomic(path, JSON.stringify(renewed, null, 2) + "\n");
+      return true;
+    },
+
+    /**
+     * Drop this host's lease (a lease held by another host is left alone).
+     */
+    async release(key: string): Promise<void> {
+      const path = await pathOf(key);
+      const current = await read(path);
+      if (!current || !sameHost(current.host, host)) return;
+      try {
+        await Deno.remove(path);
+      } catch {
+        // already gone
+      }
+    },
+
+    async get(key: string): Promise<HostLease | undefined> {
+      return await read(await pathOf(key));
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// host-lease_test.ts
+import { assertEquals, assertRejects } from "@std/assert";
+
+import { hostLeases, sameHost } from "./host-lease.ts";
+import { materialize } from "./materialize.ts";
+
+Deno.test("host-lease: one host per cargo", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-host-lease-" });
+  const alpha = { hostname: "alpha", machineId: "a1" };
+  const beta = { hostname: "beta", machineId: "b2" };
+  // relative to the cargo root, whatever each host mounts it at
+  const prov = "finance/ledger.sqlite.db";
+
+  try {
+    await t.step("machine-id wins over hostname", () => {
+      assertEquals(
+        sameHost(alpha, { hostname: "alpha", machineId: "x" }),
+        false,
+      );
+      assertEquals(
+        sameHost({ hostname: "alpha" }, { hostname: "alpha" }),
+        true,
+      );
+    });
+
+    await t.step("first host acquires, then renews", async () => {
+      const a = hostLeases(home, { host: alpha });
+      assertEquals((await a.acquire(prov, "svc")).kind, "acquired");
+      assertEquals((await a.acquire(prov, "svc")).kind, "renewed");
+    });
+
+    await t.step("a live lease keeps other hosts out", async () => {
+      const b = hostLeases(home, { host: beta });
+      const verdict = await b.acquire(prov);
+      assertEquals(verdict.kind, "held_elsewhere");
+      if (verdict.kind === "held_elsewhere") {
+        assertEquals(verdict.holder.host.hostname, "alpha");
+      }
+      assertEquals(await b.renew(prov), false);
+    });
+
+    await t.step("an expired lease is taken over", async () => {
+      const a = hostLeases(home, { host: alpha, ttlMs: -1 });
+      await a.renew(prov);
+
+      const b = hostLeases(home, { host: beta });
+      const verdict = await b.acquire(prov);
+      assertEquals(verdict.kind, "taken_over");
+      assertEquals((await b.get(prov))?.host.hostname, "beta");
+    });
+
+    await t.step("release only drops our own lease", async () => {
+      await hostLeases(home, { host: alpha }).release(prov);
+      assertEquals((await hostLeases(home).get(prov))?.host.hostname, "beta");
+
+      await hostLeases(home, { host: beta }).release(prov);
+      assertEquals(await hostLeases(home).get(prov), undefined);
+    });
+
+    await t.step("one-shot runs refuse leases they cannot renew", async () => {
+      await assertRejects(
+        () =>
+          materialize([{ path: home }], {
+            verbose: false,
+            spawnedLedgerHome: home,
+            hostLeases: { enabled: true },
+          }),
+        Error,
+        "watch mode",
+      );
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
@@ -0,0 +1,243 @@
+// lib/journal.ts
+import { join } from "@std/path";
+
+import { ensureParentDir } from "./path.ts";
+import type { SpawnEvent, SpawnEventListener } from "./spawn.ts";
+
+/**
+ * The session's "ship's log": every SpawnEvent of a session, one JSON object
+ * per line, in `<sessionHome>/events.jsonl`.
+ *
+ * Events carry `unknown` errors (usually Error instances, which
+ * JSON.stringify turns into `{}`); the journal writes them as
+ * `{ name, message, stack?, cause? }` instead.
+ */
+export const EVENTS_JOURNAL_FILE = "events.jsonl";
+
+export function eventsJournalPath(sessionHome: string): string {
+  return join(sessionHome, EVENTS_JOURNAL_FILE);
+}
+
+/**
+ * Journal of `session` (a session name under `ledgerHome`, a session
+ * directory or a journal file), defaulting to the `.current-session`.
+ */
+export async function resolveEventsJournal(
+  ledgerHome: string,
+  session?: string,
+): Promise<string> {
+  if (session === undefined) {
+    let current: string;
+    try {
+      current = (await Deno.readTextFile(join(ledgerHome, ".current-session")))
+        .trim();
+    } catch {
+      throw new Error(`no current session in ${ledgerHome}`);
+    }
+    return eventsJournalPath(join(ledgerHome, current));
+  }
+
+  for (const candidate of [session, join(ledgerHome, session)]) {
+    try {
+      const st = await Deno.stat(candidate);
+      return st.isDirectory ? eventsJournalPath(candidate) : candidate;
+    } catch {
+      // try the next one
+    }
+  }
+  throw new Error(`no such session: ${session}`);
+}
+
+export type SerializedError = Readonly<{
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+}>;
+
+export function serializeError(error: Error): SerializedError {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    cause: error.cause instanceof Error
+      ? serializeError(error.cause)
+      : error.cause,
+  };
+}
+
+/**
+ * JSON.stringify replacer that keeps Error details.
+ */
+export function journalReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Error ? serializeError(value) : value;
+}
+
+export function journalLine(event: SpawnEvent): string {
+  return JSON.stringify(event, journalReplacer) + "\n";
+}
+
+/**
+ * A listener that appends every event to the session's journal. Write
+ * failures are swallowed so journaling never interrupts spawning.
+ */
+export function eventJournal(sessionHome: string): SpawnEventListener {
+  const path = eventsJournalPath(sessionHome);
+  let ready: Promise<void> | undefined;
+
+  // serialize appends so lines keep event order
+  let tail: Promise<void> = Promise.resolve();
+
+  return (event) => {
+    tail = tail.then(async () => {
+      try {
+        ready ??= ensureParentDir(path);
+        await ready;
+        await Deno.writeTextFile(path, journalLine(event), { append: true });
+      } catch {
+        // best-effort
+      }
+    });
+    return tail;
+  };
+}
+
+/**
+ * Fan one event out to several listeners, in order.
+ */
+export function combineListeners(
+  ...listeners: ReadonlyArray<SpawnEventListener | undefined>
+): SpawnEventListener | undefined {
+  const active = listeners.filter((l): l is SpawnEventListener => !!l);
+  if (active.length === 0) return undefined;
+  if (active.length === 1) return active[0];
+  return async (event) => {
+    for (const l of active) await l(event);
+  };
+}
+
+export type JournalFilter = Readonly<{
+  /**
+   * Event types to keep (empty or absent keeps all).
+   */
+  types?: readonly string[];
+
+  /**
+   * Keep only events about this service.
+   */
+  serviceId?: string;
+
+  /**
+   * Keep only events at or after this time.
+   */
+  since?: Date;
+
+  /**
+   * Keep only `error` events and events that carry an `error`.
+   */
+  errorsOnly?: boolean;
+}>;
+
+export function journalMatches(
+  event: Record<string, unknown>,
+  filter: JournalFilter,
+): boolean {
+  if (filter.types?.length && !filter.types.includes(String(event.type))) {
+    return false;
+  }
+  if (
+    filter.serviceId !== undefined && event.serviceId !== filter.serviceId
+  ) return false;
+  if (filter.since && Date.parse(String(event.ts)) < filter.since.getTime()) {
+    return false;
+  }
+  if (
+    filter.errorsOnly && event.type !== "error" && event.error === undefined
+  ) return false;
+  return true;
+}
+
+/**
+ * Parse journal text, skipping lines that are not JSON objects (a torn last
+ * line while the session is still writing).
+ */
+export function parseJournal(text: string): Record<string, unknown>[] {
+  const out: Record<string, unknown>[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const v = JSON.parse(line);
+      if (v && typeof v === "object" && !Array.isArray(v)) out.push(v);
+    } catch {
+      // torn or foreign line
+    }
+  }
+  return out;
+}
+
+/**
+ * Read a journal; with `follow`, keep yielding appended events (polling every
+ * `pollMs`) until `signal` aborts.
+ */
+export async function* readJournal(
+  path: string,
+  opts: Readonly<{
+    follow?: boolean;
+    pollMs?: number;
+    signal?: AbortSignal;
+  }> = {},
+): AsyncGenerator<Record<string, unknown>> {
+  let offset = 0;
+  let pending = "";
+  const decoder = new TextDecoder();
+
+  while (true) {
+    let chunk = "";
+    try {
+      const f = await Deno.open(path, { read: true });
+      try {
+        const size = (await f.stat()).size;
+        if (size < offset) offset = 0; // truncated or replaced
+        if (size > offset) {
+          await f.seek(offset, Deno.SeekMode.Start);
+          const buf = new Uint8Array(size - offset);
+          let read = 0;
+          while (read < buf.length) {
+            const n = await f.read(buf.subarray(read));
+            if (n === null) break;
+            read += n;
+          }
+          offset += read;
+          chunk = decoder.decode(buf.subarray(0, read), { stream: true });
+        }
+      } finally {
+        f.close();
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound) || !opts.follow) {
+        throw error;
+      }
+    }
+
+    const text = pending + chunk;
+    const cut = text.lastIndexOf("\n");
+    pending = cut === -1 ? text : text.slice(cut + 1);
+    if (cut !== -1) yield* parseJournal(text.slice(0, cut));
+
+    if (!opts.follow || opts.signal?.aborted) {
+      if (pending.trim()) yield* parseJournal(pending);
+      return;
+    }
+
+    await new Promise<void>((r) => {
+      const done = () => {
+        clearTimeout(t);
+        opts.signal?.removeEventListener("abort", done);
+        r();
+      };
+      const t = setTimeout(done, opts.pollMs ?? 500);
+      opts.signal?.addEventListener("abort", done, { once: true });
+    });
+    if (opts.signal?.aborted) return;
+  }
+}
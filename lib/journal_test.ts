@@ -0,0 +1,146 @@
+// journal_test.ts
+import { assert, assertEquals, assertFalse, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+
+import {
+  eventJournal,
+  eventsJournalPath,
+  journalLine,
+  journalMatches,
+  readJournal,
+  resolveEventsJournal,
+} from "./journal.ts";
+import type { SpawnEvent, SpawnSession } from "./spawn.ts";
+
+const session: SpawnSession = {
+  sessionId: "s1",
+  host: { identity: "test", pid: 1 },
+  startedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function ev(partial: Record<string, unknown>): SpawnEvent {
+  return {
+    session,
+    ts: "2025-01-01T00:00:01.000Z",
+    tMs: 1,
+    ...partial,
+  } as SpawnEvent;
+}
+
+async function collect(
+  gen: AsyncGenerator<Record<string, unknown>>,
+): Promise<Record<string, unknown>[]> {
+  const out: Record<string, unknown>[] = [];
+  for await (const x of gen) out.push(x);
+  return out;
+}
+
+Deno.test("journal: serialization and filters", async (t) => {
+  await t.step("errors keep name, message and cause", () => {
+    const error = new TypeError("boom", { cause: new Error("root") });
+    const line = JSON.parse(
+      journalLine(ev({ type: "error", serviceId: "a", phase: "spawn", error })),
+    );
+    assertEquals(line.error.name, "TypeError");
+    assertEquals(line.error.message, "boom");
+    assertEquals(line.error.cause.message, "root");
+    assert(typeof line.error.stack === "string");
+  });
+
+  await t.step("filters", () => {
+    const spawned = { type: "spawned", serviceId: "a", ts: session.startedAt };
+    assert(journalMatches(spawned, {}));
+    assert(journalMatches(spawned, { types: ["spawned", "error"] }));
+    assertFalse(journalMatches(spawned, { types: ["error"] }));
+    assertFalse(journalMatches(spawned, { serviceId: "b" }));
+    assertFalse(journalMatches(spawned, { errorsOnly: true }));
+    assertFalse(
+      journalMatches(spawned, { since: new Date("2025-01-02T00:00:00Z") }),
+    );
+    assert(
+      journalMatches({ type: "service_unreachable", error: "x" }, {
+        errorsOnly: true,
+      }),
+    );
+  });
+});
+
+Deno.test("journal: session events.jsonl", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-journal-" });
+  const sessionHome = join(home, "2025-01-01-00-00-00");
+
+  try {
+    await t.step("listener appends in order", async () => {
+      const journal = eventJournal(sessionHome);
+      await Promise.all([
+        journal(ev({ type: "session_start" })),
+        journal(ev({ type: "discovered", serviceId: "a" })),
+        journal(ev({ type: "spawned", serviceId: "a", pid: 42 })),
+      ]);
+
+      const events = await collect(
+        readJournal(eventsJournalPath(sessionHome)),
+      );
+      assertEquals(events.map((e) => e.type), [
+        "session_start",
+        "discovered",
+        "spawned",
+      ]);
+    });
+
+    await t.step("torn last line is skipped", async () => {
+      const path = eventsJournalPath(sessionHome);
+      await Deno.writeTextFile(path, '{"type":"sess', { append: true });
+      assertEquals((await collect(readJournal(path))).length, 3);
+    });
+
+    await t.step("follow yields appended events", async () => {
+      const path = join(home, "follow.jsonl");
+      await Deno.writeTextFile(
+        path,
+        journalLine(ev({ type: "session_start" })),
+      );
+
+      const ac = new AbortController();
+      const seen: string[] = [];
+      const done = (async () => {
+        for await (
+          const e of readJournal(path, {
+            follow: true,
+            pollMs: 10,
+            signal: ac.signal,
+          })
+        ) {
+          seen.push(String(e.type));
+          if (seen.length === 2) ac.abort();
+        }
+      })();
+
+      await Deno.writeTextFile(
+        path,
+        journalLine(ev({ type: "discovered", serviceId: "a" })),
+        { append: true },
+      );
+      await done;
+      assertEquals(seen, ["session_start", "discovered"]);
+    });
+
+    await t.step("current session by default", async () => {
+      await Deno.writeTextFile(
+        join(home, ".current-session"),
+        "2025-01-01-00-00-00\n",
+      );
+      assertEquals(
+        await resolveEventsJournal(home),
+        eventsJournalPath(sessionHome),
+      );
+      assertEquals(
+        await resolveEventsJournal(home, "2025-01-01-00-00-00"),
+        eventsJournalPath(sessionHome),
+      );
+      await assertRejects(() => resolveEventsJournal(home, "nope"));
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
@@ -0,0 +1,186 @@
+// lib/ledger-diff.ts
+import { basename, join, resolve } from "@std/path";
+
+import { spawnedLedgerStates } from "./materialize.ts";
+import type { SpawnedContext } from "./spawn.ts";
+
+/**
+ * What changed between two ledger sessions (`yard ledger diff A B`).
+ *
+ * Services are matched by provenance (the cargo path in
+ * `supplier.location`), so a service whose id, port or binary changed shows
+ * up as `changed` instead of as a removal plus an addition. Only launch
+ * settings are compared, not runtime state (pids, health, timestamps).
+ */
+export const LEDGER_DIFF_SCHEMA = "truth-yard/ledger-diff@1";
+
+/**
+ * The comparable launch settings of one service.
+ */
+export type LedgerServiceSnapshot = Readonly<{
+  serviceId: string;
+  kind: string;
+  proxyEndpointPrefix: string;
+  host: string;
+  port: number;
+  command: string;
+  args: readonly string[];
+  cwd: string | null;
+  contextPath: string;
+}>;
+
+export type LedgerDiffField = Exclude<
+  keyof LedgerServiceSnapshot,
+  "contextPath"
+>;
+
+export const LEDGER_DIFF_FIELDS: ReadonlyArray<LedgerDiffField> = [
+  "serviceId",
+  "kind",
+  "proxyEndpointPrefix",
+  "host",
+  "port",
+  "command",
+  "args",
+  "cwd",
+];
+
+export type LedgerFieldChange = Readonly<{
+  field: LedgerDiffField;
+  from: unknown;
+  to: unknown;
+}>;
+
+export type LedgerServiceDiff = Readonly<{
+  provenance: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  a?: LedgerServiceSnapshot;
+  b?: LedgerServiceSnapshot;
+  changes: LedgerFieldChange[];
+}>;
+
+export type LedgerDiff = Readonly<{
+  schema: typeof LEDGER_DIFF_SCHEMA;
+  a: Readonly<{ session: string; path: string }>;
+  b: Readonly<{ session: string; path: string }>;
+  services: LedgerServiceDiff[];
+  summary: Readonly<{
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  }>;
+}>;
+
+export function ledgerServiceSnapshot(
+  ctx: SpawnedContext,
+  contextPath: string,
+): LedgerServiceSnapshot {
+  return {
+    serviceId: ctx.service.id,
+    kind: ctx.service.kind,
+    proxyEndpointPrefix: ctx.service.proxyEndpointPrefix,
+    host: ctx.listen.host,
+    port: ctx.listen.port,
+    command: ctx.spawned.plan.command,
+    args: [...ctx.spawned.plan.args],
+    cwd: ctx.spawned.plan.cwd ?? null,
+    contextPath,
+  };
+}
+
+function sameValue(x: unknown, y: unknown): boolean {
+  return JSON.stringify(x) === JSON.stringify(y);
+}
+
+/**
+ * Pure diff of two sessions' snapshots, keyed by provenance. Services are
+ * sorted by provenance.
+ */
+export function diffLedgerSnapshots(
+  a: ReadonlyMap<string, LedgerServiceSnapshot>,
+  b: ReadonlyMap<string, LedgerServiceSnapshot>,
+): Pick<LedgerDiff, "services" | "summary"> {
+  const provenances = [...new Set([...a.keys(), ...b.keys()])].sort();
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  const services = provenances.map((provenance): LedgerServiceDiff => {
+    const sa = a.get(provenance);
+    const sb = b.get(provenance);
+    if (!sa || !sb) {
+      const status = sa ? "removed" : "added";
+      summary[status]++;
+      return { provenance, status, a: sa, b: sb, changes: [] };
+    }
+
+    const changes = LEDGER_DIFF_FIELDS
+      .filter((field) => !sameValue(sa[field], sb[field]))
+      .map((field) => ({ field, from: sa[field], to: sb[field] }));
+    const status = changes.length ? "changed" : "unchanged";
+    summary[status]++;
+    return { provenance, status, a: sa, b: sb, changes };
+  });
+
+  return { services, summary };
+}
+
+/**
+ * Directory of `session`: a session name under `ledgerHome` or a path.
+ */
+export async function resolveLedgerSession(
+  ledgerHome: string,
+  session: string,
+): Promise<string> {
+  for (const candidate of [join(ledgerHome, session), session]) {
+    try {
+      if ((await Deno.stat(candidate)).isDirectory) return resolve(candidate);
+    } catch {
+      // try the next one
+    }
+  }
+  throw new Error(`no such session: ${session}`);
+}
+
+/**
+ * Snapshots of every `*.context.json` in a session directory, by
+ * provenance. When a session holds several contexts for one provenance
+ * (a restart within the session), the newest one wins.
+ */
+export async function ledgerSessionSnapshots(
+  sessionHome: string,
+): Promise<Map<string, LedgerServiceSnapshot>> {
+  const newest = new Map<
+    string,
+    { startedAt: string; s: LedgerServiceSnapshot }
+  >();
+  for await (const le of spawnedLedgerStates(sessionHome)) {
+    const prov = resolve(le.context.supplier.location);
+    const prev = newest.get(prov);
+    if (prev && prev.startedAt >= le.context.startedAt) continue;
+    newest.set(prov, {
+      startedAt: le.context.startedAt,
+      s: ledgerServiceSnapshot(le.context, le.filePath),
+    });
+  }
+  return new Map([...newest].map(([prov, { s }]) => [prov, s]));
+}
+
+export async function ledgerDiff(
+  ledgerHome: string,
+  sessionA: string,
+  sessionB: string,
+): Promise<LedgerDiff> {
+  const pathA = await resolveLedgerSession(ledgerHome, sessionA);
+  const pathB = await resolveLedgerSession(ledgerHome, sessionB);
+  const { services, summary } = diffLedgerSnapshots(
+    await ledgerSessionSnapshots(pathA),
+    await ledgerSessionSnapshots(pathB),
+  );
+  return {
+    schema: LEDGER_DIFF_SCHEMA,
+    a: { session: basename(pathA), path: pathA },
+    b: { session: basename(pathB), path: pathB },
+    services,
+    summary,
+  };
+}
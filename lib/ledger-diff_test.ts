@@ -0,0 +1,121 @@
+// ledger-diff_test.ts
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+
+import {
+  diffLedgerSnapshots,
+  ledgerDiff,
+  type LedgerServiceSnapshot,
+} from "./ledger-diff.ts";
+
+function snapshot(
+  partial: Partial<LedgerServiceSnapshot> = {},
+): LedgerServiceSnapshot {
+  return {
+    serviceId: "finance-ledger",
+    kind: "sqlpage",
+    proxyEndpointPrefix: "/apps/sqlpage/finance/ledger",
+    host: "127.0.0.1",
+    port: 3000,
+    command: "sqlpage",
+    args: ["--web-root", "/yard/cargo.d/finance"],
+    cwd: null,
+    contextPath: "/l/a/finance/ledger.sqlite.db.context.json",
+    ...partial,
+  };
+}
+
+function context(location: string, port: number, args: string[]) {
+  return {
+    startedAt: "2025-01-01T00:00:00.000Z",
+    service: {
+      id: "svc",
+      kind: "sqlpage",
+      label: "svc",
+      proxyEndpointPrefix: "/apps/svc",
+      upstreamUrl: `http://127.0.0.1:${port}`,
+    },
+    supplier: { location },
+    session: { sessionId: "s" },
+    listen: { host: "127.0.0.1", port },
+    spawned: { pid: 999_999_999, plan: { command: "sqlpage", args } },
+    paths: {},
+  };
+}
+
+Deno.test("ledger-diff: snapshots by provenance", () => {
+  const { services, summary } = diffLedgerSnapshots(
+    new Map([
+      ["/c/a.db", snapshot()],
+      ["/c/b.db", snapshot({ serviceId: "b" })],
+      ["/c/gone.db", snapshot({ serviceId: "gone" })],
+    ]),
+    new Map([
+      ["/c/a.db", snapshot({ port: 3001, args: ["--web-root", "/x"] })],
+      ["/c/b.db", snapshot({ serviceId: "b", contextPath: "/l/b/b.json" })],
+      ["/c/new.db", snapshot({ serviceId: "new" })],
+    ]),
+  );
+
+  assertEquals(summary, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+  assertEquals(
+    services.map((s) => [s.provenance, s.status]),
+    [
+      ["/c/a.db", "changed"],
+      ["/c/b.db", "unchanged"],
+      ["/c/gone.db", "removed"],
+      ["/c/new.db", "added"],
+    ],
+  );
+  assertEquals(services[0].changes, [
+    { field: "port", from: 3000, to: 3001 },
+    {
+      field: "args",
+      from: ["--web-root", "/yard/cargo.d/finance"],
+      to: ["--web-root", "/x"],
+    },
+  ]);
+});
+
+Deno.test("ledger-diff: sessions on disk", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-ledger-diff-" });
+  const write = async (session: string, name: string, ctx: unknown) => {
+    await Deno.mkdir(join(home, session), { recursive: true });
+    await Deno.writeTextFile(
+      join(home, session, `${name}.context.json`),
+      JSON.stringify(ctx),
+    );
+  };
+
+  try {
+    await write("2025-01-01-00-00-00", "a", context("/c/a.db", 3000, ["-a"]));
+    await write("2025-01-01-00-00-00", "b", context("/c/b.db", 3001, []));
+    await write("2025-01-02-00-00-00", "a", context("/c/a.db", 3000, ["-b"]));
+
+    await t.step("sessions by name", async () => {
+      const diff = await ledgerDiff(
+        home,
+        "2025-01-01-00-00-00",
+        "2025-01-02-00-00-00",
+      );
+      assertEquals(diff.a.session, "2025-01-01-00-00-00");
+      assertEquals(diff.summary, {
+        added: 0,
+        removed: 1,
+        changed: 1,
+        unchanged: 0,
+      });
+      assertEquals(diff.services[0].changes.map((c) => c.field), ["args"]);
+    });
+
+    await t.step("unknown sessions are rejected", async () => {
+      await assertRejects(
+        () => ledgerDiff(home, "2025-01-01-00-00-00", "nope"),
+        Error,
+        "no such session",
+      );
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
@@ -0,0 +1,256 @@
+// lib/ledger-gc.ts
+import { walk } from "@std/fs";
+import { basename, join, resolve } from "@std/path";
+
+import { isLogFileName } from "./log-rotate.ts";
+import { ensureParentDir } from "./path.ts";
+import { isPidAlive, type SpawnedContext } from "./spawn.ts";
+
+/**
+ * Retention for the spawn-state ledger.
+ *
+ * Every `yard start` creates a session directory named by
+ * sortableDateTimeText() (`YYYY-MM-DD-HH-MM-SS`) under the ledger home and
+ * nothing prunes them. ledgerGc() applies a retention policy to those
+ * session directories; anything else in the ledger home (port and host
+ * leases, archives) is never touched.
+ *
+ * Policy semantics (rules combine):
+ * - keepLast: the newest N sessions are always kept, older ones are removed
+ * - maxAgeMs: sessions started longer ago are removed
+ * - maxLogBytes: oldest sessions are removed until the remaining sessions'
+ *   `*.log` files and their rotated segments fit the budget
+ * - keepLive (default true): sessions with a live pid are always kept
+ * - the current session (`.current-session`) is always kept
+ */
+export type LedgerGcPolicy = Readonly<{
+  keepLast?: number;
+  keepLive?: boolean;
+  maxAgeMs?: number;
+  maxLogBytes?: number;
+}>;
+
+export type LedgerSession = Readonly<{
+  name: string;
+  path: string;
+  startedAt: Date;
+  bytes: number;
+  logBytes: number;
+  livePids: number[];
+  current: boolean;
+}>;
+
+export type LedgerGcReason =
+  | "current"
+  | "live"
+  | "keep_last"
+  | "beyond_keep_last"
+  | "max_age"
+  | "max_log_bytes";
+
+export type LedgerGcItem = Readonly<{
+  session: LedgerSession;
+  action: "keep" | "remove";
+  reasons: LedgerGcReason[];
+}>;
+
+const SESSION_NAME = /^(\d{4})-(\d{2})-(\d{2})-(\d{2})-(\d{2})-(\d{2})$/;
+
+/**
+ * Local start time encoded in a session directory name, or undefined when
+ * the name is not a session name.
+ */
+export function sessionStartedAt(name: string): Date | undefined {
+  const m = name.match(SESSION_NAME);
+  if (!m) return undefined;
+  const [y, mo, d, h, mi, s] = m.slice(1).map(Number);
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+/**
+ * Session directories directly under the ledger home, newest first.
+ */
+export async function listLedgerSessions(
+  ledgerHome: string,
+): Promise<LedgerSession[]> {
+  const home = resolve(ledgerHome);
+
+  let current: string | undefined;
+  try {
+    current = (await Deno.readTextFile(join(home, ".current-session"))).trim();
+  } catch {
+    // no pointer
+  }
+
+  const sessions: LedgerSession[] = [];
+  for await (const e of Deno.readDir(home)) {
+    if (!e.isDirectory) continue;
+    const startedAt = sessionStartedAt(e.name);
+    if (!startedAt) continue;
+
+    const path = join(home, e.name);
+    let bytes = 0;
+    let logBytes = 0;
+    const livePids: number[] = [];
+
+    for await (const f of walk(path, { includeDirs: false })) {
+      let size = 0;
+      try {
+        size = (await Deno.stat(f.path)).size;
+      } catch {
+        continue;
+      }
+      bytes += size;
+      if (isLogFileName(f.name)) logBytes += size;
+
+      if (f.name.endsWith(".context.json")) {
+        try {
+          const ctx = JSON.parse(
+            await Deno.readTextFile(f.path),
+          ) as SpawnedContext;
+          const pid = Number(ctx?.spawned?.pid);
+          if (Number.isFinite(pid) && pid > 0 && isPidAlive(pid)) {
+            livePids.push(pid);
+          }
+        } catch {
+          // unreadable context: not evidence of a live service
+        }
+      }
+    }
+
+    sessions.push({
+      name: e.name,
+      path,
+      startedAt,
+      bytes,
+      logBytes,
+      livePids,
+      current: e.name === current,
+    });
+  }
+
+  return sessions.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Pure retention decision for `sessions` (newest first).
+ */
+export function planLedgerGc(
+  sessions: readonly LedgerSession[],
+  policy: LedgerGcPolicy,
+  now = Date.now(),
+): LedgerGcItem[] {
+  const keepLive = policy.keepLive ?? true;
+
+  const items = sessions.map((session, i) => {
+    const protect: LedgerGcReason[] = [];
+    if (session.current) protect.push("current");
+    if (keepLive && session.livePids.length > 0) protect.push("live");
+    if (policy.keepLast !== undefined && i < policy.keepLast) {
+      protect.push("keep_last");
+    }
+
+    const remove: LedgerGcReason[] = [];
+    if (policy.keepLast !== undefined && i >= policy.keepLast) {
+      remove.push("beyond_keep_last");
+    }
+    if (
+      policy.maxAgeMs !== undefined &&
+      now - session.startedAt.getTime() > policy.maxAgeMs
+    ) remove.push("max_age");
+
+    return { session, protect, remove };
+  });
+
+  if (policy.maxLogBytes !== undefined) {
+    const doomed = (it: (typeof items)[number]) =>
+      it.protect.length === 0 && it.remove.length > 0;
+
+    let total = items
+      .filter((it) => !doomed(it))
+      .reduce((n, it) => n + it.session.logBytes, 0);
+
+    // oldest first
+    for (let i = items.length - 1; i >= 0 && total > policy.maxLogBytes; i--) {
+      const it = items[i];
+      if (it.protect.length > 0 || doomed(it)) continue;
+      it.remove.push("max_log_bytes");
+      total -= it.session.logBytes;
+    }
+  }
+
+  return items.map(({ session, protect, remove }) =>
+    protect.length > 0 || remove.length === 0
+      ? { session, action: "keep" as const, reasons: protect }
+      : { session, action: "remove" as const, reasons: remove }
+  );
+}
+
+export type LedgerGcOptions = Readonly<{
+  dryRun?: boolean;
+
+  /**
+   * Archive removed sessions as `<archiveDir>/<session>.tar.gz` (using the
+   * `tar` CLI) before deleting them.
+   */
+  archiveDir?: string;
+  tarBin?: string;
+}>;
+
+export type LedgerGcResult = Readonly<{
+  items: LedgerGcItem[];
+  removedBytes: number;
+  archives: string[];
+}>;
+
+/**
+ * Plan and (unless dry-run) apply retention to a ledger home.
+ */
+export async function ledgerGc(
+  ledgerHome: string,
+  policy: LedgerGcPolicy,
+  opts: LedgerGcOptions = {},
+): Promise<LedgerGcResult> {
+  const home = resolve(ledgerHome);
+  const items = planLedgerGc(await listLedgerSessions(home), policy);
+
+  let removedBytes = 0;
+  const archives: string[] = [];
+
+  for (const it of items) {
+    if (it.action !== "remove") continue;
+    removedBytes += it.session.bytes;
+    if (opts.dryRun) continue;
+
+    if (opts.archiveDir) {
+      const archive = join(
+        resolve(opts.archiveDir),
+        `${basename(it.session.path)}.tar.gz`,
+      );
+      await tarGz(home, it.session.name, archive, opts.tarBin);
+      archives.push(archive);
+    }
+
+    await Deno.remove(it.session.path, { recursive: true });
+  }
+
+  return { items, removedBytes, archives };
+}
+
+async function tarGz(
+  cwd: string,
+  entry: string,
+  archive: string,
+  tarBin = "tar",
+): Promise<void> {
+  await ensureParentDir(archive);
+  const { code, stderr } = await new Deno.Command(tarBin, {
+    args: ["-czf", archive, "-C", cwd, entry],
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+  if (code !== 0) {
+    const err = new TextDecoder().decode(stderr).trim();
+    throw new Error(`tar: ${err || `exit code ${code}`}`);
+  }
+}
@@ -0,0 +1,166 @@
+// ledger-gc_test.ts
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+
+import {
+  ledgerGc,
+  type LedgerSession,
+  listLedgerSessions,
+  planLedgerGc,
+  sessionStartedAt,
+} from "./ledger-gc.ts";
+
+const DAY = 86_400_000;
+
+function session(
+  name: string,
+  partial: Partial<LedgerSession> = {},
+): LedgerSession {
+  return {
+    name,
+    path: `/yard/ledger.d/${name}`,
+    startedAt: sessionStartedAt(name)!,
+    bytes: 100,
+    logBytes: 80,
+    livePids: [],
+    current: false,
+    ...partial,
+  };
+}
+
+// newest first, one per day
+const sessions = [
+  session("2025-01-05-00-00-00"),
+  session("2025-01-04-00-00-00"),
+  session("2025-01-03-00-00-00", { livePids: [42] }),
+  session("2025-01-02-00-00-00"),
+  session("2025-01-01-00-00-00"),
+];
+const now = new Date(2025, 0, 5, 12).getTime();
+
+const removed = (items: ReturnType<typeof planLedgerGc>) =>
+  items.filter((it) => it.action === "remove").map((it) => it.session.name);
+
+Deno.test("ledger-gc: retention plan", async (t) => {
+  await t.step("no policy keeps everything", () => {
+    assertEquals(removed(planLedgerGc(sessions, {}, now)), []);
+  });
+
+  await t.step("keepLast spares live sessions", () => {
+    const items = planLedgerGc(sessions, { keepLast: 2 }, now);
+    assertEquals(removed(items), [
+      "2025-01-02-00-00-00",
+      "2025-01-01-00-00-00",
+    ]);
+    assertEquals(items[2].reasons, ["live"]);
+  });
+
+  await t.step("keepLive false collects live sessions", () => {
+    assertEquals(
+      removed(planLedgerGc(sessions, { keepLast: 2, keepLive: false }, now)),
+      ["2025-01-03-00-00-00", "2025-01-02-00-00-00", "2025-01-01-00-00-00"],
+    );
+  });
+
+  await t.step("maxAge, with keepLast protecting the newest", () => {
+    assertEquals(
+      removed(planLedgerGc(sessions, { maxAgeMs: 2 * DAY }, now)),
+      ["2025-01-02-00-00-00", "2025-01-01-00-00-00"],
+    );
+    assertEquals(
+      removed(planLedgerGc(sessions, { maxAgeMs: 0, keepLast: 1 }, now)),
+      ["2025-01-04-00-00-00", "2025-01-02-00-00-00", "2025-01-01-00-00-00"],
+    );
+  });
+
+  await t.step("maxLogBytes removes oldest first", () => {
+    // 5 x 80 bytes of logs; the live session is skipped while trimming to 200
+    assertEquals(
+      removed(planLedgerGc(sessions, { maxLogBytes: 200 }, now)),
+      ["2025-01-04-00-00-00", "2025-01-02-00-00-00", "2025-01-01-00-00-00"],
+    );
+  });
+
+  await t.step("current session is always kept", () => {
+    const items = planLedgerGc(
+      [session("2025-01-01-00-00-00", { current: true })],
+      { keepLast: 0 },
+      now,
+    );
+    assertEquals(items[0].action, "keep");
+    assertEquals(items[0].reasons, ["current"]);
+  });
+});
+
+Deno.test("ledger-gc: ledger home", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-gc-" });
+
+  const mkSession = async (name: string) => {
+    await Deno.mkdir(join(home, name, "cargo"), { recursive: true });
+    await Deno.writeTextFile(
+      join(home, name, "cargo", "a.sqlite.db.stdout.log"),
+      "x".repeat(10),
+    );
+    // rotated segments count as logs too
+    await Deno.writeTextFile(
+      join(home, name, "cargo", "a.sqlite.db.stdout.log.1.gz"),
+      "x".repeat(5),
+    );
+    await Deno.writeTextFile(
+      join(home, name, "cargo", "a.sqlite.db.stderr.log.20250101T000000Z"),
+      "x".repeat(3),
+    );
+    await Deno.writeTextFile(
+      join(home, name, "cargo", "a.sqlite.db.context.json"),
+      JSON.stringify({ spawned: { pid: Deno.pid } }),
+    );
+  };
+
+  try {
+    await mkSession("2025-01-01-00-00-00");
+    await mkSession("2025-01-02-00-00-00");
+    await Deno.mkdir(join(home, "host-leases"));
+    await Deno.writeTextFile(join(home, "port-leases.json"), "{}");
+    await Deno.writeTextFile(
+      join(home, ".current-session"),
+      "2025-01-02-00-00-00",
+    );
+
+    await t.step("lists only session directories, newest first", async () => {
+      const listed = await listLedgerSessions(home);
+      assertEquals(listed.map((s) => s.name), [
+        "2025-01-02-00-00-00",
+        "2025-01-01-00-00-00",
+      ]);
+      assertEquals(listed[0].logBytes, 18);
+      assert(listed[0].current);
+      assertEquals(listed[1].livePids, [Deno.pid]);
+    });
+
+    await t.step("dry run leaves the ledger alone", async () => {
+      const r = await ledgerGc(home, { keepLast: 0, keepLive: false }, {
+        dryRun: true,
+      });
+      assertEquals(removed(r.items), ["2025-01-01-00-00-00"]);
+      assert(r.removedBytes > 0);
+      assertEquals((await listLedgerSessions(home)).length, 2);
+    });
+
+    await t.step("archives before removing", async () => {
+      const archiveDir = join(home, "archive");
+      const r = await ledgerGc(home, { keepLast: 0, keepLive: false }, {
+        archiveDir,
+      });
+      assertEquals(r.archives, [
+        join(archiveDir, "2025-01-01-00-00-00.tar.gz"),
+      ]);
+      assert((await Deno.stat(r.archives[0])).size > 0);
+      assertEquals((await listLedgerSessions(home)).map((s) => s.name), [
+        "2025-01-02-00-00-00",
+      ]);
+      assert((await Deno.stat(join(home, "port-leases.json"))).isFile);
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
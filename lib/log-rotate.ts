@@ -0,0 +1,366 @@
+// lib/log-rotate.ts
+import { basename, dirname, join, resolve } from "@std/path";
+
+import { writeTextFileAtomic } from "./path.ts";
+import {
+  type LogRotationState,
+  type LogSegment,
+  type SpawnedContext,
+  type SpawnEvent,
+  type SpawnEventListener,
+  type SpawnEventPayload,
+  type SpawnSession,
+  taggedProcesses,
+} from "./spawn.ts";
+
+/**
+ * Size- and time-based rotation of the ledger's `<name>.stdout.log` and
+ * `<name>.stderr.log`.
+ *
+ * Services append to their logs through a shell redirect (`1>>`), so the file
+ * cannot be renamed under them. Rotation is copy-then-truncate (logrotate's
+ * `copytruncate`): the log is copied into a segment, optionally gzipped, and
+ * truncated in place. Lines written between the copy and the truncate are
+ * lost.
+ *
+ * Segments are discovered from the filesystem, so they survive a service
+ * being respawned with a fresh context; every rotation also records the
+ * current state under the context's `logs`.
+ */
+export type LogSegmentNaming = "numbered" | "timestamped";
+
+export type LogRotationOptions = Readonly<{
+  /**
+   * Rotate once a log reaches this many bytes.
+   */
+  maxBytes?: number;
+
+  /**
+   * Rotate a non-empty log this long after it was opened (or last rotated).
+   */
+  maxAgeMs?: number;
+
+  /**
+   * `numbered` (`.1` is the newest, default) or `timestamped`.
+   */
+  naming?: LogSegmentNaming;
+
+  /**
+   * Segments kept per log, oldest removed first (default 5). At least the
+   * segment just written is kept.
+   */
+  keep?: number;
+
+  gzip?: boolean;
+
+  /**
+   * How often watch mode checks the logs, in ms (default 60000).
+   */
+  intervalMs?: number;
+}>;
+
+export type LogStream = "stdout" | "stderr";
+
+export function logRotationEnabled(opts: LogRotationOptions | undefined) {
+  return opts?.maxBytes !== undefined || opts?.maxAgeMs !== undefined;
+}
+
+/**
+ * Pure rotation policy for one log.
+ */
+export function rotationDue(
+  bytes: number,
+  openedAtMs: number,
+  now: number,
+  opts: LogRotationOptions,
+): boolean {
+  if (bytes <= 0) return false;
+  if (opts.maxBytes !== undefined && bytes >= opts.maxBytes) return true;
+  return opts.maxAgeMs !== undefined && now - openedAtMs >= opts.maxAgeMs;
+}
+
+const SEGMENT_SUFFIX = /^\.(?:(\d+)|(\d{8}T\d{6}Z(?:-\d+)?))(\.gz)?$/;
+
+/**
+ * A live `*.log` or one of its rotated segments (`.log.N[.gz]`,
+ * `.log.<stamp>[.gz]`).
+ */
+export function isLogFileName(name: string): boolean {
+  const i = name.lastIndexOf(".log");
+  if (i < 0) return false;
+  const rest = name.slice(i + ".log".length);
+  return rest === "" || SEGMENT_SUFFIX.test(rest);
+}
+
+function compactStamp(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+}
+
+/**
+ * Rotated segments of `logPath`, newest first.
+ */
+export async function logSegments(logPath: string): Promise<LogSegment[]> {
+  const dir = dirname(logPath);
+  const base = basename(logPath);
+
+  const found: Array<LogSegment & { n?: number; stamp?: string }> = [];
+  try {
+    for await (const e of Deno.readDir(dir)) {
+      if (!e.isFile || !e.name.startsWith(`${base}.`)) continue;
+      const m = e.name.slice(base.length).match(SEGMENT_SUFFIX);
+      if (!m) continue;
+      const path = join(dir, e.name);
+      let st: Deno.FileInfo;
+      try {
+        st = await Deno.stat(path);
+      } catch {
+        continue;
+      }
+      found.push({
+        path,
+        bytes: st.size,
+        rotatedAt: (st.mtime ?? new Date(0)).toISOString(),
+        gzip: m[3] !== undefined,
+        n: m[1] !== undefined ? Number(m[1]) : undefined,
+        stamp: m[2],
+      });
+    }
+  } catch {
+    return [];
+  }
+
+  found.sort((a, b) => {
+    if (a.n !== undefined && b.n !== undefined) return a.n - b.n;
+    if (a.stamp && b.stamp) return b.stamp.localeCompare(a.stamp);
+    return b.rotatedAt.localeCompare(a.rotatedAt);
+  });
+  return found.map(({ path, bytes, rotatedAt, gzip }) => ({
+    path,
+    bytes,
+    rotatedAt,
+    gzip,
+  }));
+}
+
+/**
+ * Rotate `logPath` now (when it is non-empty) and prune old segments.
+ * Returns the new segment.
+ */
+export async function rotateLog(
+  logPath: string,
+  opts: LogRotationOptions = {},
+  now = new Date(),
+): Promise<LogSegment | undefined> {
+  let size: number;
+  try {
+    size = (await Deno.stat(logPath)).size;
+  } catch {
+    return undefined;
+  }
+  if (size === 0) return undefined;
+
+  const gz = opts.gzip ? ".gz" : "";
+  let target: string;
+
+  if ((opts.naming ?? "numbered") === "numbered") {
+    const numbered = (await logSegments(logPath))
+      .flatMap((s) => {
+        const m = s.path.slice(logPath.length).match(/^\.(\d+)(\.gz)?$/);
+        return m ? [{ s, n: Number(m[1]) }] : [];
+      })
+      .sort((a, b) => b.n - a.n);
+    for (const { s, n } of numbered) {
+      await Deno.rename(
+        s.path,
+        `${logPath}.${n + 1}${s.gzip ? ".gz" : ""}`,
+      );
+    }
+    target = `${logPath}.1${gz}`;
+  } else {
+    const stamp = compactStamp(now);
+    target = `${logPath}.${stamp}${gz}`;
+    for (let i = 1; await exists(target); i++) {
+      target = `${logPath}.${stamp}-${i}${gz}`;
+    }
+  }
+
+  const src = await Deno.open(logPath, { read: true });
+  const dst = await Deno.open(target, { write: true, createNew: true });
+  const readable = opts.gzip
+    ? src.readable.pipeThrough(new CompressionStream("gzip"))
+    : src.readable;
+  await readable.pipeTo(dst.writable);
+  await Deno.truncate(logPath, 0);
+
+  const keep = Math.max(1, opts.keep ?? 5);
+  const segments = await logSegments(logPath);
+  for (const s of segments.slice(keep)) {
+    try {
+      await Deno.remove(s.path);
+    } catch {
+      // already gone
+    }
+  }
+
+  const st = await Deno.stat(target);
+  return {
+    path: target,
+    bytes: st.size,
+    rotatedAt: now.toISOString(),
+    gzip: !!opts.gzip,
+  };
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type LogRotation = Readonly<{
+  stream: LogStream;
+  segment: LogSegment;
+}>;
+
+/**
+ * Rotate a service's stdout/stderr logs when due and record the rotation
+ * state in its context.
+ */
+export async function rotateServiceLogs(
+  contextPath: string,
+  opts: LogRotationOptions,
+  now = new Date(),
+): Promise<LogRotation[]> {
+  let ctx: SpawnedContext;
+  try {
+    ctx = JSON.parse(await Deno.readTextFile(contextPath)) as SpawnedContext;
+  } catch {
+    return [];
+  }
+
+  const rotations: LogRotation[] = [];
+  const logs: Partial<Record<LogStream, LogRotationState>> = { ...ctx.logs };
+
+  for (const stream of ["stdout", "stderr"] as const) {
+    const path = ctx.paths?.[stream];
+    if (!path) continue;
+
+    let size: number;
+    try {
+      size = (await Deno.stat(path)).size;
+    } catch {
+      continue;
+    }
+
+    const prev = logs[stream]?.path === path ? logs[stream] : undefined;
+    const openedAt = prev?.openedAt ?? ctx.startedAt;
+    if (!rotationDue(size, Date.parse(openedAt), now.getTime(), opts)) {
+      continue;
+    }
+
+    const segment = await rotateLog(path, opts, now);
+    if (!segment) continue;
+    rotations.push({ stream, segment });
+    logs[stream] = {
+      path,
+      openedAt: now.toISOString(),
+      rotatedAt: now.toISOString(),
+      segments: await logSegments(path),
+    };
+  }
+
+  if (rotations.length > 0) {
+    try {
+      // re-read so a concurrent health/stop update is not lost
+      const latest = JSON.parse(
+        await Deno.readTextFile(contextPath),
+      ) as SpawnedContext;
+      await writeTextFileAtomic(
+        contextPath,
+        JSON.stringify({ ...latest, logs }, null, 2) + "\n",
+      );
+    } catch {
+      // the context may have been cleaned up; the segments are on disk
+    }
+  }
+
+  return rotations;
+}
+
+export type LogRotatorEvent = Extract<
+  SpawnEventPayload,
+  { type: "log_rotated" }
+>;
+
+export type LogRotator = ReturnType<typeof logRotator>;
+
+/**
+ * Create a rotator for the logs of services whose provenance lives under
+ * `rootsAbs`. Linux only (relies on taggedProcesses()).
+ */
+export function logRotator(
+  opts: LogRotationOptions,
+  args: Readonly<{
+    session: SpawnSession;
+    rootsAbs: readonly string[];
+    onEvent?: SpawnEventListener;
+  }>,
+) {
+  const t0 = performance.now();
+
+  const underRoots = (prov: string) =>
+    args.rootsAbs.some((r) => prov === r || prov.startsWith(r + "/"));
+
+  const emit = async (event: LogRotatorEvent) => {
+    if (!args.onEvent) return;
+    try {
+      await args.onEvent(
+        {
+          session: args.session,
+          ts: new Date().toISOString(),
+          tMs: performance.now() - t0,
+          ...event,
+        } as SpawnEvent,
+      );
+    } catch {
+      // ignore listener failures
+    }
+  };
+
+  return {
+    /**
+     * Rotate every due log once; returns the number of rotations.
+     */
+    async check(): Promise<number> {
+      if (Deno.build.os !== "linux") return 0;
+
+      let count = 0;
+      for await (const tp of taggedProcesses()) {
+        const prov = resolve(tp.provenance);
+        if (!underRoots(prov)) continue;
+
+        let rotations: LogRotation[];
+        try {
+          rotations = await rotateServiceLogs(tp.contextPath, opts);
+        } catch {
+          continue; // try again next round
+        }
+
+        for (const r of rotations) {
+          count++;
+          await emit({
+            type: "log_rotated",
+            serviceId: tp.serviceId,
+            provenance: prov,
+            stream: r.stream,
+            segment: r.segment,
+          });
+        }
+      }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+// log-rotate_test.ts
+import { assert, assertEquals, assertFalse, assertMatch } from "@std/assert";
+import { basename, join } from "@std/path";
+
+import {
+  logSegments,
+  rotateLog,
+  rotateServiceLogs,
+  rotationDue,
+} from "./log-rotate.ts";
+import type { SpawnedContext } from "./spawn.ts";
+
+Deno.test("log-rotate: policy", async (t) => {
+  const hour = 3_600_000;
+
+  await t.step("empty logs never rotate", () => {
+    assertFalse(rotationDue(0, 0, 10 * hour, { maxBytes: 1, maxAgeMs: 1 }));
+  });
+
+  await t.step("size", () => {
+    assert(rotationDue(100, 0, 0, { maxBytes: 100 }));
+    assertFalse(rotationDue(99, 0, 0, { maxBytes: 100 }));
+  });
+
+  await t.step("age", () => {
+    assert(rotationDue(1, 0, 2 * hour, { maxAgeMs: hour }));
+    assertFalse(rotationDue(1, hour, 90 * 60_000, { maxAgeMs: hour }));
+  });
+});
+
+Deno.test("log-rotate: segments", async (t) => {
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-rotate-" });
+  const log = join(dir, "a.sqlite.db.stdout.log");
+
+  try {
+    await t.step("numbered segments shift and are pruned", async () => {
+      for (const line of ["one", "two", "three"]) {
+        await Deno.writeTextFile(log, `${line}\n`);
+        const seg = await rotateLog(log, { keep: 2 });
+        assertEquals(seg?.path, `${log}.1`);
+      }
+      assertEquals(await Deno.readTextFile(log), "");
+      assertEquals(await Deno.readTextFile(`${log}.1`), "three\n");
+      assertEquals(await Deno.readTextFile(`${log}.2`), "two\n");
+      assertEquals(
+        (await logSegments(log)).map((s) => basename(s.path)),
+        ["a.sqlite.db.stdout.log.1", "a.sqlite.db.stdout.log.2"],
+      );
+    });
+
+    await t.step("keep 0 still keeps the segment just written", async () => {
+      await Deno.writeTextFile(log, "four\n");
+      const seg = await rotateLog(log, { keep: 0 });
+      assertEquals(seg?.path, `${log}.1`);
+      assertEquals(seg?.bytes, 5);
+      assertEquals(
+        (await logSegments(log)).map((s) => basename(s.path)),
+        ["a.sqlite.db.stdout.log.1"],
+      );
+    });
+
+    await t.step("empty logs are left alone", async () => {
+      assertEquals(await rotateLog(log), undefined);
+    });
+
+    await t.step("timestamped gzip segments", async () => {
+      const other = join(dir, "b.sqlite.db.stderr.log");
+      await Deno.writeTextFile(other, "boom\n");
+      const seg = await rotateLog(other, {
+        naming: "timestamped",
+        gzip: true,
+      }, new Date(Date.UTC(2025, 0, 2, 3, 4, 5)));
+
+      assertEquals(seg?.path, `${other}.20250102T030405Z.gz`);
+      assert(seg?.gzip);
+      const text = await new Response(
+        (await Deno.open(seg!.path)).readable.pipeThrough(
+          new DecompressionStream("gzip"),
+        ),
+      ).text();
+      assertEquals(text, "boom\n");
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("log-rotate: context records rotation state", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-rotate-" });
+  const contextPath = join(dir, "a.sqlite.db.context.json");
+  const stdout = join(dir, "a.sqlite.db.stdout.log");
+  const stderr = join(dir, "a.sqlite.db.stderr.log");
+
+  try {
+    await Deno.writeTextFile(stdout, "x".repeat(50));
+    await Deno.writeTextFile(stderr, "x".repeat(5));
+    await Deno.writeTextFile(
+      contextPath,
+      JSON.stringify({
+        startedAt: new Date().toISOString(),
+        paths: { context: contextPath, stdout, stderr },
+      }),
+    );
+
+    const rotations = await rotateServiceLogs(contextPath, { maxBytes: 10 });
+    assertEquals(rotations.map((r) => r.stream), ["stdout"]);
+
+    const ctx = JSON.parse(
+      await Deno.readTextFile(contextPath),
+    ) as SpawnedContext;
+    assertEquals(ctx.logs?.stdout?.path, stdout);
+    assertEquals(ctx.logs?.stdout?.segments.map((s) => s.path), [
+      `${stdout}.1`,
+    ]);
+    assertMatch(ctx.logs?.stdout?.rotatedAt ?? "", /^\d{4}-/);
+    assertEquals(ctx.logs?.stderr, undefined);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
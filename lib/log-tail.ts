@@ -0,0 +1,202 @@
+// lib/log-tail.ts
+import type { SpawnedContext } from "./spawn.ts";
+
+/**
+ * Live tailing of a service's `<name>.stdout.log` / `<name>.stderr.log` for
+ * the web UI's log viewer.
+ *
+ * The tail polls the file's size and emits whole lines from a byte offset
+ * on. Log rotation truncates the live log in place (see log-rotate.ts), so a
+ * file shorter than the offset (or a replaced file) restarts the tail at 0
+ * with a `reset` chunk.
+ */
+export type LogStream = "stdout" | "stderr";
+
+export type LogChunk = Readonly<{
+  /**
+   * Byte offset of `text` in the file, and the offset after it.
+   */
+  offset: number;
+  next: number;
+  text: string;
+
+  /**
+   * The file was truncated or replaced; earlier output is gone.
+   */
+  reset?: boolean;
+}>;
+
+export type LogTailOptions = Readonly<{
+  /**
+   * Where to start: a byte offset, or negative for that many bytes before
+   * the end (default -65536). A start inside a line skips to the next one.
+   */
+  offset?: number;
+
+  /**
+   * Poll period in ms (default 500).
+   */
+  intervalMs?: number;
+
+  /**
+   * Largest chunk read at once (default 65536).
+   */
+  maxChunkBytes?: number;
+
+  signal?: AbortSignal;
+}>;
+
+/**
+ * The live log of a stream: from the context's rotation state or spawn
+ * paths, falling back to the name next to the context file.
+ */
+export function serviceLogPath(
+  contextPath: string,
+  ctx: Pick<SpawnedContext, "paths" | "logs">,
+  stream: LogStream,
+): string {
+  return ctx.logs?.[stream]?.path ?? ctx.paths?.[stream] ??
+    (contextPath.endsWith(".context.json")
+        ? contextPath.slice(0, -".context.json".length)
+        : contextPath) + `.${stream}.log`;
+}
+
+/**
+ * Absolute start position for `offset` in a file of `size` bytes.
+ */
+export function resolveTailOffset(offset: number, size: number): number {
+  const at = offset < 0 ? size + offset : offset;
+  return Math.max(0, Math.min(size, Math.floor(at)));
+}
+
+/**
+ * A single `bytes=` range of an HTTP Range header against a file of `size`
+ * bytes: undefined when absent or not a single byte range (serve the whole
+ * file), null when unsatisfiable (416).
+ */
+export function parseByteRange(
+  header: string | null | undefined,
+  size: number,
+): { start: number; end: number } | null | undefined {
+  const m = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!m || (m[1] === "" && m[2] === "")) return undefined;
+
+  let start: number;
+  let end: number;
+  if (m[1] === "") {
+    // suffix: the last N bytes
+    const n = Number(m[2]);
+    if (n === 0) return null;
+    start = Math.max(0, size - n);
+    end = size - 1;
+  } else {
+    start = Number(m[1]);
+    end = m[2] === "" ? size - 1 : Math.min(Number(m[2]), size - 1);
+  }
+  if (start >= size || end < start) return null;
+  return { start, end };
+}
+
+async function readAt(path: string, offset: number, length: number) {
+  const f = await Deno.open(path, { read: true });
+  try {
+    await f.seek(offset, Deno.SeekMode.Start);
+    const buf = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const n = await f.read(buf.subarray(filled));
+      if (n === null) break;
+      filled += n;
+    }
+    return buf.subarray(0, filled);
+  } finally {
+    f.close();
+  }
+}
+
+const NEWLINE = 0x0a;
+
+/**
+ * Follow a log until `signal` aborts. Chunks end at a line break unless a
+ * single line is longer than `maxChunkBytes`. A missing file is waited for.
+ */
+export async function* tailLog(
+  path: string,
+  opts: LogTailOptions = {},
+): AsyncGenerator<LogChunk> {
+  const intervalMs = opts.intervalMs ?? 500;
+  const maxChunk = opts.maxChunkBytes ?? 65_536;
+  const requested = opts.offset ?? -65_536;
+  const decoder = new TextDecoder();
+
+  let offset: number | undefined;
+  let ino: number | null | undefined;
+  let skipPartialLine = false;
+  let reset = false;
+
+  const sleep = () =>
+    new Promise<void>((resolve) => {
+      const t = setTimeout(done, intervalMs);
+      opts.signal?.addEventListener("abort", done, { once: true });
+      function done() {
+        clearTimeout(t);
+        opts.signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
+
+  while (!opts.signal?.aborted) {
+    let st: Deno.FileInfo;
+    try {
+      st = await Deno.stat(path);
+    } catch {
+      await sleep(); // not created yet, or between rotation steps
+      continue;
+    }
+
+    if (offset === undefined) {
+      offset = resolveTailOffset(requested, st.size);
+      skipPartialLine = offset > 0 && requested < 0;
+      ino = st.ino;
+    } else if (st.size < offset || (st.ino !== null && st.ino !== ino)) {
+      offset = 0;
+      ino = st.ino;
+      skipPartialLine = false;
+      reset = true;
+    }
+
+    if (st.size > offset || reset) {
+      const bytes = st.size > offset
+        ? await readAt(path, offset, Math.min(maxChunk, st.size - offset))
+        : new Uint8Array();
+      // whole lines only, unless one line fills the chunk
+      const last = bytes.lastIndexOf(NEWLINE);
+      const take = last >= 0
+        ? last + 1
+        : bytes.length === maxChunk
+        ? bytes.length
+        : 0;
+
+      let start = 0;
+      if (skipPartialLine && take > 0) {
+        const nl = bytes.subarray(0, take).indexOf(NEWLINE);
+        start = nl >= 0 ? nl + 1 : take;
+        skipPartialLine = nl < 0;
+      }
+
+      if (take > start || reset) {
+        yield {
+          offset: offset + start,
+          next: offset + take,
+          text: decoder.decode(bytes.subarray(start, take), { stream: true }),
+          ...(reset ? { reset } : {}),
+        };
+        reset = false;
+      }
+      offset += take;
+      if (take > 0 && offset < st.size) continue; // more to read right away
+    }
+
+    await sleep();
+  }
+}
@@ -0,0 +1,78 @@
+// log-tail_test.ts
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+
+import {
+  type LogChunk,
+  parseByteRange,
+  resolveTailOffset,
+  serviceLogPath,
+  tailLog,
+} from "./log-tail.ts";
+
+Deno.test("log-tail: offsets and ranges", () => {
+  assertEquals(resolveTailOffset(-10, 100), 90);
+  assertEquals(resolveTailOffset(-500, 100), 0);
+  assertEquals(resolveTailOffset(40, 100), 40);
+  assertEquals(resolveTailOffset(400, 100), 100);
+
+  assertEquals(parseByteRange(undefined, 100), undefined);
+  assertEquals(parseByteRange("bytes=0-9", 100), { start: 0, end: 9 });
+  assertEquals(parseByteRange("bytes=90-", 100), { start: 90, end: 99 });
+  assertEquals(parseByteRange("bytes=-10", 100), { start: 90, end: 99 });
+  assertEquals(parseByteRange("bytes=50-500", 100), { start: 50, end: 99 });
+  assertEquals(parseByteRange("bytes=0-1,5-6", 100), undefined);
+  assertEquals(parseByteRange("bytes=100-", 100), null);
+  assertEquals(parseByteRange("bytes=-0", 100), null);
+
+  assertEquals(
+    serviceLogPath("/l/s/a.db.context.json", { paths: {} }, "stderr"),
+    "/l/s/a.db.stderr.log",
+  );
+  assertEquals(
+    serviceLogPath("/l/s/a.db.context.json", {
+      paths: { stdout: "/l/s/x.stdout.log" },
+    }, "stdout"),
+    "/l/s/x.stdout.log",
+  );
+});
+
+Deno.test("log-tail: follows appends and truncation", async (t) => {
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-tail-" });
+  const path = join(dir, "a.db.stdout.log");
+  await Deno.writeTextFile(path, "first line\nsecond line\nthird");
+
+  const ac = new AbortController();
+  const tail = tailLog(path, {
+    offset: -15,
+    intervalMs: 20,
+    signal: ac.signal,
+  });
+  const next = async (): Promise<LogChunk> => (await tail.next()).value!;
+
+  try {
+    await t.step("a start inside a line skips to the next", async () => {
+      // 15 bytes back lands inside "second line"; "third" is unfinished, so
+      // nothing is sent until it is
+      const pending = next();
+      await new Promise((r) => setTimeout(r, 100));
+      await Deno.writeTextFile(path, " line\nfourth\n", { append: true });
+      const c = await pending;
+      assertEquals(c.text, "third line\nfourth\n");
+      assertEquals(c.offset, 23);
+      assertEquals(c.next, 41);
+    });
+
+    await t.step("a truncated log restarts from 0", async () => {
+      await Deno.truncate(path, 0);
+      await Deno.writeTextFile(path, "after\n", { append: true });
+      const c = await next();
+      assertEquals(c.reset, true);
+      assertEquals(c.offset, 0);
+    });
+  } finally {
+    ac.abort();
+    await tail.return(undefined);
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,165 @@
+// lib/manifest.ts
+import { basename, dirname, join } from "@std/path";
+import { z } from "@zod/zod";
+import JSON5 from "json5";
+
+/**
+ * Per-cargo service manifests.
+ *
+ * A manifest is a JSON5 sidecar that configures how a cargo file is exposed:
+ * - `<dir>/yard.json5` applies to every cargo file in that directory
+ * - `<file>.yard.json5` (e.g. `northwind.sqlite.db.yard.json5`) applies to
+ *   one file and wins over the directory manifest, key by key
+ *
+ * `env` and `labels` are merged; everything else is replaced. `port`,
+ * `proxyEndpointPrefix` and `kind` only make sense for one file, so a
+ * directory manifest that sets them is invalid.
+ */
+export const CARGO_MANIFEST_DIR_FILE = "yard.json5";
+export const CARGO_MANIFEST_SUFFIX = ".yard.json5";
+
+export const cargoManifestSchema = z.object({
+  /** false keeps the cargo from being spawned at all. */
+  enabled: z.boolean().optional(),
+
+  /**
+   * Serve the cargo as a different kind within the SQLite family (DuckDB and
+   * Excel cargo cannot be retargeted, so those kinds are refused).
+   */
+  kind: z.enum(["sqlpage", "surveilr", "sqlite"]).optional(),
+
+  /**
+   * Fixed listen port instead of the next free one; spawning fails when it
+   * is already in use.
+   */
+  port: z.number().int().min(1).max(65535).optional(),
+
+  /** Custom proxy prefix instead of the one derived from the cargo path. */
+  proxyEndpointPrefix: z.string().startsWith("/").optional(),
+
+  /** Service binary (sqlpage/surveilr/duckdb/sqlite3) override. */
+  bin: z.string().min(1).optional(),
+
+  /** Extra arguments appended to the service command line. */
+  args: z.array(z.string()).optional(),
+
+  /** Extra environment for the service process. */
+  env: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
+
+  /** Probe URL: absolute, or a path joined onto the service base URL. */
+  probe: z.string().min(1).optional(),
+
+  /** Free-form labels, copied into the ledger context. */
+  labels: z.record(z.string(), z.string()).optional(),
+}).strict();
+
+export type CargoManifest = z.infer<typeof cargoManifestSchema>;
+
+/**
+ * The effective manifest for one cargo file and the files it came from
+ * (directory manifest first). Written into SpawnedContext.
+ */
+export type CargoManifestResolution = Readonly<{
+  sources: string[];
+  effective: CargoManifest;
+}>;
+
+/**
+ * Manifest files that apply to `cargoPath`, in merge order.
+ */
+export function cargoManifestPaths(cargoPath: string): string[] {
+  return [
+    join(dirname(cargoPath), CARGO_MANIFEST_DIR_FILE),
+    join(dirname(cargoPath), `${basename(cargoPath)}${CARGO_MANIFEST_SUFFIX}`),
+  ];
+}
+
+/**
+ * True for file names that are manifests (used by watch mode so creating or
+ * editing a manifest reconciles).
+ */
+export function isCargoManifestPath(p: string): boolean {
+  return basename(p) === CARGO_MANIFEST_DIR_FILE ||
+    p.endsWith(CARGO_MANIFEST_SUFFIX);
+}
+
+const FILE_ONLY_KEYS = ["port", "proxyEndpointPrefix", "kind"] as const;
+
+/**
+ * Parse and validate one manifest file's text. Throws with the file path and
+ * every validation issue.
+ */
+export function parseCargoManifest(text: string, path: string): CargoManifest {
+  let raw: unknown;
+  try {
+    raw = JSON5.parse(text);
+  } catch (error) {
+    throw new Error(
+      `manifest ${path}: ${String((error as Error)?.message ?? error)}`,
+    );
+  }
+
+  const parsed = cargoManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`manifest ${path}: ${issues}`);
+  }
+
+  if (basename(path) === CARGO_MANIFEST_DIR_FILE) {
+    const set = FILE_ONLY_KEYS.filter((k) => parsed.data[k] !== undefined);
+    if (set.length > 0) {
+      throw new Error(
+        `manifest ${path}: ${
+          set.join(", ")
+        } would apply to every cargo file in the directory; set it in <file>${CARGO_MANIFEST_SUFFIX} instead`,
+      );
+    }
+  }
+  return parsed.data;
+}
+
+export function mergeCargoManifests(
+  ...manifests: readonly CargoManifest[]
+): CargoManifest {
+  let out: CargoManifest = {};
+  for (const m of manifests) {
+    out = {
+      ...out,
+      ...m,
+      ...(out.env || m.env ? { env: { ...out.env, ...m.env } } : {}),
+      ...(out.labels || m.labels
+        ? { labels: { ...out.labels, ...m.labels } }
+        : {}),
+    };
+  }
+  return out;
+}
+
+/**
+ * Load, validate and merge the manifests that apply to `cargoPath`.
+ * Returns undefined when there are none.
+ */
+export async function resolveCargoManifest(
+  cargoPath: string,
+): Promise<CargoManifestResolution | undefined> {
+  const sources: string[] = [];
+  const manifests: CargoManifest[] = [];
+
+  for (const path of cargoManifestPaths(cargoPath)) {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      throw error;
+    }
+    manifests.push(parseCargoManifest(text, path));
+    sources.push(path);
+  }
+
+  if (sources.length === 0) return undefined;
+  return { sources, effective: mergeCargoManifests(...manifests) };
+}
@@ -0,0 +1,107 @@
+// manifest_test.ts
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+
+import {
+  mergeCargoManifests,
+  parseCargoManifest,
+  resolveCargoManifest,
+} from "./manifest.ts";
+
+Deno.test("manifest: per-cargo service configuration", async (t) => {
+  await t.step("parses JSON5 and validates fields", () => {
+    const m = parseCargoManifest(
+      `{
+        // comments and trailing commas are fine
+        kind: "sqlite",
+        port: 4100,
+        proxyEndpointPrefix: "/apps/browse/chinook",
+        env: { FOO: "bar", N: 1 },
+      }`,
+      "x.yard.json5",
+    );
+    assertEquals(m.kind, "sqlite");
+    assertEquals(m.port, 4100);
+    assertEquals(m.env, { FOO: "bar", N: 1 });
+  });
+
+  await t.step("rejects unknown keys and bad values with the path", () => {
+    assertThrows(
+      () => parseCargoManifest(`{ prot: 1 }`, "a.yard.json5"),
+      Error,
+      "manifest a.yard.json5",
+    );
+    assertThrows(
+      () => parseCargoManifest(`{ port: 70000 }`, "b.yard.json5"),
+      Error,
+      "port",
+    );
+    assertThrows(
+      () => parseCargoManifest(`{ kind: "duckdb" }`, "d.yard.json5"),
+      Error,
+      "kind",
+    );
+    assertThrows(
+      () => parseCargoManifest(`{ proxyEndpointPrefix: "apps" }`, "c"),
+      Error,
+      "proxyEndpointPrefix",
+    );
+  });
+
+  await t.step("directory manifests refuse per-file settings", () => {
+    for (
+      const text of [
+        `{ port: 4100 }`,
+        `{ proxyEndpointPrefix: "/apps/x" }`,
+        `{ kind: "sqlite" }`,
+      ]
+    ) {
+      assertThrows(
+        () => parseCargoManifest(text, "/cargo/yard.json5"),
+        Error,
+        "would apply to every cargo file",
+      );
+    }
+    assertEquals(
+      parseCargoManifest(`{ port: 4100 }`, "/cargo/a.db.yard.json5").port,
+      4100,
+    );
+    assertEquals(
+      parseCargoManifest(`{ enabled: true }`, "/cargo/yard.json5").enabled,
+      true,
+    );
+  });
+
+  await t.step("file manifest wins; env and labels merge", () => {
+    assertEquals(
+      mergeCargoManifests(
+        { port: 1, env: { A: "1", B: "1" }, labels: { team: "x" } },
+        { port: 2, env: { B: "2" } },
+      ),
+      { port: 2, env: { A: "1", B: "2" }, labels: { team: "x" } },
+    );
+  });
+
+  await t.step("resolves directory then file manifest", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "truth-yard-manifest-" });
+    try {
+      const db = join(dir, "cargo.sqlite.db");
+      assertEquals(await resolveCargoManifest(db), undefined);
+
+      await Deno.writeTextFile(
+        join(dir, "yard.json5"),
+        `{ labels: { env: "dev" } }`,
+      );
+      await Deno.writeTextFile(`${db}.yard.json5`, `{ enabled: false }`);
+
+      const r = await resolveCargoManifest(db);
+      assertEquals(r?.sources, [join(dir, "yard.json5"), `${db}.yard.json5`]);
+      assertEquals(r?.effective, { labels: { env: "dev" }, enabled: false });
+
+      await Deno.writeTextFile(`${db}.yard.json5`, `{ enabled: "yes" }`);
+      await assertRejects(() => resolveCargoManifest(db), Error, "enabled");
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
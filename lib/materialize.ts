@@ -5,7 +5,33 @@ import { basename, dirname, join, resolve } from "@std/path";
 import type { Path } from "./discover.ts";
 import { encounters, fileSystemSource } from "./discover.ts";
 import type { ExposableService } from "./exposable.ts";
+import {
+  type CargoManifest,
+  type CargoManifestResolution,
+  isCargoManifestPath,
+  resolveCargoManifest,
+} from "./manifest.ts";
+import type { SqliteDataSupplier } from "./tabular.ts";
+import {
+  type CargoFingerprint,
+  cargoFingerprint,
+  fingerprintChanged,
+} from "./fingerprint.ts";
+import { healthMonitor, type HealthMonitorOptions } from "./health-monitor.ts";
+import { hostLeases, type HostLeaseStore } from "./host-lease.ts";
+import { combineListeners, eventJournal } from "./journal.ts";
+import {
+  logRotationEnabled,
+  type LogRotationOptions,
+  logRotator,
+} from "./log-rotate.ts";
+import {
+  proxyConfRegenerator,
+  proxyConfWatchEnabled,
+  type ProxyConfWatchOptions,
+} from "./proxy-conf-watch.ts";
 import { richTextUISpawnEvents } from "./spawn-event.ts";
+import { supervisor, type SupervisorOptions } from "./supervisor.ts";
 import {
   isPidAlive,
   killPID,
@@ -13,11 +39,18 @@ import {
   spawn,
   type SpawnedContext,
   type SpawnEventListener,
+  type SpawnLedgerNature,
   type SpawnSummary,
   type TaggedProcess,
   taggedProcesses,
 } from "./spawn.ts";
-import { proxyPrefixFromRel, relDirFromRoots, relFromRoots } from "./path.ts";
+import {
+  proxyPrefixFromRel,
+  relDirFromRoots,
+  relFromRoots,
+  underRoots,
+} from "./path.ts";
+import { portLeases } from "./port-lease.ts";
 
 export function sortableDateTimeText(d = new Date()): string {
   function fmt2(n: number): string {
@@ -64,6 +97,46 @@ export type MaterializeWatchOptions = Readonly<{
    * Default: false (kill by provenance only).
    */
   strictKillsOnly?: boolean;
+
+  /**
+   * Liveness supervision: respawn services that exit on their own, with
+   * per-service backoff and a crash-loop cutoff. Enabled by default.
+   */
+  supervise?: SupervisorOptions;
+
+  /**
+   * Content fingerprinting: when a cargo file is replaced or rewritten in place
+   * (same DB set, different content), gracefully restart just that service on
+   * the same port and prefix. Compares size + mtime, or SHA-256 when `hash`.
+   *
+   * Default: disabled.
+   */
+  restartOnChange?: Readonly<{ enabled?: boolean; hash?: boolean }>;
+
+  /**
+   * Periodic HTTP probing of every service's probe URL, recorded in
+   * `<name>.health.jsonl`; optionally restarts services that stay unhealthy.
+   *
+   * Default: disabled.
+   */
+  health?: HealthMonitorOptions;
+
+  /**
+   * Size/time-based rotation of the services' stdout/stderr ledger logs,
+   * checked every `intervalMs`.
+   *
+   * Default: disabled (enabled by setting `maxBytes` or `maxAgeMs`).
+   */
+  logRotation?: LogRotationOptions;
+
+  /**
+   * Regenerate these reverse proxy configs after every reconcile pass (only
+   * files whose content changed are written) and run a reload command when
+   * anything changed.
+   *
+   * Default: disabled (enabled by setting an output directory).
+   */
+  proxyConf?: ProxyConfWatchOptions;
 }>;
 
 export type MaterializeOptions = Readonly<{
@@ -80,6 +153,27 @@ export type MaterializeOptions = Readonly<{
    */
   startPort?: number;
 
+  /**
+   * Readiness probe after each spawn (off by default). The outcome is written
+   * into the context as `health`; manifests may set a per-cargo probe path.
+   */
+  probe?: Readonly<{ enabled?: boolean; timeoutMs?: number }>;
+
+  /**
+   * Advisory per-cargo host leases in `<spawnedLedgerHome>/host-leases` so
+   * hosts sharing a cargo volume and ledger launch each vessel once. Watch
+   * mode only (enabled there by default): it renews the leases of its running
+   * services every `ttlMs / 3` (default TTL 300000). One-shot runs would leave
+   * leases to expire under live services, so they refuse `enabled: true`.
+   */
+  hostLeases?: Readonly<{ enabled?: boolean; ttlMs?: number }>;
+
+  /**
+   * If true (default), each cargo keeps the port it last listened on across
+   * restarts (leases in `<spawnedLedgerHome>/port-leases.json`).
+   */
+  stickyPorts?: boolean;
+
   /**
    * If true (default), materialize will use taggedProcesses() (Linux-only)
    * to avoid spawning services that are already running.
@@ -103,23 +197,51 @@ export type MaterializeResult = Readonly<{
   sessionId?: string;
 }>;
 
+export type LedgerRespawn = Readonly<{
+  results: MaterializeResult[];
+
+  /**
+   * Entries that were not attempted, e.g. because their cargo is gone.
+   */
+  failed: ReadonlyArray<Readonly<{ contextPath: string; error: unknown }>>;
+}>;
+
 export function spawnedLedgerPathForEntry(
   entry: ExposableService,
-  nature: "context" | "stdout" | "stderr",
+  nature: SpawnLedgerNature,
   args: Readonly<{ sessionHome: string; rootsAbs: readonly string[] }>,
 ): string | undefined {
   const fileAbs = Deno.realPathSync(resolve(entry.supplier.location));
 
-  const relFromRoot = relFromRoots(fileAbs, args.rootsAbs);
-  const relDir = relDirFromRoots(fileAbs, args.rootsAbs);
+  if (nature === "context") {
+    return spawnedLedgerPathForProvenance(fileAbs, ".context.json", args);
+  }
+  if (nature === "stdout") {
+    return spawnedLedgerPathForProvenance(fileAbs, ".stdout.log", args);
+  }
+  if (nature === "stderr") {
+    return spawnedLedgerPathForProvenance(fileAbs, ".stderr.log", args);
+  }
+  if (nature === "derived") {
+    return spawnedLedgerPathForProvenance(fileAbs, ".derived.sqlite.db", args);
+  }
+  return undefined;
+}
+
+/**
+ * Ledger file for a provenance (absolute cargo path) inside a session home,
+ * mirroring the cargo layout: `<sessionHome>/<relDir>/<fileName><suffix>`.
+ */
+export function spawnedLedgerPathForProvenance(
+  provenance: string,
+  suffix: string,
+  args: Readonly<{ sessionHome: string; rootsAbs: readonly string[] }>,
+): string {
+  const relFromRoot = relFromRoots(provenance, args.rootsAbs);
+  const relDir = relDirFromRoots(provenance, args.rootsAbs);
 
   const outDir = relDir ? join(args.sessionHome, relDir) : args.sessionHome;
-  const fileName = basename(relFromRoot);
-
-  if (nature === "context") return join(outDir, `${fileName}.context.json`);
-  if (nature === "stdout") return join(outDir, `${fileName}.stdout.log`);
-  if (nature === "stderr") return join(outDir, `${fileName}.stderr.log`);
-  return undefined;
+  return join(outDir, `${basename(relFromRoot)}${suffix}`);
 }
 
 function onEventForVerbose(
@@ -131,6 +253,16 @@ function onEventForVerbose(
   return undefined;
 }
 
+/**
+ * Console output per verbosity, plus the session's `events.jsonl` journal.
+ */
+function sessionEventListener(
+  v: MaterializeVerbose,
+  sessionHome: string,
+): SpawnEventListener | undefined {
+  return combineListeners(onEventForVerbose(v), eventJournal(sessionHome));
+}
+
 function normalizeProvenanceKey(p: string): string {
   // taggedProcesses() emits real paths in TRUTH_YARD_PROVENANCE; normalize to resolve() for stable compare.
   return resolve(String(p ?? ""));
@@ -183,6 +315,197 @@ async function killByRemovedPath(
   return killedAny;
 }
 
+/* ----------------------------- sqlite browse ----------------------------- */
+
+/**
+ * Marker file name that opts plain SQLite cargo into the generic browser:
+ * - `<dir>/.yard-browse` opts in every plain SQLite file in that directory
+ * - `<file>.yard-browse` opts in a single database file
+ */
+export const SQLITE_BROWSE_MARKER = ".yard-browse";
+
+function isBrowseMarker(p: string): boolean {
+  return p.endsWith(SQLITE_BROWSE_MARKER);
+}
+
+function sqliteBrowseOptIn(
+  s: SqliteDataSupplier,
+  manifestFor: ManifestLookup,
+): Promise<boolean> {
+  return browseOptedIn(cargoAbs(s.dbPath), manifestFor);
+}
+
+async function browseOptedIn(
+  fileAbs: string,
+  manifestFor: ManifestLookup,
+): Promise<boolean> {
+  try {
+    if ((await manifestFor(fileAbs))?.effective.enabled === true) return true;
+  } catch {
+    // invalid manifest: not an opt-in
+  }
+
+  for (
+    const marker of [
+      `${fileAbs}${SQLITE_BROWSE_MARKER}`,
+      join(dirname(fileAbs), SQLITE_BROWSE_MARKER),
+    ]
+  ) {
+    try {
+      if ((await Deno.stat(marker)).isFile) return true;
+    } catch {
+      // missing marker
+    }
+  }
+  return false;
+}
+
+/**
+ * Stop the db-browsers whose opt-in went away with `removedMarkers`: the
+ * cargo a marker covered is killed unless another marker or a manifest still
+ * opts it in, like cargo that was removed.
+ */
+async function killByRemovedBrowseMarkers(
+  removedMarkers: readonly string[],
+  args: Readonly<{
+    strictKillsOnly: boolean;
+    sessionId: string;
+    taggedByProv: Map<string, TaggedProcess[]>;
+  }>,
+): Promise<boolean> {
+  const covered = (marker: string, prov: string) => {
+    const dir = cargoAbs(dirname(marker));
+    return basename(marker) === SQLITE_BROWSE_MARKER
+      ? dirname(prov) === dir
+      : join(dir, basename(marker)) === `${prov}${SQLITE_BROWSE_MARKER}`;
+  };
+
+  const manifestFor = manifestLookup();
+  let killedAny = false;
+
+  for (const [prov, hits] of args.taggedByProv) {
+    if (!removedMarkers.some((m) => covered(m, prov))) continue;
+    if (await browseOptedIn(prov, manifestFor)) continue;
+
+    for (const tp of hits) {
+      if (tp.kind !== "sqlite") continue;
+      if (args.strictKillsOnly && tp.sessionId !== args.sessionId) continue;
+      await killPID(tp.pid);
+      killedAny = true;
+    }
+  }
+
+  return killedAny;
+}
+
+/* ------------------------------- manifests ------------------------------- */
+
+type ManifestLookup = (
+  cargoPath: string,
+) => Promise<CargoManifestResolution | undefined>;
+
+/**
+ * Memoized manifest resolution for one materialize pass (the same manifest
+ * is consulted for kind override, browse opt-in and the expose decision).
+ */
+function manifestLookup(): ManifestLookup {
+  const memo = new Map<string, Promise<CargoManifestResolution | undefined>>();
+  return (cargoPath) => {
+    let p = memo.get(cargoPath);
+    if (!p) {
+      p = resolveCargoManifest(cargoPath);
+      memo.set(cargoPath, p);
+    }
+    return p;
+  };
+}
+
+function cargoAbs(location: string): string {
+  try {
+    return Deno.realPathSync(resolve(location));
+  } catch {
+    return resolve(location);
+  }
+}
+
+/**
+ * Map a manifest onto the ExposableServiceConf keys of a service kind.
+ */
+function manifestServiceConf(
+  kind: ExposableService["kind"],
+  m: CargoManifest,
+): Record<string, unknown> {
+  const conf: Record<string, unknown> = {};
+  const binKey = kind === "excel" ? "sqlite.bin" : `${kind}.bin`;
+  if (m.bin) conf[binKey] = m.bin;
+  if (m.args) conf[`${kind}.args`] = m.args;
+  if (m.env) conf[`${kind}.env`] = m.env;
+  return conf;
+}
+
+type ChangedCargo = Readonly<{
+  tp: TaggedProcess;
+  provenance: string;
+  previous: CargoFingerprint;
+  current: CargoFingerprint;
+}>;
+
+/**
+ * Tagged processes under `rootsAbs` whose cargo no longer matches the
+ * fingerprint recorded in their ledger context.
+ */
+async function changedCargoProcesses(
+  rootsAbs: readonly string[],
+  args: Readonly<
+    { hash: boolean; strictKillsOnly: boolean; sessionId: string }
+  >,
+): Promise<ChangedCargo[]> {
+  const out: ChangedCargo[] = [];
+  if (Deno.build.os !== "linux") return out;
+
+  for await (const tp of taggedProcesses()) {
+    if (args.strictKillsOnly && tp.sessionId !== args.sessionId) continue;
+
+    const provenance = normalizeProvenanceKey(tp.provenance);
+    if (!underRoots(provenance, rootsAbs)) continue;
+
+    const previous = tp.context?.supplier?.fingerprint;
+    if (!previous) continue;
+
+    let current: CargoFingerprint;
+    try {
+      current = await cargoFingerprint(provenance, {
+        hash: args.hash && previous.sha256 !== undefined,
+      });
+    } catch {
+      continue; // removed cargo is handled by the DB set diff
+    }
+
+    if (fingerprintChanged(previous, current)) {
+      out.push({ tp, provenance, previous, current });
+    }
+  }
+
+  return out;
+}
+
+function hostLeaseStoreFor(
+  opts: MaterializeOptions,
+): HostLeaseStore | undefined {
+  if (opts.hostLeases?.enabled === false) return undefined;
+  return hostLeases(resolve(opts.spawnedLedgerHome), {
+    ttlMs: opts.hostLeases?.ttlMs,
+  });
+}
+
+function refuseOneShotHostLeases(opts: MaterializeOptions): void {
+  if (opts.hostLeases?.enabled === true) {
+    throw new Error(
+      "host leases need watch mode: a one-shot run cannot renew them",
+    );
+  }
+}
+
 async function materializeOnce(
   srcPaths: Iterable<Path>,
   opts: MaterializeOptions,
@@ -190,12 +513,27 @@ async function materializeOnce(
     sessionHome: string;
     rootsAbs: readonly string[];
     sessionId: string;
+
+    /**
+     * Optional gate by provenance key; services it rejects are skipped.
+     */
+    admit?: (provenance: string) => boolean;
+
+    /**
+     * Optional pinned ports by provenance key (restart in place).
+     */
+    ports?: ReadonlyMap<string, number>;
+
+    /**
+     * Host leases to claim before spawning (watch mode only).
+     */
+    hostLeases?: HostLeaseStore;
   }>,
 ): Promise<MaterializeResult> {
   const src = Array.from(srcPaths);
   const smartSpawn = opts.smartSpawn ?? true;
 
-  const onEvent = onEventForVerbose(opts.verbose);
+  const onEvent = sessionEventListener(opts.verbose, args.sessionHome);
 
   const spawned: SpawnedContext[] = [];
 
@@ -203,9 +541,11 @@ async function materializeOnce(
     ? await buildRunningProvenanceIndex()
     : new Set<string>();
 
+  const manifestFor = manifestLookup();
+
   const spawnedLedgerPath = (
     entry: ExposableService,
-    nature: "context" | "stdout" | "stderr",
+    nature: SpawnLedgerNature,
   ): string | undefined =>
     spawnedLedgerPathForEntry(entry, nature, {
       sessionHome: args.sessionHome,
@@ -213,24 +553,29 @@ async function materializeOnce(
     });
 
   const expose = async (entry: ExposableService, _candidate: string) => {
+    let provKey: string;
+    try {
+      const prov = Deno.realPathSync(resolve(entry.supplier.location));
+      provKey = normalizeProvenanceKey(prov);
+    } catch {
+      // If we can't resolve, don't block spawning; fallback to allowing.
+      provKey = normalizeProvenanceKey(resolve(entry.supplier.location));
+    }
+
     // Smart spawn gating (Linux-only taggedProcesses). If not Linux, runningProvenance is empty.
-    if (smartSpawn) {
-      let provKey: string;
-      try {
-        const prov = Deno.realPathSync(resolve(entry.supplier.location));
-        provKey = normalizeProvenanceKey(prov);
-      } catch {
-        // If we can't resolve, don't block spawning; fallback to allowing.
-        provKey = normalizeProvenanceKey(resolve(entry.supplier.location));
-      }
+    if (smartSpawn && runningProvenance.has(provKey)) return false;
 
-      if (runningProvenance.has(provKey)) return false;
-    }
+    if (args.admit && !args.admit(provKey)) return false;
 
     const fileAbs = Deno.realPathSync(resolve(entry.supplier.location));
     const relFromRoot = relFromRoots(fileAbs, args.rootsAbs);
     const proxyEndpointPrefix = proxyPrefixFromRel(relFromRoot);
 
+    // Invalid manifests throw here and are reported as expose errors.
+    const manifest = await manifestFor(fileAbs);
+    const m = manifest?.effective;
+    if (m?.enabled === false) return false;
+
     const exposableServiceConf: Record<string, unknown> = {};
     const dotEnvPath = join(dirname(fileAbs), ".env");
     try {
@@ -239,16 +584,43 @@ async function materializeOnce(
     } catch {
       // ignore if .env missing or unreadable
     }
+    if (m) {
+      Object.assign(exposableServiceConf, manifestServiceConf(entry.kind, m));
+    }
 
-    return { proxyEndpointPrefix, exposableServiceConf } as const;
+    return {
+      proxyEndpointPrefix: m?.proxyEndpointPrefix ?? proxyEndpointPrefix,
+      exposableServiceConf,
+      port: args.ports?.get(provKey) ?? m?.port,
+      portFallback: args.ports?.has(provKey),
+      probeUrl: m?.probe,
+      manifest,
+      hostLeaseKey: relFromRoot,
+    } as const;
   };
 
   const gen = spawn(src, expose, spawnedLedgerPath, {
     onEvent,
-    probe: { enabled: false },
+    browseSqlite: (s) => sqliteBrowseOptIn(s, manifestFor),
+    kindOverride: async (s) => {
+      try {
+        return (await manifestFor(cargoAbs(s.location)))?.effective.kind;
+      } catch {
+        return undefined; // reported by expose()
+      }
+    },
+    probe: {
+      enabled: opts.probe?.enabled ?? false,
+      timeoutMs: opts.probe?.timeoutMs,
+    },
+    fingerprintHash: opts.watch?.restartOnChange?.hash,
     sessionId: args.sessionId,
     listenHost: opts.listenHost,
     portStart: opts.startPort,
+    portLeases: opts.stickyPorts === false
+      ? undefined
+      : portLeases(resolve(opts.spawnedLedgerHome)),
+    hostLeases: args.hostLeases,
   });
 
   while (true) {
@@ -274,6 +646,7 @@ export async function materialize(
   srcPaths: Iterable<Path>,
   opts: MaterializeOptions,
 ): Promise<MaterializeResult> {
+  refuseOneShotHostLeases(opts);
   const src = Array.from(srcPaths);
 
   const rootsAbs = src.map((p) => Deno.realPathSync(resolve(p.path)));
@@ -293,12 +666,104 @@ export async function materialize(
   });
 }
 
+/**
+ * Respawn services from their ledger contexts (for example contexts whose
+ * process died), each into the session directory that holds its context, on
+ * its previous port and with its previous sessionId. Cargo that is already
+ * running is left alone (smart spawn). An entry whose cargo or cargo root
+ * cannot be resolved any more, or an adopted context (whose cargo root and
+ * kind were guessed), is reported in `failed` and does not hold up the
+ * others.
+ */
+export async function respawnFromLedger(
+  entries: Iterable<Readonly<{ contextPath: string; context: SpawnedContext }>>,
+  opts: MaterializeOptions,
+): Promise<LedgerRespawn> {
+  refuseOneShotHostLeases(opts);
+  type Group = {
+    src: Path;
+    rootAbs: string;
+    sessionHome?: string;
+    sessionId: string;
+    provenances: Set<string>;
+    ports: Map<string, number>;
+  };
+  const groups = new Map<string, Group>();
+  const failed: Array<{ contextPath: string; error: unknown }> = [];
+
+  for (const { contextPath, context } of entries) {
+    if (context.adoptedAt) {
+      failed.push({
+        contextPath,
+        error: new Error("adopted context: cargo root and kind are unknown"),
+      });
+      continue;
+    }
+    const src = context.supplier.srcPath;
+    let rootAbs: string;
+    let prov: string;
+    try {
+      rootAbs = Deno.realPathSync(resolve(src.path));
+      prov = normalizeProvenanceKey(
+        Deno.realPathSync(resolve(context.supplier.location)),
+      );
+    } catch (error) {
+      failed.push({ contextPath, error });
+      continue;
+    }
+
+    const suffix = `${relFromRoots(prov, [rootAbs])}.context.json`;
+    const ctxAbs = resolve(contextPath);
+    const sessionHome = ctxAbs.endsWith(`/${suffix}`)
+      ? ctxAbs.slice(0, -(suffix.length + 1))
+      : undefined;
+
+    const key = JSON.stringify([
+      rootAbs,
+      sessionHome,
+      context.session.sessionId,
+    ]);
+    const g = groups.get(key) ?? {
+      src,
+      rootAbs,
+      sessionHome,
+      sessionId: context.session.sessionId,
+      provenances: new Set<string>(),
+      ports: new Map<string, number>(),
+    };
+    g.provenances.add(prov);
+    if (typeof context.listen?.port === "number") {
+      g.ports.set(prov, context.listen.port);
+    }
+    groups.set(key, g);
+  }
+
+  const results: MaterializeResult[] = [];
+  for (const g of groups.values()) {
+    const sessionHome = g.sessionHome ??
+      (await createSpawnSessionHome(opts.spawnedLedgerHome)).sessionHome;
+    results.push(
+      await materializeOnce([g.src], { ...opts, smartSpawn: true }, {
+        sessionHome,
+        rootsAbs: [g.rootAbs],
+        sessionId: g.sessionId,
+        admit: (provenance) => g.provenances.has(provenance),
+        ports: g.ports,
+      }),
+    );
+  }
+  return { results, failed };
+}
+
 /**
  * Watch mode:
  * - remove => kill
  * - create/modify/other => rerun materializeOnce in smartSpawn mode (reconciles via expose gating)
+ * - cargo content changed (opt-in) => restart just that service on the same port/prefix
+ * - process exits on its own => respawned after a per-service backoff (see supervisor.ts)
  *
- * Yields a MaterializeResult for the initial run and then after each debounced event batch.
+ * Yields a MaterializeResult for the initial run, after each debounced event batch,
+ * and after each supervisor respawn pass.
  */
 export async function* materializeWatch(
   srcPaths: Iterable<Path>,
@@ -325,15 +790,90 @@ export async function* materializeWatch(
   const debounceMs = watch?.debounceMs ?? 750;
   const strictKillsOnly = watch?.strictKillsOnly ?? false;
 
+  const restartOnChange = watch?.restartOnChange?.enabled ?? false;
+  const restartHash = watch?.restartOnChange?.hash ?? false;
+
+  const superviseEnabled = watch?.supervise?.enabled ?? true;
+  const livenessMs = watch?.supervise?.intervalMs ?? 2_000;
+  const sup = supervisor(watch?.supervise ?? {}, {
+    session: {
+      sessionId,
+      host: { identity: "supervisor", pid: Deno.pid },
+      startedAt: new Date().toISOString(),
+    },
+    rootsAbs,
+    onEvent: sessionEventListener(opts.verbose, session.sessionHome),
+    ledgerPath: (provenance) =>
+      spawnedLedgerPathForProvenance(provenance, ".supervisor.jsonl", {
+        sessionHome: session.sessionHome,
+        rootsAbs,
+      }),
+  });
+  let nextLivenessAt = Date.now() + livenessMs;
+
+  const healthEnabled = watch?.health?.enabled ?? false;
+  const healthIntervalMs = watch?.health?.intervalMs ?? 10_000;
+  const health = healthMonitor(watch?.health ?? {}, {
+    session: {
+      sessionId,
+      host: { identity: "health-monitor", pid: Deno.pid },
+      startedAt: new Date().toISOString(),
+    },
+    rootsAbs,
+    onEvent: sessionEventListener(opts.verbose, session.sessionHome),
+    strictKillsOnly,
+    sessionId,
+  });
+  let nextHealthAt = Date.now() + healthIntervalMs;
+
+  const rotateEnabled = logRotationEnabled(watch?.logRotation);
+  const rotateIntervalMs = watch?.logRotation?.intervalMs ?? 60_000;
+  const rotator = logRotator(watch?.logRotation ?? {}, {
+    session: {
+      sessionId,
+      host: { identity: "log-rotator", pid: Deno.pid },
+      startedAt: new Date().toISOString(),
+    },
+    rootsAbs,
+    onEvent: sessionEventListener(opts.verbose, session.sessionHome),
+  });
+  let nextRotateAt = Date.now() + rotateIntervalMs;
+
+  const proxyConfEnabled = proxyConfWatchEnabled(watch?.proxyConf);
+  const proxyConfs = proxyConfRegenerator(watch?.proxyConf ?? {}, {
+    session: {
+      sessionId,
+      host: { identity: "proxy-conf", pid: Deno.pid },
+      startedAt: new Date().toISOString(),
+    },
+    onEvent: sessionEventListener(opts.verbose, session.sessionHome),
+  });
+
+  // Every pass that may have spawned or killed services ends here.
+  const settled = async (res: MaterializeResult) => {
+    if (proxyConfEnabled) await proxyConfs.check();
+    return res;
+  };
+
+  const leaseStore = hostLeaseStoreFor(opts);
+  const renewEveryMs = leaseStore ? Math.max(1_000, leaseStore.ttlMs / 3) : 0;
+  let nextRenewAt = Date.now() + renewEveryMs;
+
+  // Services in backoff (or abandoned) must not be respawned by a reconcile pass.
+  const admit = (provenance: string) => !sup.blocked(provenance);
+
   // Initial run
-  yield await materializeOnce(src, {
+  const initial = await materializeOnce(src, {
     ...opts,
     smartSpawn: opts.smartSpawn ?? true,
   }, {
     sessionHome: session.sessionHome,
     rootsAbs,
     sessionId,
+    hostLeases: leaseStore,
   });
+  sup.track(initial.spawned);
+  yield await settled(initial);
 
   // Watch all roots (best effort). If a srcPath is a file, watchFs will still work.
   // Watch all roots (best effort). If a srcPath is a file, watchFs will still work.
@@ -346,7 +886,9 @@ export async function* materializeWatch(
     if (/-wal$/i.test(s) || /-shm$/i.test(s) || /-journal$/i.test(s)) {
       return false;
     }
-    return /\.(sqlite(\.db)?|db)$/i.test(s);
+    // opt-in markers and manifests count too, so creating/removing one reconciles
+    if (isBrowseMarker(s) || isCargoManifestPath(s)) return true;
+    return /\.(sqlite(\.db)?|db|duckdb|xlsx)$/i.test(s);
   };
 
   const listDbCandidates = async (
@@ -411,9 +953,124 @@ export async function* materializeWatch(
   let nextP = it.next();
 
   while (true) {
-    // Wait for first event
-    const first = await nextP;
-    if (first.done) break;
+    // Wait for first event, or the next liveness/health check when enabled
+    let livenessTimer: ReturnType<typeof setTimeout> | undefined;
+    let healthTimer: ReturnType<typeof setTimeout> | undefined;
+    let renewTimer: ReturnType<typeof setTimeout> | undefined;
+    let rotateTimer: ReturnType<typeof setTimeout> | undefined;
+    const woke = await Promise.race([
+      nextP.then((r) => ({ kind: "next" as const, r })),
+      ...(superviseEnabled
+        ? [
+          new Promise<{ kind: "liveness" }>((r) => {
+            livenessTimer = setTimeout(
+              () => r({ kind: "liveness" }),
+              Math.max(0, nextLivenessAt - Date.now()),
+            );
+          }),
+        ]
+        : []),
+      ...(healthEnabled
+        ? [
+          new Promise<{ kind: "health" }>((r) => {
+            healthTimer = setTimeout(
+              () => r({ kind: "health" }),
+              Math.max(0, nextHealthAt - Date.now()),
+            );
+          }),
+        ]
+        : []),
+      ...(leaseStore
+        ? [
+          new Promise<{ kind: "renew" }>((r) => {
+            renewTimer = setTimeout(
+              () => r({ kind: "renew" }),
+              Math.max(0, nextRenewAt - Date.now()),
+            );
+          }),
+        ]
+        : []),
+      ...(rotateEnabled
+        ? [
+          new Promise<{ kind: "rotate" }>((r) => {
+            rotateTimer = setTimeout(
+              () => r({ kind: "rotate" }),
+              Math.max(0, nextRotateAt - Date.now()),
+            );
+          }),
+        ]
+        : []),
+    ]);
+    clearTimeout(livenessTimer);
+    clearTimeout(healthTimer);
+    clearTimeout(renewTimer);
+    clearTimeout(rotateTimer);
+
+    if (woke.kind === "rotate") {
+      nextRotateAt = Date.now() + rotateIntervalMs;
+      await rotator.check();
+      continue;
+    }
+
+    if (woke.kind === "renew") {
+      nextRenewAt = Date.now() + renewEveryMs;
+      if (leaseStore) await renewHostLeases(leaseStore, rootsAbs);
+      continue;
+    }
+
+    if (woke.kind === "health") {
+      nextHealthAt = Date.now() + healthIntervalMs;
+      const restarts = await health.check();
+      if (restarts.length === 0) continue;
+
+      // Restart in place, like a cargo change
+      const ports = new Map<string, number>();
+      for (const r of restarts) {
+        const port = r.process.context?.listen?.port;
+        if (typeof port === "number") ports.set(r.provenance, port);
+        await killPID(r.process.pid);
+      }
+
+      const res = await materializeOnce(
+        src,
+        { ...opts, smartSpawn: opts.smartSpawn ?? true },
+        {
+          sessionHome: session.sessionHome,
+          rootsAbs,
+          sessionId,
+          admit: (provenance) =>
+            restarts.some((r) => r.provenance === provenance),
+          ports,
+          hostLeases: leaseStore,
+        },
+      );
+      sup.track(res.spawned);
+      yield await settled(res);
+      continue;
+    }
+
+    if (woke.kind === "liveness") {
+      nextLivenessAt = Date.now() + livenessMs;
+      const due = await sup.check();
+      if (due.size === 0) continue;
+
+      const res = await materializeOnce(
+        src,
+        { ...opts, smartSpawn: opts.smartSpawn ?? true },
+        {
+          sessionHome: session.sessionHome,
+          rootsAbs,
+          sessionId,
+          admit: (provenance) => due.has(provenance),
+          hostLeases: leaseStore,
+        },
+      );
+      sup.respawned(due, res.spawned);
+      yield await settled(res);
+      continue;
+    }
+
+    if (woke.r.done) break;
 
     // Debounce: keep consuming events until quiet for debounceMs
     while (true) {
@@ -435,6 +1092,48 @@ export async function* materializeWatch(
       // We will re-scan and diff after the debounce window.
     }
 
+    // Content changes: restart only the affected services, in place
+    if (restartOnChange) {
+      const changed = await changedCargoProcesses(rootsAbs, {
+        hash: restartHash,
+        strictKillsOnly,
+        sessionId,
+      });
+
+      if (changed.length > 0) {
+        const ports = new Map<string, number>();
+        for (const c of changed) {
+          await sup.record(c.provenance, {
+            type: "cargo_changed",
+            serviceId: c.tp.serviceId,
+            provenance: c.provenance,
+            pid: c.tp.pid,
+            previous: c.previous,
+            current: c.current,
+          });
+          const port = c.tp.context?.listen?.port;
+          if (typeof port === "number") ports.set(c.provenance, port);
+          await killPID(c.tp.pid);
+        }
+
+        const res = await materializeOnce(
+          src,
+          { ...opts, smartSpawn: opts.smartSpawn ?? true },
+          {
+            sessionHome: session.sessionHome,
+            rootsAbs,
+            sessionId,
+            admit: (provenance) =>
+              changed.some((c) => c.provenance === provenance),
+            ports,
+            hostLeases: leaseStore,
+          },
+        );
+        sup.track(res.spawned);
+        yield await settled(res);
+      }
+    }
+
     // After debounce, compute actual set and diff
     const current = await listDbCandidates(rootsToWatch);
     const { added, removed } = diffSets(snapshot, current);
@@ -455,17 +1154,51 @@ export async function* materializeWatch(
           taggedByProv,
         });
       }
+      await killByRemovedBrowseMarkers(removed.filter(isBrowseMarker), {
+        strictKillsOnly,
+        sessionId,
+        taggedByProv,
+      });
     }
 
     // Reconcile spawn only when DB set changed
     const res = await materializeOnce(
       src,
       { ...opts, smartSpawn: opts.smartSpawn ?? true },
-      { sessionHome: session.sessionHome, rootsAbs, sessionId },
+      {
+        sessionHome: session.sessionHome,
+        rootsAbs,
+        sessionId,
+        admit,
+        hostLeases: leaseStore,
+      },
     );
+    sup.track(res.spawned);
 
     snapshot = current;
-    yield res;
+    yield await settled(res);
+  }
+}
+
+/**
+ * Keep this host's leases alive for every service it is running under
+ * `rootsAbs` (Linux only, like taggedProcesses()).
+ */
+async function renewHostLeases(
+  store: HostLeaseStore,
+  rootsAbs: readonly string[],
+): Promise<void> {
+  if (Deno.build.os !== "linux") return;
+  for await (const tp of taggedProcesses()) {
+    const prov = normalizeProvenanceKey(tp.provenance);
+    if (!underRoots(prov, rootsAbs)) continue;
+    try {
+      await store.renew(
+        tp.context?.hostLease?.key ?? relFromRoots(prov, rootsAbs),
+      );
+    } catch {
+      // retried on the next round
+    }
   }
 }
 
@@ -0,0 +1,300 @@
+// lib/operator-actions.ts
+import { dirname, resolve } from "@std/path";
+
+import { eventJournal, resolveEventsJournal } from "./journal.ts";
+import {
+  materialize,
+  type MaterializeOptions,
+  respawnFromLedger,
+} from "./materialize.ts";
+import {
+  isPidAlive,
+  type SpawnedContext,
+  type SpawnEvent,
+  type SpawnEventPayload,
+  type TaggedProcess,
+  taggedProcesses,
+} from "./spawn.ts";
+import { ledgerSessionOf, stopTaggedProcess } from "./stop.ts";
+
+/**
+ * Operator actions on a ledger (the web UI's control endpoints).
+ *
+ * - `stop` stops a running service like `yard stop`
+ * - `restart` stops it and spawns it again in its session, on its port
+ * - `respawn` spawns a service whose process is gone from its context
+ * - `materialize` runs a smart-spawn pass over the cargo home into a new
+ *   session, starting whatever is not running yet
+ *
+ * Only services whose context lives in this ledger are touched. Actions run
+ * one at a time, and each one, successful or not, is journaled as an
+ * `operator_action` event with the actor who triggered it: into the
+ * service's session, or for `materialize` into the session it created (the
+ * current session when it failed).
+ */
+export type OperatorActionKind = Extract<
+  SpawnEventPayload,
+  { type: "operator_action" }
+>["action"];
+
+export type OperatorActor = Readonly<{
+  /**
+   * Authenticated user name (or "anonymous").
+   */
+  name: string;
+
+  /**
+   * Where the action came from, e.g. `web-ui 10.0.0.7`.
+   */
+  via: string;
+
+  /**
+   * Whether the actor may act on a service with this proxy prefix. Absent
+   * for an unrestricted actor; when present, services without a prefix are
+   * refused since no rule can vouch for them.
+   */
+  mayReach?: (proxyEndpointPrefix: string) => boolean;
+}>;
+
+export type OperatorActionOptions = Readonly<{
+  ledgerHome: string;
+
+  /**
+   * Cargo root for `materialize`; without it materialize is refused.
+   */
+  cargoHome?: string;
+
+  /**
+   * SIGTERM grace period for stop/restart (default 2000).
+   */
+  graceMs?: number;
+
+  materialize?: Partial<MaterializeOptions>;
+
+  /**
+   * Source of tagged processes (default taggedProcesses()).
+   */
+  states?: () => AsyncIterable<TaggedProcess>;
+}>;
+
+export type OperatorActionResult = Readonly<{
+  action: OperatorActionKind;
+  ok: boolean;
+  serviceId?: string;
+  pid?: number;
+  contextPath?: string;
+  newPid?: number;
+  sessionHome?: string;
+  spawned?: number;
+  error?: string;
+}>;
+
+// filled in by an action as it learns about its target
+type ResultDraft = {
+  -readonly [K in keyof OperatorActionResult]?: OperatorActionResult[K];
+};
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function operatorActions(opts: OperatorActionOptions) {
+  const ledgerHome = resolve(opts.ledgerHome);
+  const states = opts.states ?? (() => taggedProcesses());
+  const t0 = performance.now();
+  const session = {
+    sessionId: crypto.randomUUID(),
+    host: { identity: "operator", pid: Deno.pid },
+    startedAt: new Date().toISOString(),
+  };
+  const materializeOpts: MaterializeOptions = {
+    verbose: false,
+    spawnedLedgerHome: ledgerHome,
+    ...opts.materialize,
+  };
+
+  // one action at a time
+  let tail: Promise<unknown> = Promise.resolve();
+  const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = tail.then(fn, fn);
+    tail = run.catch(() => {});
+    return run;
+  };
+
+  const record = async (
+    sessionHome: string | undefined,
+    actor: OperatorActor,
+    result: OperatorActionResult,
+  ) => {
+    let home = sessionHome;
+    if (!home) {
+      try {
+        home = dirname(await resolveEventsJournal(ledgerHome));
+      } catch {
+        return; // no session to record into
+      }
+    }
+    await eventJournal(home)({
+      session,
+      ts: new Date().toISOString(),
+      tMs: performance.now() - t0,
+      type: "operator_action",
+      action: result.action,
+      actor: actor.name,
+      via: actor.via,
+      ok: result.ok,
+      serviceId: result.serviceId,
+      pid: result.pid,
+      contextPath: result.contextPath,
+      newPid: result.newPid,
+      error: result.error,
+    } as SpawnEvent);
+  };
+
+  const authorize = (actor: OperatorActor, prefix: string | undefined) => {
+    if (!actor.mayReach) return;
+    if (!prefix) {
+      throw new Error(
+        `${actor.name} may not act on a service without a prefix`,
+      );
+    }
+    if (!actor.mayReach(prefix)) {
+      throw new Error(`${actor.name} may not act on ${prefix}`);
+    }
+  };
+
+  const runningService = async (pid: number, actor: OperatorActor) => {
+    for await (const tp of states()) {
+      if (tp.pid !== pid) continue;
+      if (!ledgerSessionOf(ledgerHome, tp.contextPath)) {
+        throw new Error(`pid ${pid} belongs to another ledger`);
+      }
+      authorize(
+        actor,
+        tp.proxyEndpointPrefix ?? tp.context?.service?.proxyEndpointPrefix,
+      );
+      return tp;
+    }
+    throw new Error(`no tagged service with pid ${pid}`);
+  };
+
+  const ledgerContext = async (contextPath: string) => {
+    const abs = resolve(ledgerHome, contextPath);
+    if (
+      !abs.endsWith(".context.json") || !ledgerSessionOf(ledgerHome, abs)
+    ) {
+      throw new Error(`not a context in this ledger: ${contextPath}`);
+    }
+    const context = JSON.parse(await Deno.readTextFile(abs)) as SpawnedContext;
+    return { contextPath: abs, context };
+  };
+
+  const spawnAgain = async (contextPath: string, context: SpawnedContext) => {
+    const { results, failed } = await respawnFromLedger(
+      [{ contextPath, context }],
+      materializeOpts,
+    );
+    if (failed.length > 0) throw failed[0].error;
+    const prov = resolve(context.supplier.location);
+    const hit = results
+      .flatMap((r) => r.spawned)
+      .find((c) => resolve(c.supplier.location) === prov);
+    if (!hit) {
+      throw new Error("not spawned (already running, disabled or failed)");
+    }
+    return hit.spawned.pid;
+  };
+
+  /**
+   * Run `fn` serialized, turn a failure into a result and journal it.
+   */
+  const act = (
+    action: OperatorActionKind,
+    actor: OperatorActor,
+    fn: (r: ResultDraft) => Promise<string | undefined>,
+  ): Promise<OperatorActionResult> =>
+    serialized(async () => {
+      const r: ResultDraft = {};
+      let sessionHome: string | undefined;
+      let result: OperatorActionResult;
+      try {
+        sessionHome = await fn(r);
+        result = { ...r, action, ok: true };
+      } catch (error) {
+        result = { ...r, action, ok: false, error: errorText(error) };
+      }
+      if (!sessionHome && r.contextPath) {
+        sessionHome = ledgerSessionOf(ledgerHome, r.contextPath);
+      }
+      await record(sessionHome, actor, result);
+      return result;
+    });
+
+  return {
+    stop(pid: number, actor: OperatorActor) {
+      return act("stop", actor, async (r) => {
+        r.pid = pid;
+        const tp = await runningService(pid, actor);
+        r.serviceId = tp.serviceId;
+        r.contextPath = tp.contextPath;
+        const outcome = await stopTaggedProcess(tp, {
+          graceMs: opts.graceMs,
+          ledgerHome,
+        });
+        if (!outcome.exited) throw new Error(`pid ${pid} survived SIGKILL`);
+        return undefined;
+      });
+    },
+
+    restart(pid: number, actor: OperatorActor) {
+      return act("restart", actor, async (r) => {
+        r.pid = pid;
+        const tp = await runningService(pid, actor);
+        r.serviceId = tp.serviceId;
+        r.contextPath = tp.contextPath;
+        const { context } = await ledgerContext(tp.contextPath);
+        const outcome = await stopTaggedProcess(tp, {
+          graceMs: opts.graceMs,
+          ledgerHome,
+        });
+        if (!outcome.exited) throw new Error(`pid ${pid} survived SIGKILL`);
+        r.newPid = await spawnAgain(tp.contextPath, context);
+        return undefined;
+      });
+    },
+
+    respawn(contextPath: string, actor: OperatorActor) {
+      return act("respawn", actor, async (r) => {
+        const le = await ledgerContext(contextPath);
+        r.contextPath = le.contextPath;
+        r.serviceId = le.context.service.id;
+        r.pid = le.context.spawned.pid;
+        authorize(actor, le.context.service.proxyEndpointPrefix);
+        if (isPidAlive(le.context.spawned.pid)) {
+          for await (const tp of states()) {
+            if (tp.pid === le.context.spawned.pid) {
+              throw new Error(`still running as pid ${tp.pid}`);
+            }
+          }
+        }
+        r.newPid = await spawnAgain(le.contextPath, le.context);
+        return undefined;
+      });
+    },
+
+    materialize(actor: OperatorActor) {
+      return act("materialize", actor, async (r) => {
+        if (!opts.cargoHome) throw new Error("no cargo home configured");
+        const result = await materialize([{ path: opts.cargoHome }], {
+          ...materializeOpts,
+          smartSpawn: true,
+        });
+        r.sessionHome = result.sessionHome;
+        r.spawned = result.spawned.length;
+        return result.sessionHome;
+      });
+    },
+  };
+}
+
+export type OperatorActions = ReturnType<typeof operatorActions>;
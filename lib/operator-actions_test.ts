@@ -0,0 +1,131 @@
+// operator-actions_test.ts
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+
+import { parseJournal } from "./journal.ts";
+import { operatorActions } from "./operator-actions.ts";
+import type { SpawnedContext, TaggedProcess } from "./spawn.ts";
+
+const actor = { name: "alice", via: "web-ui 127.0.0.1" };
+
+function tagged(pid: number, contextPath: string): TaggedProcess {
+  return {
+    pid,
+    provenance: "/yard/cargo.d/a.db",
+    contextPath,
+    sessionId: "s1",
+    serviceId: "a",
+    env: {},
+  };
+}
+
+Deno.test("operator-actions: journaled with the actor", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-actions-" });
+  const session = join(home, "2025-01-01-00-00-00");
+  const contextPath = join(session, "a.db.context.json");
+  await Deno.mkdir(session, { recursive: true });
+  await Deno.writeTextFile(
+    join(home, ".current-session"),
+    "2025-01-01-00-00-00",
+  );
+
+  let states: TaggedProcess[] = [];
+  const actions = operatorActions({
+    ledgerHome: home,
+    graceMs: 500,
+    states: async function* () {
+      yield* states;
+    },
+  });
+  const journal = async () =>
+    parseJournal(await Deno.readTextFile(join(session, "events.jsonl")));
+
+  try {
+    await t.step("stop signals the process and marks its context", async () => {
+      const child = new Deno.Command("sleep", {
+        args: ["30"],
+        stdout: "null",
+        stderr: "null",
+      }).spawn();
+      await Deno.writeTextFile(
+        contextPath,
+        JSON.stringify({ service: { id: "a" } }),
+      );
+      states = [tagged(child.pid, contextPath)];
+
+      const res = await actions.stop(child.pid, actor);
+      await child.status;
+      assertEquals(res.ok, true);
+      assertEquals(res.serviceId, "a");
+
+      const ctx = JSON.parse(
+        await Deno.readTextFile(contextPath),
+      ) as SpawnedContext;
+      assertEquals(ctx.stopSignal, "SIGTERM");
+
+      const [ev] = await journal();
+      assertEquals(ev.type, "operator_action");
+      assertEquals(ev.action, "stop");
+      assertEquals(ev.actor, "alice");
+      assertEquals(ev.via, "web-ui 127.0.0.1");
+      assertEquals(ev.ok, true);
+    });
+
+    await t.step("targets outside the ledger are refused", async () => {
+      states = [tagged(4242, "/elsewhere/s/a.db.context.json")];
+      const other = await actions.restart(4242, actor);
+      assertEquals(other.ok, false);
+      assertEquals(other.error, "pid 4242 belongs to another ledger");
+
+      const outside = await actions.respawn("../x.context.json", actor);
+      assertEquals(outside.ok, false);
+      assert(outside.error?.startsWith("not a context in this ledger"));
+
+      states = [{
+        ...tagged(4343, contextPath),
+        proxyEndpointPrefix: "/apps/b",
+      }];
+      const denied = await actions.stop(4343, {
+        ...actor,
+        mayReach: (prefix) => prefix.startsWith("/apps/a"),
+      });
+      assertEquals(denied.error, "alice may not act on /apps/b");
+
+      // a restricted actor cannot reach a service no rule can match
+      states = [tagged(4444, contextPath)];
+      const unprefixed = await actions.stop(4444, {
+        ...actor,
+        mayReach: () => true,
+      });
+      assertEquals(
+        unprefixed.error,
+        "alice may not act on a service without a prefix",
+      );
+
+      const unknown = await actions.stop(1, actor);
+      assertEquals(unknown.error, "no tagged service with pid 1");
+    });
+
+    await t.step("materialize needs a cargo home", async () => {
+      const res = await actions.materialize(actor);
+      assertEquals(res, {
+        action: "materialize",
+        ok: false,
+        error: "no cargo home configured",
+      });
+
+      // failures without a target land in the current session
+      const failed = (await journal()).filter((e) => e.ok === false);
+      assertEquals(failed.map((e) => e.action), [
+        "restart",
+        "respawn",
+        "stop",
+        "stop",
+        "stop",
+        "materialize",
+      ]);
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
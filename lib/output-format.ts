@@ -0,0 +1,254 @@
+// lib/output-format.ts
+import { stringify as yamlStringify } from "@std/yaml";
+
+import type {
+  ReconcileItem,
+  ReconcileSummary,
+  SpawnedLedgerEncounter,
+} from "./materialize.ts";
+import type { TaggedProcess } from "./spawn.ts";
+
+/**
+ * Machine-readable output for `ls`, `ps` and `ps --reconcile`.
+ *
+ * Each command has a flat, versioned row schema (below) so scripts do not
+ * depend on the colored terminal layout or on the nested context JSON. Field
+ * names and CSV column order only change with a new schema version; absent
+ * values are `null` in JSON/YAML and empty in CSV.
+ *
+ * - `json` / `yaml`: `{ schema, generatedAt, items, summary? }`
+ * - `jsonl`: one item per line, no envelope
+ * - `csv`: a header row with the schema's columns, then one row per item
+ */
+export type OutputFormat = "json" | "jsonl" | "csv" | "yaml";
+
+export const OUTPUT_FORMATS = ["json", "jsonl", "csv", "yaml"] as const;
+
+/**
+ * `ls`: one row per ledger context (SpawnedLedgerEncounter).
+ */
+export type LedgerRow = Readonly<{
+  pid: number;
+  pidAlive: boolean;
+  serviceId: string;
+  kind: string;
+  nature: string;
+  label: string;
+  proxyEndpointPrefix: string;
+  upstreamUrl: string;
+  provenance: string;
+  sessionId: string;
+  startedAt: string;
+  health: string | null;
+  contextPath: string;
+  cmdline: string | null;
+}>;
+
+export const LEDGER_SCHEMA = "truth-yard/ls@1";
+export const LEDGER_COLUMNS: ReadonlyArray<keyof LedgerRow> = [
+  "pid",
+  "pidAlive",
+  "serviceId",
+  "kind",
+  "nature",
+  "label",
+  "proxyEndpointPrefix",
+  "upstreamUrl",
+  "provenance",
+  "sessionId",
+  "startedAt",
+  "health",
+  "contextPath",
+  "cmdline",
+];
+
+export function ledgerRow(le: SpawnedLedgerEncounter): LedgerRow {
+  const ctx = le.context;
+  return {
+    pid: le.pid,
+    pidAlive: le.pidAlive,
+    serviceId: ctx.service.id,
+    kind: ctx.service.kind,
+    nature: ctx.supplier.nature,
+    label: ctx.service.label,
+    proxyEndpointPrefix: ctx.service.proxyEndpointPrefix,
+    upstreamUrl: ctx.service.upstreamUrl,
+    provenance: ctx.supplier.location,
+    sessionId: ctx.session.sessionId,
+    startedAt: ctx.startedAt,
+    health: ctx.health?.status ?? null,
+    contextPath: le.filePath,
+    cmdline: le.procCmdline ?? null,
+  };
+}
+
+/**
+ * `ps`: one row per tagged process (TaggedProcess).
+ */
+export type ProcessRow = Readonly<{
+  pid: number;
+  serviceId: string;
+  sessionId: string;
+  kind: string | null;
+  nature: string | null;
+  label: string | null;
+  proxyEndpointPrefix: string | null;
+  upstreamUrl: string | null;
+  provenance: string;
+  contextPath: string;
+  cmdline: string | null;
+  issue: string | null;
+}>;
+
+export const PROCESS_SCHEMA = "truth-yard/ps@1";
+export const PROCESS_COLUMNS: ReadonlyArray<keyof ProcessRow> = [
+  "pid",
+  "serviceId",
+  "sessionId",
+  "kind",
+  "nature",
+  "label",
+  "proxyEndpointPrefix",
+  "upstreamUrl",
+  "provenance",
+  "contextPath",
+  "cmdline",
+  "issue",
+];
+
+export function processRow(tp: TaggedProcess): ProcessRow {
+  return {
+    pid: tp.pid,
+    serviceId: tp.serviceId,
+    sessionId: tp.sessionId,
+    kind: tp.context?.service?.kind ?? tp.kind ?? null,
+    nature: tp.context?.supplier?.nature ?? null,
+    label: tp.context?.service?.label ?? tp.label ?? null,
+    proxyEndpointPrefix: tp.context?.service?.proxyEndpointPrefix ??
+      tp.proxyEndpointPrefix ?? null,
+    upstreamUrl: tp.context?.service?.upstreamUrl ?? tp.upstreamUrl ?? null,
+    provenance: tp.provenance,
+    contextPath: tp.contextPath,
+    cmdline: tp.cmdline ?? null,
+    issue: issueText(tp.issue),
+  };
+}
+
+function issueText(issue: unknown): string | null {
+  if (!issue) return null;
+  if (issue instanceof AggregateError) {
+    return issue.errors
+      .map((e) => e instanceof Error ? e.message : String(e))
+      .join(" | ");
+  }
+  return issue instanceof Error ? issue.message : String(issue);
+}
+
+/**
+ * `ps --reconcile`: one row per discrepancy (ReconcileItem). `contextPath`
+ * is the process' tagged context path or the orphaned ledger context.
+ */
+export type ReconcileRow = Readonly<{
+  kind: ReconcileItem["kind"];
+  pid: number;
+  serviceId: string | null;
+  sessionId: string | null;
+  contextPath: string;
+  cmdline: string | null;
+}>;
+
+export const RECONCILE_SCHEMA = "truth-yard/reconcile@1";
+export const RECONCILE_COLUMNS: ReadonlyArray<keyof ReconcileRow> = [
+  "kind",
+  "pid",
+  "serviceId",
+  "sessionId",
+  "contextPath",
+  "cmdline",
+];
+
+export function reconcileRow(item: ReconcileItem): ReconcileRow {
+  return item.kind === "process_without_ledger"
+    ? {
+      kind: item.kind,
+      pid: item.pid,
+      serviceId: item.serviceId,
+      sessionId: item.sessionId,
+      contextPath: item.contextPath,
+      cmdline: item.cmdline ?? null,
+    }
+    : {
+      kind: item.kind,
+      pid: item.pid,
+      serviceId: item.serviceId ?? null,
+      sessionId: item.sessionId ?? null,
+      contextPath: item.ledgerContextPath,
+      cmdline: null,
+    };
+}
+
+/**
+ * Exit status of `ps --reconcile`: 0 when clean, otherwise a bit per
+ * discrepancy kind (2 = process without ledger, 4 = ledger without process,
+ * 6 = both). 1 stays reserved for ordinary failures.
+ */
+export const RECONCILE_EXIT = {
+  ok: 0,
+  processWithoutLedger: 2,
+  ledgerWithoutProcess: 4,
+} as const;
+
+export function reconcileExitCode(summary: ReconcileSummary): number {
+  let code: number = RECONCILE_EXIT.ok;
+  if (summary.processWithoutLedger > 0) {
+    code |= RECONCILE_EXIT.processWithoutLedger;
+  }
+  if (summary.ledgerWithoutProcess > 0) {
+    code |= RECONCILE_EXIT.ledgerWithoutProcess;
+  }
+  return code;
+}
+
+export function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+/**
+ * Render rows in `format`; `summary` is only part of the json/yaml envelope.
+ */
+export function renderRows<Row extends Record<string, unknown>>(
+  format: OutputFormat,
+  doc: Readonly<{
+    schema: string;
+    columns: ReadonlyArray<keyof Row & string>;
+    items: readonly Row[];
+    summary?: Record<string, unknown>;
+    generatedAt?: Date;
+  }>,
+): string {
+  const { schema, columns, items, summary } = doc;
+
+  if (format === "jsonl") {
+    return items.map((r) => JSON.stringify(r) + "\n").join("");
+  }
+
+  if (format === "csv") {
+    const lines = [columns.join(",")];
+    for (const r of items) {
+      lines.push(columns.map((c) => csvCell(r[c])).join(","));
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  const envelope = {
+    schema,
+    generatedAt: (doc.generatedAt ?? new Date()).toISOString(),
+    items,
+    ...(summary ? { summary } : {}),
+  };
+  return format === "yaml"
+    ? yamlStringify(envelope)
+    : JSON.stringify(envelope, null, 2) + "\n";
+}
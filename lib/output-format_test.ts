@@ -0,0 +1,114 @@
+// output-format_test.ts
+import { assert, assertEquals } from "@std/assert";
+
+import {
+  csvCell,
+  PROCESS_COLUMNS,
+  PROCESS_SCHEMA,
+  processRow,
+  RECONCILE_COLUMNS,
+  RECONCILE_SCHEMA,
+  reconcileExitCode,
+  reconcileRow,
+  renderRows,
+} from "./output-format.ts";
+import type { TaggedProcess } from "./spawn.ts";
+
+const tp: TaggedProcess = {
+  pid: 42,
+  provenance: "/yard/cargo.d/finance/ledger.sqlite.db",
+  contextPath: "/yard/ledger.d/s1/finance/ledger.sqlite.db.context.json",
+  sessionId: "s1",
+  serviceId: "finance-ledger",
+  kind: "sqlpage",
+  proxyEndpointPrefix: "/apps/sqlpage/finance/ledger",
+  upstreamUrl: "http://127.0.0.1:3000",
+  env: {},
+  cmdline: 'sqlpage --web-root "a,b"',
+};
+
+const generatedAt = new Date("2025-01-01T00:00:00Z");
+
+Deno.test("output-format: rows", async (t) => {
+  await t.step("process rows are flat with nulls for gaps", () => {
+    const row = processRow(tp);
+    assertEquals(Object.keys(row), [...PROCESS_COLUMNS]);
+    assertEquals(row.kind, "sqlpage");
+    assertEquals(row.nature, null);
+    assertEquals(row.issue, null);
+    assertEquals(
+      processRow({ ...tp, issue: new Error("no ctx") }).issue,
+      "no ctx",
+    );
+  });
+
+  await t.step("reconcile rows share one contextPath column", () => {
+    assertEquals(
+      reconcileRow({
+        kind: "ledger_without_process",
+        ledgerContextPath: "/l/x.context.json",
+        pid: 7,
+      }),
+      {
+        kind: "ledger_without_process",
+        pid: 7,
+        serviceId: null,
+        sessionId: null,
+        contextPath: "/l/x.context.json",
+        cmdline: null,
+      },
+    );
+  });
+});
+
+Deno.test("output-format: rendering", async (t) => {
+  const doc = {
+    schema: PROCESS_SCHEMA,
+    columns: PROCESS_COLUMNS,
+    items: [processRow(tp)],
+    generatedAt,
+  };
+
+  await t.step("json envelope", () => {
+    const out = JSON.parse(renderRows("json", doc));
+    assertEquals(out.schema, PROCESS_SCHEMA);
+    assertEquals(out.generatedAt, generatedAt.toISOString());
+    assertEquals(out.items[0].pid, 42);
+    assertEquals(out.summary, undefined);
+  });
+
+  await t.step("jsonl has one row per line", () => {
+    const lines = renderRows("jsonl", doc).trimEnd().split("\n");
+    assertEquals(lines.length, 1);
+    assertEquals(JSON.parse(lines[0]).serviceId, "finance-ledger");
+  });
+
+  await t.step("csv header and quoting", () => {
+    const [header, row] = renderRows("csv", doc).trimEnd().split("\n");
+    assertEquals(header, PROCESS_COLUMNS.join(","));
+    assert(row.startsWith("42,finance-ledger,s1,sqlpage,,"));
+    assert(row.endsWith(`,"sqlpage --web-root ""a,b""",`));
+    assertEquals(csvCell(null), "");
+  });
+
+  await t.step("yaml carries the summary", () => {
+    const out = renderRows("yaml", {
+      schema: RECONCILE_SCHEMA,
+      columns: RECONCILE_COLUMNS,
+      items: [],
+      summary: { processWithoutLedger: 0, ledgerWithoutProcess: 1 },
+      generatedAt,
+    });
+    assert(out.includes(`schema: ${RECONCILE_SCHEMA}`));
+    assert(out.includes("ledgerWithoutProcess: 1"));
+  });
+});
+
+Deno.test("output-format: reconcile exit codes", () => {
+  const code = (p: number, l: number) =>
+    reconcileExitCode({ processWithoutLedger: p, ledgerWithoutProcess: l });
+  assertEquals(code(0, 0), 0);
+  assertEquals(code(1, 0), 2);
+  assertEquals(code(0, 3), 4);
+  assertEquals(code(2, 2), 6);
+});
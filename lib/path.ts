@@ -7,6 +7,33 @@ export async function ensureParentDir(filePath: string): Promise<void> {
   if (dir && dir !== "." && dir !== "/") await ensureDir(dir);
 }
 
+/**
+ * Replace a file's content atomically (write a sibling temp file, then
+ * rename), creating parents.
+ */
+export async function writeTextFileAtomic(
+  filePath: string,
+  content: string,
+): Promise<void> {
+  await ensureParentDir(filePath);
+  const tmp = `${filePath}.${Deno.pid}.tmp`;
+  await Deno.writeTextFile(tmp, content);
+  await Deno.rename(tmp, filePath);
+}
+
+/**
+ * Append one JSON value as a line to a JSONL ledger file (creating parents).
+ */
+export async function appendJsonLine(
+  filePath: string,
+  value: unknown,
+): Promise<void> {
+  await ensureParentDir(filePath);
+  await Deno.writeTextFile(filePath, JSON.stringify(value) + "\n", {
+    append: true,
+  });
+}
+
 export function normalizeSlash(p: string): string {
   return p.replaceAll("\\", "/").replaceAll(/\/+/g, "/");
 }
@@ -85,6 +112,14 @@ export function proxyPrefixFromRel(relFromRoot: string): string {
   );
 }
 
+/** True when `fileAbs` is one of `rootsAbs` or lies beneath one of them. */
+export function underRoots(
+  fileAbs: string,
+  rootsAbs: readonly string[],
+): boolean {
+  return rootsAbs.some((r) => fileAbs === r || fileAbs.startsWith(r + "/"));
+}
+
 function bestRootForFile(
   fileAbs: string,
   rootsAbs: readonly string[],
@@ -0,0 +1,27 @@
+// path_test.ts
+import { assertEquals } from "@std/assert";
+
+import { relFromRoots, underRoots } from "./path.ts";
+
+Deno.test("path: roots", async (t) => {
+  const roots = ["/srv/cargo", "/srv/one.sqlite.db"];
+
+  await t.step("a root given as a single file is under itself", () => {
+    assertEquals(underRoots("/srv/one.sqlite.db", roots), true);
+    assertEquals(underRoots("/srv/cargo", roots), true);
+  });
+
+  await t.step("files beneath a root are under it", () => {
+    assertEquals(underRoots("/srv/cargo/a/b.sqlite.db", roots), true);
+    assertEquals(
+      relFromRoots("/srv/cargo/a/b.sqlite.db", roots),
+      "a/b.sqlite.db",
+    );
+  });
+
+  await t.step("siblings sharing a name prefix are not", () => {
+    assertEquals(underRoots("/srv/cargo2/a.sqlite.db", roots), false);
+    assertEquals(underRoots("/srv/one.sqlite.db-wal", roots), false);
+    assertEquals(underRoots("/srv", roots), false);
+  });
+});
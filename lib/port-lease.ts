@@ -0,0 +1,140 @@
+// lib/port-lease.ts
+import { join } from "@std/path";
+
+import { writeTextFileAtomic } from "./path.ts";
+
+/**
+ * Sticky port leases.
+ *
+ * Every provenance (absolute cargo path) that was ever spawned keeps the port
+ * it last listened on, persisted as `<ledgerHome>/port-leases.json`. spawn()
+ * hands a service its leased port back when it is free, and allocates ports
+ * for new cargo from the pool while skipping ports leased to other cargo, so
+ * adding a database no longer shifts everyone else's port.
+ *
+ * Leases of cargo that no longer exists, or that was not spawned within
+ * `ttlMs` (default 30 days), are pruned. Every lease re-reads the file and
+ * writes it back with just that change, so yard processes sharing a ledger
+ * home keep each other's leases.
+ */
+export const PORT_LEASES_FILE = "port-leases.json";
+
+export type PortLease = Readonly<{
+  port: number;
+  serviceId?: string;
+  leasedAt: string;
+  lastSpawnedAt: string;
+}>;
+
+type PortLeasesFile = Readonly<{
+  leases: Record<string, PortLease>;
+}>;
+
+export type PortLeaseStore = ReturnType<typeof portLeases>;
+
+export function portLeases(
+  ledgerHome: string,
+  opts: Readonly<{ ttlMs?: number }> = {},
+) {
+  const path = join(ledgerHome, PORT_LEASES_FILE);
+  const ttlMs = opts.ttlMs ?? 30 * 24 * 60 * 60 * 1000;
+  let leases = new Map<string, PortLease>();
+
+  // a missing or unreadable file means no leases
+  const read = async (): Promise<Map<string, PortLease>> => {
+    try {
+      const raw = JSON.parse(await Deno.readTextFile(path)) as Partial<
+        PortLeasesFile
+      >;
+      return new Map(
+        Object.entries(raw.leases ?? {}).filter(([, l]) =>
+          typeof l?.port === "number"
+        ),
+      );
+    } catch {
+      return new Map();
+    }
+  };
+
+  const live = async (provenance: string, l: PortLease) => {
+    const spawnedAt = Date.parse(l.lastSpawnedAt);
+    if (!(Date.now() - spawnedAt <= ttlMs)) return false;
+    try {
+      await Deno.stat(provenance);
+      return true;
+    } catch (error) {
+      return !(error instanceof Deno.errors.NotFound);
+    }
+  };
+
+  const prune = async (m: Map<string, PortLease>) => {
+    for (const [prov, l] of m) {
+      if (!(await live(prov, l))) m.delete(prov);
+    }
+    return m;
+  };
+
+  const save = async () => {
+    const file: PortLeasesFile = {
+      leases: Object.fromEntries(
+        [...leases.entries()].sort(([a], [b]) => a.localeCompare(b)),
+      ),
+    };
+    await writeTextFileAtomic(path, JSON.stringify(file, null, 2) + "\n");
+  };
+
+  return {
+    path,
+
+    /**
+     * (Re)read the lease file, without leases that expired or whose cargo is
+     * gone.
+     */
+    async load(): Promise<void> {
+      leases = await prune(await read());
+    },
+
+    get(provenance: string): PortLease | undefined {
+      return leases.get(provenance);
+    },
+
+    /**
+     * Provenance currently holding `port`, if any.
+     */
+    holderOf(port: number): string | undefined {
+      for (const [prov, l] of leases) if (l.port === port) return prov;
+      return undefined;
+    },
+
+    /**
+     * Record that `provenance` was spawned on `port` and persist, on top of
+     * the file as it is now. A port can only be leased to one provenance, so
+     * a previous holder loses it.
+     */
+    async lease(
+      provenance: string,
+      port: number,
+      serviceId?: string,
+    ): Promise<void> {
+      leases = await prune(await read());
+      const now = new Date().toISOString();
+      const prev = leases.get(provenance);
+
+      for (const [prov, l] of leases) {
+        if (prov !== provenance && l.port === port) leases.delete(prov);
+      }
+
+      leases.set(provenance, {
+        port,
+        serviceId,
+        leasedAt: prev?.port === port ? prev.leasedAt : now,
+        lastSpawnedAt: now,
+      });
+      await save();
+    },
+
+    entries(): ReadonlyMap<string, PortLease> {
+      return leases;
+    },
+  };
+}
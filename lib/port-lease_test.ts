@@ -0,0 +1,106 @@
+// port-lease_test.ts
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+
+import { PORT_LEASES_FILE, portLeases } from "./port-lease.ts";
+
+Deno.test("port-lease: sticky ports by provenance", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-port-lease-" });
+  const cargo = (name: string) => join(home, "cargo", name);
+  await Deno.mkdir(join(home, "cargo"));
+  for (const name of ["a.sqlite.db", "b.sqlite.db", "c.sqlite.db"]) {
+    await Deno.writeTextFile(cargo(name), "");
+  }
+
+  try {
+    await t.step("missing file means no leases", async () => {
+      const leases = portLeases(home);
+      await leases.load();
+      assertEquals(leases.entries().size, 0);
+      assertEquals(leases.get(cargo("a.sqlite.db")), undefined);
+    });
+
+    await t.step("leases persist and reload", async () => {
+      const leases = portLeases(home);
+      await leases.load();
+      await leases.lease(cargo("a.sqlite.db"), 3000, "a");
+      await leases.lease(cargo("b.sqlite.db"), 3001, "b");
+
+      const again = portLeases(home);
+      await again.load();
+      assertEquals(again.path, join(home, PORT_LEASES_FILE));
+      assertEquals(again.get(cargo("a.sqlite.db"))?.port, 3000);
+      assertEquals(again.get(cargo("b.sqlite.db"))?.serviceId, "b");
+      assertEquals(again.holderOf(3001), cargo("b.sqlite.db"));
+      assertEquals(again.holderOf(3002), undefined);
+    });
+
+    await t.step("re-leasing the same port keeps leasedAt", async () => {
+      const leases = portLeases(home);
+      await leases.load();
+      const before = leases.get(cargo("a.sqlite.db"));
+      await leases.lease(cargo("a.sqlite.db"), 3000, "a");
+      assertEquals(
+        leases.get(cargo("a.sqlite.db"))?.leasedAt,
+        before?.leasedAt,
+      );
+    });
+
+    await t.step("taking a leased port drops the previous holder", async () => {
+      const leases = portLeases(home);
+      await leases.load();
+      await leases.lease(cargo("c.sqlite.db"), 3001, "c");
+
+      assertEquals(leases.holderOf(3001), cargo("c.sqlite.db"));
+      assertEquals(leases.get(cargo("b.sqlite.db")), undefined);
+      assertEquals(leases.get(cargo("a.sqlite.db"))?.port, 3000);
+    });
+
+    await t.step(
+      "stores sharing a ledger keep each other's leases",
+      async () => {
+        const one = portLeases(home);
+        const two = portLeases(home);
+        await one.load();
+        await two.load();
+        await one.lease(cargo("b.sqlite.db"), 3002, "b");
+        await two.lease(cargo("c.sqlite.db"), 3003, "c");
+
+        const again = portLeases(home);
+        await again.load();
+        assertEquals(again.get(cargo("b.sqlite.db"))?.port, 3002);
+        assertEquals(again.get(cargo("c.sqlite.db"))?.port, 3003);
+      },
+    );
+
+    await t.step(
+      "leases of removed or long idle cargo are pruned",
+      async () => {
+        await Deno.remove(cargo("b.sqlite.db"));
+        const leases = portLeases(home);
+        await leases.load();
+        assertEquals(leases.get(cargo("b.sqlite.db")), undefined);
+        assertEquals(leases.holderOf(3002), undefined);
+
+        const idle = portLeases(home, { ttlMs: -1 });
+        await idle.load();
+        assertEquals(idle.entries().size, 0);
+
+        await idle.lease(cargo("a.sqlite.db"), 3000, "a");
+        const file = JSON.parse(
+          await Deno.readTextFile(join(home, PORT_LEASES_FILE)),
+        );
+        assertEquals(Object.keys(file.leases), [cargo("a.sqlite.db")]);
+      },
+    );
+
+    await t.step("unreadable file means no leases", async () => {
+      await Deno.writeTextFile(join(home, PORT_LEASES_FILE), "{ not json");
+      const leases = portLeases(home);
+      await leases.load();
+      assertEquals(leases.entries().size, 0);
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
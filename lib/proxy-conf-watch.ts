@@ -0,0 +1,236 @@
+// lib/proxy-conf-watch.ts
+import { writeTextFileAtomic } from "./path.ts";
+import {
+  proxyConfHomes,
+  type ProxyConfOverrides,
+  type ProxyConfTargets,
+  reverseProxyConfFiles,
+} from "./reverse-proxy-conf.ts";
+import {
+  type SpawnEvent,
+  type SpawnEventListener,
+  type SpawnEventPayload,
+  type SpawnSession,
+  type TaggedProcess,
+  taggedProcesses,
+} from "./spawn.ts";
+
+/**
+ * Keeps `proxy-conf` output in sync with the running services.
+ *
+ * Every check regenerates the configs of the selected targets from the
+ * tagged processes, writes only files whose content hash changed, removes
+ * `truth-yard.*` files of services that are gone and, when anything changed,
+ * runs the reload command (through `sh -c`). A failed reload stays pending
+ * and is retried on every check until it succeeds. Outcomes and failures are
+ * emitted as `proxy_conf_*` events, so watch mode records them in the
+ * session's events.jsonl.
+ */
+export type ProxyConfWatchOptions =
+  & ProxyConfTargets
+  & Readonly<{
+    overrides?: ProxyConfOverrides;
+
+    /**
+     * Shell command run after files changed, e.g. `nginx -s reload`.
+     */
+    reloadCommand?: string;
+
+    /**
+     * Reload command time limit in ms (default 30000).
+     */
+    reloadTimeoutMs?: number;
+  }>;
+
+export function proxyConfWatchEnabled(
+  opts: ProxyConfWatchOptions | undefined,
+): boolean {
+  return !!opts && proxyConfHomes(opts).length > 0;
+}
+
+export type ProxyConfCheck = Readonly<{
+  written: string[];
+  removed: string[];
+  reloaded: boolean;
+}>;
+
+type ProxyConfEvent = Extract<
+  SpawnEventPayload,
+  { type: `proxy_conf_${string}` }
+>;
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function proxyConfRegenerator(
+  opts: ProxyConfWatchOptions,
+  args: Readonly<{
+    session: SpawnSession;
+    onEvent?: SpawnEventListener;
+
+    /**
+     * Source of service state (default taggedProcesses()).
+     */
+    states?: () => AsyncIterable<TaggedProcess>;
+  }>,
+) {
+  const t0 = performance.now();
+  const states = args.states ?? (() => taggedProcesses());
+
+  // content hash of every file we know, by path (undefined: absent)
+  const hashes = new Map<string, string | undefined>();
+
+  // files changed since the last successful reload
+  let reloadPending = false;
+
+  const emit = async (event: ProxyConfEvent) => {
+    if (!args.onEvent) return;
+    try {
+      await args.onEvent(
+        {
+          session: args.session,
+          ts: new Date().toISOString(),
+          tMs: performance.now() - t0,
+          ...event,
+        } as SpawnEvent,
+      );
+    } catch {
+      // ignore listener failures
+    }
+  };
+
+  const knownHash = async (path: string) => {
+    if (hashes.has(path)) return hashes.get(path);
+    let hash: string | undefined;
+    try {
+      hash = await sha256Hex(await Deno.readTextFile(path));
+    } catch {
+      // not written yet
+    }
+    hashes.set(path, hash);
+    return hash;
+  };
+
+  const reload = async (command: string): Promise<boolean> => {
+    const started = performance.now();
+    try {
+      const { code, stderr } = await new Deno.Command("sh", {
+        args: ["-c", command],
+        stdout: "null",
+        stderr: "piped",
+        signal: AbortSignal.timeout(opts.reloadTimeoutMs ?? 30_000),
+      }).output();
+      if (code !== 0) {
+        const err = new TextDecoder().decode(stderr).trim();
+        await emit({
+          type: "proxy_conf_failed",
+          phase: "reload",
+          command,
+          code,
+          error: err || `exit code ${code}`,
+        });
+        return false;
+      }
+      await emit({
+        type: "proxy_conf_reloaded",
+        command,
+        durationMs: performance.now() - started,
+      });
+      return true;
+    } catch (error) {
+      await emit({
+        type: "proxy_conf_failed",
+        phase: "reload",
+        command,
+        error,
+      });
+      return false;
+    }
+  };
+
+  return {
+    /**
+     * Regenerate, write what changed and reload when anything did (or an
+     * earlier reload failed).
+     */
+    async check(): Promise<ProxyConfCheck> {
+      const written: string[] = [];
+      const removed: string[] = [];
+
+      let files: Map<string, string>;
+      try {
+        const current: TaggedProcess[] = [];
+        for await (const s of states()) current.push(s);
+        files = reverseProxyConfFiles(current, opts, opts.overrides);
+      } catch (error) {
+        await emit({ type: "proxy_conf_failed", phase: "generate", error });
+        return { written, removed, reloaded: false };
+      }
+
+      for (const [path, content] of files) {
+        const hash = await sha256Hex(content);
+        if (await knownHash(path) === hash) continue;
+        try {
+          await writeTextFileAtomic(path, content);
+          hashes.set(path, hash);
+          written.push(path);
+        } catch (error) {
+          await emit({
+            type: "proxy_conf_failed",
+            phase: "write",
+            path,
+            error,
+          });
+        }
+      }
+
+      // configs of services that are gone
+      const stale: string[] = [];
+      for (const { dir, pattern } of proxyConfHomes(opts)) {
+        try {
+          for await (const e of Deno.readDir(dir)) {
+            const path = `${dir}/${e.name}`;
+            if (e.isFile && pattern.test(e.name) && !files.has(path)) {
+              stale.push(path);
+            }
+          }
+        } catch {
+          // directory not there yet
+        }
+      }
+      for (const path of stale) {
+        try {
+          await Deno.remove(path);
+          hashes.delete(path);
+          removed.push(path);
+        } catch (error) {
+          await emit({
+            type: "proxy_conf_failed",
+            phase: "write",
+            path,
+            error,
+          });
+        }
+      }
+
+      if (written.length > 0 || removed.length > 0) {
+        await emit({ type: "proxy_conf_updated", written, removed });
+        reloadPending = true;
+      }
+      if (!reloadPending || !opts.reloadCommand) {
+        return { written, removed, reloaded: false };
+      }
+
+      const reloaded = await reload(opts.reloadCommand);
+      if (reloaded) reloadPending = false;
+      return { written, removed, reloaded };
+    },
+  };
+}
@@ -0,0 +1,149 @@
+// proxy-conf-watch_test.ts
+import { assert, assertEquals } from "@std/assert";
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+
+import { proxyConfRegenerator } from "./proxy-conf-watch.ts";
+import type {
+  SpawnedContext,
+  SpawnEvent,
+  SpawnSession,
+  TaggedProcess,
+} from "./spawn.ts";
+
+const session: SpawnSession = {
+  sessionId: "s1",
+  host: { identity: "test", pid: 1 },
+  startedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function stateOf(id: string, port: number, pid: number): TaggedProcess {
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    pid,
+    provenance: `/yard/cargo.d/${id}.db`,
+    contextPath: `/yard/ledger.d/s1/${id}.db.context.json`,
+    sessionId: "s1",
+    serviceId: id,
+    env: {},
+    context: {
+      service: {
+        id,
+        kind: "sqlpage",
+        label: id,
+        proxyEndpointPrefix: `/apps/${id}`,
+        upstreamUrl: baseUrl,
+      },
+      supplier: { location: `/yard/cargo.d/${id}.db` },
+      listen: { host: "127.0.0.1", port, baseUrl, probeUrl: baseUrl },
+    } as unknown as SpawnedContext,
+  };
+}
+
+Deno.test("proxy-conf-watch: regeneration", async (t) => {
+  const dir = await Deno.makeTempDir({ prefix: "truth-yard-proxy-conf-" });
+  const marker = join(dir, "reloads");
+  const events: SpawnEvent[] = [];
+  let current = [stateOf("a", 3000, 10), stateOf("b", 3001, 11)];
+  let reloadCommand = `echo x >> '${marker}'`;
+
+  const regen = () =>
+    proxyConfRegenerator(
+      { nginxConfHome: join(dir, "nginx"), reloadCommand },
+      {
+        session,
+        onEvent: (e) => {
+          events.push(e);
+        },
+        states: async function* () {
+          yield* current;
+        },
+      },
+    );
+
+  const reloads = async () =>
+    (await exists(marker))
+      ? (await Deno.readTextFile(marker)).trim().split("\n").length
+      : 0;
+
+  try {
+    const r = regen();
+
+    await t.step("first check writes everything and reloads", async () => {
+      const res = await r.check();
+      assertEquals(res.written.length, 3);
+      assert(res.reloaded);
+      assertEquals(await reloads(), 1);
+      assertEquals(events.map((e) => e.type), [
+        "proxy_conf_updated",
+        "proxy_conf_reloaded",
+      ]);
+    });
+
+    await t.step("unchanged state writes nothing", async () => {
+      events.length = 0;
+      const res = await r.check();
+      assertEquals(res.written, []);
+      assertEquals(res.reloaded, false);
+      assertEquals(events, []);
+
+      // a fresh regenerator compares with the files on disk
+      assertEquals((await regen().check()).written, []);
+      assertEquals(await reloads(), 1);
+    });
+
+    await t.step("only changed files are rewritten", async () => {
+      current = [stateOf("a", 3000, 10), stateOf("b", 3001, 12)];
+      const res = await r.check();
+      assertEquals(res.written.map((p) => p.split("/").pop()).sort(), [
+        "truth-yard.b.conf",
+        "truth-yard.generated.conf",
+      ]);
+      assertEquals(await reloads(), 2);
+    });
+
+    await t.step("configs of stopped services are removed", async () => {
+      current = [stateOf("a", 3000, 10)];
+      const res = await r.check();
+      assertEquals(res.removed.map((p) => p.split("/").pop()), [
+        "truth-yard.b.conf",
+      ]);
+      assert(!await exists(join(dir, "nginx", "truth-yard.b.conf")));
+    });
+
+    await t.step("reload failures are reported as events", async () => {
+      events.length = 0;
+      reloadCommand = "echo nope >&2; exit 3";
+      current = [];
+      const res = await regen().check();
+      assertEquals(res.reloaded, false);
+      const failed = events.find((e) => e.type === "proxy_conf_failed");
+      assert(failed?.type === "proxy_conf_failed");
+      assertEquals(failed.phase, "reload");
+      assertEquals(failed.code, 3);
+      assertEquals(failed.error, "nope");
+    });
+
+    await t.step("a failed reload is retried until it succeeds", async () => {
+      const ok = join(dir, "reload-ok");
+      reloadCommand = `test -e '${ok}' || exit 4; echo x >> '${marker}'`;
+      const before = await reloads();
+      const retrying = regen();
+
+      current = [stateOf("c", 3002, 13)];
+      assertEquals((await retrying.check()).reloaded, false);
+
+      await Deno.writeTextFile(ok, "");
+      const res = await retrying.check();
+      assertEquals(res.written, []);
+      assert(res.reloaded);
+      assertEquals(await reloads(), before + 1);
+
+      // nothing pending any more
+      assertEquals((await retrying.check()).reloaded, false);
+      assertEquals(await reloads(), before + 1);
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,502 @@
+// lib/repair.ts
+import {
+  basename,
+  dirname,
+  extname,
+  join,
+  resolve,
+  SEPARATOR,
+} from "@std/path";
+
+import { localHostIdentity } from "./host-lease.ts";
+import { sessionStartedAt } from "./ledger-gc.ts";
+import {
+  type MaterializeOptions,
+  reconcile,
+  type ReconcileItem,
+  type ReconcileSummary,
+  respawnFromLedger,
+  sortableDateTimeText,
+} from "./materialize.ts";
+import { writeTextFileAtomic } from "./path.ts";
+import {
+  type SpawnedContext,
+  stopPID,
+  type TaggedProcess,
+  taggedProcesses,
+} from "./spawn.ts";
+import type { TabularDataSupplier } from "./tabular.ts";
+
+/**
+ * Auto-repair for `yard ps --reconcile --repair`.
+ *
+ * reconcile() reports two kinds of drift; each gets an explicit policy:
+ *
+ * - orphans (`process_without_ledger`, a tagged process whose context is
+ *   missing):
+ *   - `adopt` rewrites the context at its tagged TRUTH_YARD_CONTEXT_PATH from
+ *     the process' tags
+ *   - `kill` stops the process (SIGTERM, then SIGKILL)
+ *   Only processes tagged with a context path inside the ledger being
+ *   repaired are touched.
+ * - stale entries (`ledger_without_process`, a context whose pid is gone):
+ *   - `respawn` starts the newest context per cargo again, in its session and
+ *     on its port; deliberately stopped services (`stoppedAt`) and adopted
+ *     contexts (`adoptedAt`, whose cargo root is unknown) are skipped
+ *   - `archive` renames `<name>.context.json` to `<name>.context.stale.json`
+ *     so ledger scans ignore it while logs stay next to it
+ *
+ * `ignore` leaves that kind of drift alone. Every run that is not a dry run
+ * writes `<ledger>/repair-reports/<YYYY-MM-DD-HH-MM-SS>.json`.
+ */
+export type OrphanPolicy = "adopt" | "kill" | "ignore";
+export type StalePolicy = "respawn" | "archive" | "ignore";
+
+export const REPAIR_REPORTS_DIR = "repair-reports";
+
+export type RepairOptions = Readonly<{
+  orphans?: OrphanPolicy;
+  stale?: StalePolicy;
+  dryRun?: boolean;
+
+  /**
+   * SIGTERM grace period for `kill` (default 2000).
+   */
+  graceMs?: number;
+
+  /**
+   * Spawn settings for `respawn` (ledger home, listen host, verbosity, …).
+   */
+  materialize?: MaterializeOptions;
+}>;
+
+export type RepairActionKind =
+  | "adopt"
+  | "kill"
+  | "respawn"
+  | "archive"
+  | "skip";
+
+export type RepairAction = Readonly<{
+  item: ReconcileItem;
+  action: RepairActionKind;
+  ok: boolean;
+
+  /**
+   * Context written (adopt), renamed to (archive) or spawned into (respawn).
+   */
+  contextPath?: string;
+
+  /**
+   * New pid after a respawn.
+   */
+  pid?: number;
+
+  reason?: string;
+  error?: string;
+}>;
+
+export type RepairReport = Readonly<{
+  ledger: string;
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  policies: Readonly<{ orphans: OrphanPolicy; stale: StalePolicy }>;
+  summary: ReconcileSummary;
+  actions: RepairAction[];
+
+  /**
+   * Absent on dry runs.
+   */
+  reportPath?: string;
+}>;
+
+type StaleItem = Extract<ReconcileItem, { kind: "ledger_without_process" }>;
+
+function under(path: string, dirAbs: string): boolean {
+  const p = resolve(path);
+  return p === dirAbs || p.startsWith(dirAbs + SEPARATOR);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Supplier for an adopted orphan. Tags name the cargo but not its root or
+ * kind, so the root is taken to be the cargo's directory and the kind is
+ * guessed from the extension; respawnFromLedger() refuses adopted contexts
+ * for that reason.
+ */
+function adoptedSupplier(prov: string): TabularDataSupplier {
+  const base = {
+    nature: "embedded",
+    srcPath: { path: dirname(prov) },
+    location: prov,
+    label: basename(prov),
+  } as const;
+  switch (extname(prov).toLowerCase()) {
+    case ".duckdb":
+      return { ...base, kind: "duckdb", dbPath: prov };
+    case ".xlsx":
+      return { ...base, kind: "excel", filePath: prov };
+    default:
+      return { ...base, kind: "sqlite", dbPath: prov };
+  }
+}
+
+/**
+ * Best-effort context for a running orphan, from its TRUTH_YARD_* tags.
+ */
+export function adoptedContext(
+  tp: TaggedProcess,
+  now = new Date(),
+): SpawnedContext {
+  const prov = resolve(tp.provenance);
+  const upstreamUrl = tp.upstreamUrl ?? "";
+
+  let host = "";
+  let port = 0;
+  try {
+    const u = new URL(upstreamUrl);
+    host = u.hostname;
+    port = Number(u.port);
+  } catch {
+    // untagged or malformed upstream
+  }
+
+  const [command = "", ...args] = (tp.cmdline ?? "").split(/\s+/).filter(
+    Boolean,
+  );
+  const tags = Object.fromEntries(
+    Object.entries(tp.env).filter(([k]) => k.startsWith("TRUTH_YARD_")),
+  );
+
+  return {
+    startedAt: now.toISOString(),
+    adoptedAt: now.toISOString(),
+    service: {
+      id: tp.serviceId,
+      kind: (tp.kind ?? "sqlpage") as SpawnedContext["service"]["kind"],
+      label: tp.label ?? tp.serviceId,
+      proxyEndpointPrefix: tp.proxyEndpointPrefix ?? "",
+      upstreamUrl,
+    },
+    supplier: adoptedSupplier(prov),
+    session: {
+      sessionId: tp.sessionId,
+      host: { identity: "repair", pid: Deno.pid, ...localHostIdentity() },
+      startedAt: now.toISOString(),
+    },
+    listen: { host, port, baseUrl: upstreamUrl, probeUrl: upstreamUrl },
+    spawned: { pid: tp.pid, plan: { command, args, env: tags } },
+    paths: { context: tp.contextPath },
+  };
+}
+
+/**
+ * Archived name for a stale `<name>.context.json`.
+ */
+export function staleContextPath(contextPath: string): string {
+  return contextPath.endsWith(".context.json")
+    ? contextPath.slice(0, -".context.json".length) + ".context.stale.json"
+    : `${contextPath}.stale`;
+}
+
+/**
+ * Reconcile `ledger` (a ledger home or a session home) and repair the drift
+ * according to the policies.
+ */
+export async function repairReconcile(
+  ledger: string,
+  opts: RepairOptions = {},
+): Promise<RepairReport> {
+  const base = resolve(ledger);
+  const orphans = opts.orphans ?? "adopt";
+  const stale = opts.stale ?? "archive";
+  const dryRun = opts.dryRun ?? false;
+  const startedAt = new Date();
+
+  const items: ReconcileItem[] = [];
+  const gen = reconcile(base);
+  let summary: ReconcileSummary;
+  while (true) {
+    const next = await gen.next();
+    if (next.done) {
+      summary = next.value;
+      break;
+    }
+    items.push(next.value);
+  }
+
+  const actions: RepairAction[] = [];
+
+  // orphans
+  const byPid = new Map<number, TaggedProcess>();
+  if (
+    orphans === "adopt" &&
+    items.some((i) => i.kind === "process_without_ledger")
+  ) {
+    for await (const tp of taggedProcesses()) byPid.set(tp.pid, tp);
+  }
+
+  for (const item of items) {
+    if (item.kind !== "process_without_ledger") continue;
+    if (orphans === "ignore") {
+      actions.push({ item, action: "skip", ok: true, reason: "ignored" });
+      continue;
+    }
+
+    // tagged processes of other ledgers are not ours to adopt or kill
+    if (!under(item.contextPath, base)) {
+      actions.push({
+        item,
+        action: "skip",
+        ok: true,
+        reason: "context path outside this ledger",
+      });
+      continue;
+    }
+
+    if (orphans === "kill") {
+      if (dryRun) {
+        actions.push({ item, action: "kill", ok: true });
+        continue;
+      }
+      try {
+        const outcome = await stopPID(item.pid, { graceMs: opts.graceMs });
+        actions.push({
+          item,
+          action: "kill",
+          ok: outcome.exited,
+          reason: outcome.signal ?? "already gone",
+        });
+      } catch (error) {
+        actions.push({
+          item,
+          action: "kill",
+          ok: false,
+          error: errorText(error),
+        });
+      }
+      continue;
+    }
+
+    // adopt
+    const tp = byPid.get(item.pid);
+    if (!tp) {
+      actions.push({ item, action: "skip", ok: true, reason: "process gone" });
+      continue;
+    }
+    if (dryRun) {
+      actions.push({
+        item,
+        action: "adopt",
+        ok: true,
+        contextPath: item.contextPath,
+      });
+      continue;
+    }
+    try {
+      await writeTextFileAtomic(
+        item.contextPath,
+        JSON.stringify(adoptedContext(tp), null, 2) + "\n",
+      );
+      actions.push({
+        item,
+        action: "adopt",
+        ok: true,
+        contextPath: item.contextPath,
+      });
+    } catch (error) {
+      actions.push({
+        item,
+        action: "adopt",
+        ok: false,
+        error: errorText(error),
+      });
+    }
+  }
+
+  // stale ledger entries
+  const staleItems = items.filter((i): i is StaleItem =>
+    i.kind === "ledger_without_process"
+  );
+  const contexts = new Map<string, SpawnedContext>();
+  for (const item of staleItems) {
+    try {
+      contexts.set(
+        item.ledgerContextPath,
+        JSON.parse(await Deno.readTextFile(item.ledgerContextPath)),
+      );
+    } catch {
+      // reported below
+    }
+  }
+
+  if (stale === "respawn") {
+    // newest context per cargo wins; older sessions' contexts are superseded
+    const newest = new Map<string, string>();
+    for (const [path, ctx] of contexts) {
+      const prov = resolve(ctx.supplier.location);
+      const prev = newest.get(prov);
+      if (
+        !prev ||
+        (contexts.get(prev)?.startedAt ?? "") < ctx.startedAt
+      ) newest.set(prov, path);
+    }
+
+    const toSpawn: Array<{ contextPath: string; context: SpawnedContext }> = [];
+    const pending: StaleItem[] = [];
+
+    for (const item of staleItems) {
+      const ctx = contexts.get(item.ledgerContextPath);
+      if (!ctx) {
+        actions.push({
+          item,
+          action: "respawn",
+          ok: false,
+          error: "unreadable context",
+        });
+      } else if (ctx.stoppedAt) {
+        actions.push({
+          item,
+          action: "skip",
+          ok: true,
+          reason: "stopped deliberately",
+        });
+      } else if (ctx.adoptedAt) {
+        actions.push({
+          item,
+          action: "skip",
+          ok: true,
+          reason: "adopted context (cargo root unknown)",
+        });
+      } else if (
+        newest.get(resolve(ctx.supplier.location)) !== item.ledgerContextPath
+      ) {
+        actions.push({
+          item,
+          action: "skip",
+          ok: true,
+          reason: "superseded by a newer context",
+        });
+      } else if (dryRun) {
+        actions.push({ item, action: "respawn", ok: true });
+      } else {
+        toSpawn.push({ contextPath: item.ledgerContextPath, context: ctx });
+        pending.push(item);
+      }
+    }
+
+    if (toSpawn.length > 0) {
+      let spawned: SpawnedContext[] = [];
+      let failure: string | undefined;
+      const unresolved = new Map<string, string>();
+      try {
+        const { results, failed } = await respawnFromLedger(toSpawn, {
+          verbose: false,
+          // a session home sits directly under its ledger home
+          spawnedLedgerHome: sessionStartedAt(basename(base))
+            ? dirname(base)
+            : base,
+          ...opts.materialize,
+        });
+        spawned = results.flatMap((r) => r.spawned);
+        for (const f of failed) {
+          unresolved.set(f.contextPath, errorText(f.error));
+        }
+      } catch (error) {
+        failure = errorText(error);
+      }
+
+      for (const [i, item] of pending.entries()) {
+        const prov = resolve(toSpawn[i].context.supplier.location);
+        const hit = spawned.find((c) => resolve(c.supplier.location) === prov);
+        actions.push(
+          hit
+            ? {
+              item,
+              action: "respawn",
+              ok: true,
+              pid: hit.spawned.pid,
+              contextPath: hit.paths.context,
+            }
+            : {
+              item,
+              action: "respawn",
+              ok: false,
+              error: failure ?? unresolved.get(toSpawn[i].contextPath) ??
+                "not spawned (already running, disabled or failed)",
+            },
+        );
+      }
+    }
+  } else {
+    for (const item of staleItems) {
+      if (stale === "ignore") {
+        actions.push({ item, action: "skip", ok: true, reason: "ignored" });
+        continue;
+      }
+
+      const target = staleContextPath(item.ledgerContextPath);
+      if (dryRun) {
+        actions.push({
+          item,
+          action: "archive",
+          ok: true,
+          contextPath: target,
+        });
+        continue;
+      }
+      try {
+        const ctx = contexts.get(item.ledgerContextPath);
+        if (ctx) {
+          await writeTextFileAtomic(
+            target,
+            JSON.stringify(
+              { ...ctx, archivedAt: new Date().toISOString() },
+              null,
+              2,
+            ) + "\n",
+          );
+          await Deno.remove(item.ledgerContextPath);
+        } else {
+          await Deno.rename(item.ledgerContextPath, target);
+        }
+        actions.push({
+          item,
+          action: "archive",
+          ok: true,
+          contextPath: target,
+        });
+      } catch (error) {
+        actions.push({
+          item,
+          action: "archive",
+          ok: false,
+          error: errorText(error),
+        });
+      }
+    }
+  }
+
+  const report = {
+    ledger: base,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    dryRun,
+    policies: { orphans, stale },
+    summary,
+    actions,
+  };
+  if (dryRun) return report;
+
+  const reportPath = join(
+    base,
+    REPAIR_REPORTS_DIR,
+    `${sortableDateTimeText(startedAt)}.json`,
+  );
+  await writeTextFileAtomic(reportPath, JSON.stringify(report, null, 2) + "\n");
+  return { ...report, reportPath };
+}
@@ -0,0 +1,213 @@
+// repair_test.ts
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { exists } from "@std/fs";
+import { join } from "@std/path";
+
+import {
+  adoptedContext,
+  REPAIR_REPORTS_DIR,
+  repairReconcile,
+  staleContextPath,
+} from "./repair.ts";
+import type { SpawnedContext, TaggedProcess } from "./spawn.ts";
+
+const tp: TaggedProcess = {
+  pid: 4242,
+  provenance: "/yard/cargo.d/finance/ledger.sqlite.db",
+  contextPath: "/yard/ledger.d/s1/finance/ledger.sqlite.db.context.json",
+  sessionId: "s1",
+  serviceId: "finance-ledger",
+  kind: "sqlpage",
+  label: "finance/ledger",
+  proxyEndpointPrefix: "/apps/sqlpage/finance/ledger",
+  upstreamUrl: "http://127.0.0.1:3007",
+  env: {
+    TRUTH_YARD_SERVICE_ID: "finance-ledger",
+    PATH: "/usr/bin",
+  },
+  cmdline: "sqlpage --web-root /yard/cargo.d/finance",
+};
+
+Deno.test("repair: adopted contexts", async (t) => {
+  await t.step("context is rebuilt from tags", () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    const ctx = adoptedContext(tp, now);
+    assertEquals(ctx.adoptedAt, now.toISOString());
+    assertEquals(ctx.spawned.pid, 4242);
+    assertEquals(ctx.service.id, "finance-ledger");
+    assertEquals(ctx.listen.port, 3007);
+    assertEquals(ctx.supplier.location, tp.provenance);
+    assertEquals(ctx.supplier.kind, "sqlite");
+    assert(
+      ctx.supplier.kind === "sqlite" && ctx.supplier.dbPath === tp.provenance,
+    );
+    assertEquals(ctx.paths.context, tp.contextPath);
+    assertEquals(ctx.spawned.plan.command, "sqlpage");
+    // only the yard's own tags are carried over
+    assertEquals(Object.keys(ctx.spawned.plan.env ?? {}), [
+      "TRUTH_YARD_SERVICE_ID",
+    ]);
+  });
+
+  await t.step("stale contexts keep their directory", () => {
+    assertEquals(
+      staleContextPath("/l/s1/a.sqlite.db.context.json"),
+      "/l/s1/a.sqlite.db.context.stale.json",
+    );
+  });
+});
+
+Deno.test("repair: archive stale ledger entries", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-repair-" });
+  const contextPath = join(home, "2025-01-01-00-00-00", "a.db.context.json");
+  const ctx = {
+    ...adoptedContext({ ...tp, contextPath }),
+    spawned: { pid: 999_999_999, plan: { command: "x", args: [] } },
+  } as SpawnedContext;
+
+  try {
+    await Deno.mkdir(join(home, "2025-01-01-00-00-00"));
+    await Deno.writeTextFile(contextPath, JSON.stringify(ctx));
+
+    await t.step("adopted contexts are not respawned", async () => {
+      const report = await repairReconcile(home, {
+        stale: "respawn",
+        dryRun: true,
+      });
+      const [action] = report.actions.filter((a) =>
+        a.item.kind === "ledger_without_process"
+      );
+      assertEquals(action.action, "skip");
+      assertEquals(action.reason, "adopted context (cargo root unknown)");
+    });
+
+    await t.step("dry run changes nothing", async () => {
+      const report = await repairReconcile(home, { dryRun: true });
+      assertEquals(report.summary.ledgerWithoutProcess, 1);
+      const [action] = report.actions.filter((a) =>
+        a.item.kind === "ledger_without_process"
+      );
+      assertEquals(action.action, "archive");
+      assertEquals(action.contextPath, staleContextPath(contextPath));
+      assertEquals(report.reportPath, undefined);
+      assert(await exists(contextPath));
+      assertFalse(await exists(join(home, REPAIR_REPORTS_DIR)));
+    });
+
+    await t.step(
+      "archive renames the context and writes a report",
+      async () => {
+        const report = await repairReconcile(home, { stale: "archive" });
+        assertFalse(await exists(contextPath));
+
+        const archived = JSON.parse(
+          await Deno.readTextFile(staleContextPath(contextPath)),
+        );
+        assert(typeof archived.archivedAt === "string");
+
+        assert(report.reportPath);
+        const written = JSON.parse(await Deno.readTextFile(report.reportPath));
+        assertEquals(written.policies, { orphans: "adopt", stale: "archive" });
+        assert(
+          written.actions.some((a: { action: string }) =>
+            a.action === "archive"
+          ),
+        );
+      },
+    );
+
+    await t.step("archived contexts are no longer drift", async () => {
+      const report = await repairReconcile(home, { dryRun: true });
+      assertEquals(report.summary.ledgerWithoutProcess, 0);
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
+
+Deno.test("repair: respawn reports cargo that is gone per entry", async () => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-repair-" });
+  const session = join(home, "2025-01-01-00-00-00");
+  const ctxOf = (name: string, pid: number) =>
+    ({
+      startedAt: "2025-01-01T00:00:00.000Z",
+      service: {
+        id: name,
+        kind: "sqlpage",
+        label: name,
+        proxyEndpointPrefix: `/apps/${name}`,
+        upstreamUrl: "http://127.0.0.1:3000",
+      },
+      supplier: {
+        kind: "sqlite",
+        location: `/gone/cargo.d/${name}.db`,
+        srcPath: { path: "/gone/cargo.d" },
+      },
+      session: { sessionId: "s1" },
+      listen: { host: "127.0.0.1", port: 3000 },
+      spawned: { pid, plan: { command: "x", args: [] } },
+    }) as unknown as SpawnedContext;
+
+  try {
+    await Deno.mkdir(session);
+    for (
+      const [name, pid] of [["a", 999_999_998], ["b", 999_999_999]] as const
+    ) {
+      await Deno.writeTextFile(
+        join(session, `${name}.db.context.json`),
+        JSON.stringify(ctxOf(name, pid)),
+      );
+    }
+
+    const report = await repairReconcile(home, { stale: "respawn" });
+    const respawns = report.actions.filter((a) => a.action === "respawn");
+    assertEquals(respawns.length, 2);
+    for (const a of respawns) {
+      assertFalse(a.ok);
+      assert(a.error?.includes("/gone/cargo.d"), a.error);
+    }
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
+
+Deno.test("repair: respawns from a session use its ledger home", async () => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-repair-" });
+  const session = join(home, "2025-01-01-00-00-00");
+  const cargo = join(home, "cargo.d");
+  const ctx = {
+    startedAt: "2025-01-01T00:00:00.000Z",
+    service: {
+      id: "a",
+      kind: "sqlpage",
+      label: "a",
+      proxyEndpointPrefix: "/apps/a",
+      upstreamUrl: "http://127.0.0.1:3000",
+    },
+    supplier: {
+      kind: "sqlite",
+      location: join(cargo, "a.sqlite.db"),
+      srcPath: { path: cargo },
+    },
+    session: { sessionId: "s1" },
+    listen: { host: "127.0.0.1", port: 3000 },
+    spawned: { pid: 999_999_999, plan: { command: "x", args: [] } },
+  } as unknown as SpawnedContext;
+
+  try {
+    await Deno.mkdir(session);
+    await Deno.mkdir(cargo);
+    await Deno.writeTextFile(join(cargo, "a.sqlite.db"), "");
+    // not at the path the cargo maps to, so the respawn opens a new session
+    await Deno.writeTextFile(
+      join(session, "moved.context.json"),
+      JSON.stringify(ctx),
+    );
+
+    await repairReconcile(session, { stale: "respawn" });
+    assert(await exists(join(home, ".current-session")));
+    assertFalse(await exists(join(session, ".current-session")));
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
@@ -1,21 +1,13 @@
 // lib/reverse-proxy-conf.ts
-import { ensureDir } from "@std/fs";
-import { normalize as normalizePath } from "@std/path";
+import { normalize as normalizePath, resolve } from "@std/path";
+
+import { writeTextFileAtomic } from "./path.ts";
 import { taggedProcesses } from "./spawn.ts";
 
 function safeFileName(s: string) {
   return s.replaceAll(/[^A-Za-z0-9._-]/g, "_");
 }
 
-async function writeTextAtomic(path: string, content: string) {
-  const p = normalizePath(path).replaceAll("\\", "/");
-  const dir = p.slice(0, Math.max(0, p.lastIndexOf("/")));
-  if (dir) await ensureDir(dir);
-  const tmp = `${p}.tmp`;
-  await Deno.writeTextFile(tmp, content);
-  await Deno.rename(tmp, p);
-}
-
 function fnv1a32Hex(s: string): string {
   let h = 0x811c9dc5;
   for (let i = 0; i < s.length; i++) {
@@ -56,6 +48,25 @@ export type ProxyConfOverrides = Readonly<{
     stripPrefix?: boolean;
     extra?: string;
   }>;
+  caddy?: Readonly<{
+    locationPrefix?: string;
+    siteAddress?: string;
+    stripPrefix?: boolean;
+    extra?: string;
+  }>;
+  haproxy?: Readonly<{
+    locationPrefix?: string;
+    bind?: string;
+    stripPrefix?: boolean;
+    extra?: string;
+  }>;
+  apache?: Readonly<{
+    locationPrefix?: string;
+    serverName?: string;
+    listen?: string;
+    stripPrefix?: boolean;
+    extra?: string;
+  }>;
   nginxProxyManager?: Readonly<{
     locationPrefix?: string;
     upstreamScheme?: string;
@@ -356,70 +367,550 @@ http:
 ${mwBlock}${extraBlock}`;
 }
 
-export async function generateReverseProxyConfsFromSpawnedStates(args: {
-  nginxConfHome?: string;
-  traefikConfHome?: string;
-  verbose?: boolean;
-  overrides?: ProxyConfOverrides;
-}) {
-  const overrides = args.overrides ?? {};
+function quoted(s: string): string {
+  return `"${s.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
 
-  const states: SpawnedState[] = [];
-  for await (const s of taggedProcesses()) {
-    states.push(s);
+function caddyHeaderLine(name: string, value: string | number): string {
+  return `      header_up X-Truth-Yard-${name} ${quoted(String(value))}\n`;
+}
+
+/**
+ * A Caddyfile `handle` block for one service, meant to sit inside a site
+ * block (see caddyImportConf and caddyBundledReverseProxyConf). Caddy sets
+ * Host and X-Forwarded-* itself, so only the X-Truth-Yard headers are added;
+ * stripPrefix uses `handle_path`, which drops the matched prefix.
+ */
+export function caddyReverseProxySnippetFromState(
+  s: SpawnedState,
+  overrides: ProxyConfOverrides = {},
+): string {
+  const id = stateId(s);
+  const kind = stateKind(s);
+  const dbPath = stateDbPath(s);
+  const upstream = upstreamFromState(s);
+
+  const locationPrefix = overrides.caddy?.locationPrefix ??
+    defaultLocationPrefixFromState(s);
+  const stripPrefix = overrides.caddy?.stripPrefix ?? false;
+
+  const rawLp = ensureTrailingSlash(locationPrefix).replaceAll(/\/+/g, "/");
+  const lp = (rawLp === "/") ? "" : trimTrailingSlashes(rawLp);
+
+  // `/x/*` does not match `/x` itself; send it to the slash form like nginx
+  const redirLine = lp ? `  redir ${lp} ${lp}/ 308\n` : "";
+  const handle = stripPrefix ? "handle_path" : "handle";
+
+  const hdrs = caddyHeaderLine("Id", id) +
+    caddyHeaderLine("Db", dbPath) +
+    caddyHeaderLine("Kind", kind) +
+    caddyHeaderLine("Pid", s.pid) +
+    caddyHeaderLine("Upstream", upstream) +
+    caddyHeaderLine("ProxyPrefix", rawLp);
+
+  return `  # Truth Yard caddy reverse proxy (generated)
+  # id=${id}
+  # db=${dbPath}
+  # kind=${kind}
+  # pid=${s.pid}
+  # upstream=${upstream}
+  # proxyPrefix=${rawLp}
+${redirLine}  ${handle} ${lp}/* {
+    reverse_proxy ${upstream} {
+${hdrs}    }
   }
+`;
+}
 
-  if (args.nginxConfHome) {
-    const dir = normalizePath(args.nginxConfHome);
-    await ensureDir(dir);
+function caddySiteBlock(body: string, overrides: ProxyConfOverrides): string {
+  const siteAddress = overrides.caddy?.siteAddress ?? ":80";
+  const extra = overrides.caddy?.extra ?? "";
+  const extraBlock = extra.trim() ? `\n${extra.trimEnd()}\n` : "";
 
-    for (const s of states) {
-      const id = stateId(s);
-      const fn = `truth-yard.${safeFileName(id)}.conf`;
-      await writeTextAtomic(
-        `${dir}/${fn}`,
-        nginxReverseProxyConfFromState(s, overrides),
-      );
-    }
+  return `# Truth Yard Caddyfile (generated)
+${siteAddress} {
+${body}${extraBlock}}
+`;
+}
 
-    const bundle = nginxBundledReverseProxyConf(states, overrides);
-    await writeTextAtomic(`${dir}/truth-yard.generated.conf`, bundle);
+export function caddyBundledReverseProxyConf(
+  states: SpawnedState[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  if (states.length === 0) return "";
+  return caddySiteBlock(
+    states.map((s) => caddyReverseProxySnippetFromState(s, overrides)).join(
+      "\n",
+    ),
+    overrides,
+  );
+}
 
-    if (args.verbose) {
-      console.log(
-        `[spawned] wrote nginx conf(s) to: ${dir} (and truth-yard.generated.conf)`,
-      );
-    }
+/**
+ * Site block importing per-service snippet files (paths relative to the
+ * importing Caddyfile).
+ */
+export function caddyImportConf(
+  snippetFiles: string[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  return caddySiteBlock(
+    snippetFiles.map((f) => `  import ${f}\n`).join(""),
+    overrides,
+  );
+}
+
+function yardHeaders(args: {
+  id: string;
+  dbPath: string;
+  kind: string;
+  pid: number;
+  upstream: string;
+  proxyPrefix: string;
+}): Array<[string, string]> {
+  const { id, dbPath, kind, pid, upstream, proxyPrefix } = args;
+  return [
+    ["Id", id],
+    ["Db", dbPath],
+    ["Kind", kind],
+    ["Pid", String(pid)],
+    ["Upstream", upstream],
+    ["ProxyPrefix", proxyPrefix],
+  ];
+}
+
+function upstreamHostPort(upstream: string): string {
+  try {
+    const u = new URL(upstream);
+    const port = u.port || (u.protocol === "https:" ? "443" : "80");
+    return `${u.hostname}:${port}`;
+  } catch {
+    return upstream;
   }
+}
+
+function haproxyNames(s: SpawnedState) {
+  const id = stateId(s);
+  const name = safeFileName(id);
+  const hash = fnv1a32Hex(id);
+  return {
+    backend: `truth-yard-${name}-${hash}`,
+    acl: `is_${name}_${hash}`,
+    server: name,
+  };
+}
+
+function haproxyLocation(s: SpawnedState, overrides: ProxyConfOverrides) {
+  const locationPrefix = overrides.haproxy?.locationPrefix ??
+    defaultLocationPrefixFromState(s);
+  const rawLp = ensureTrailingSlash(locationPrefix).replaceAll(/\/+/g, "/");
+  const lp = (rawLp === "/") ? "" : trimTrailingSlashes(rawLp);
+  return { rawLp, lp };
+}
+
+/**
+ * ACL and routing lines of one service for the `frontend` section: `path`
+ * matches the bare prefix, `path_beg` everything below it.
+ */
+function haproxyFrontendLines(
+  s: SpawnedState,
+  overrides: ProxyConfOverrides,
+): string {
+  const { acl, backend } = haproxyNames(s);
+  const { lp } = haproxyLocation(s, overrides);
+  const acls = lp
+    ? `  acl ${acl} path ${lp}\n  acl ${acl} path_beg ${lp}/\n`
+    : `  acl ${acl} path_beg /\n`;
+  return `${acls}  use_backend ${backend} if ${acl}\n`;
+}
+
+/**
+ * HAProxy `backend` section for one service. The matching frontend lines
+ * (see haproxyBundledReverseProxyConf) are listed in its comment.
+ */
+export function haproxyBackendFromState(
+  s: SpawnedState,
+  overrides: ProxyConfOverrides = {},
+): string {
+  const id = stateId(s);
+  const kind = stateKind(s);
+  const dbPath = stateDbPath(s);
+  const upstream = upstreamFromState(s);
+
+  const { backend, server } = haproxyNames(s);
+  const { rawLp, lp } = haproxyLocation(s, overrides);
+  const stripPrefix = overrides.haproxy?.stripPrefix ?? false;
+
+  const stripLine = stripPrefix && lp
+    ? `  http-request replace-path ^${lp}/?(.*)$ /\\1\n`
+    : "";
+
+  const hdrs = yardHeaders({
+    id,
+    dbPath,
+    kind,
+    pid: s.pid,
+    upstream,
+    proxyPrefix: rawLp,
+  }).map(([name, value]) =>
+    `  http-request set-header X-Truth-Yard-${name} ${quoted(value)}\n`
+  ).join("");
+
+  const frontendHint = haproxyFrontendLines(s, overrides)
+    .split("\n").filter(Boolean).map((l) => `#  ${l.trim()}`).join("\n");
+
+  return `# Truth Yard haproxy backend (generated)
+# id=${id}
+# db=${dbPath}
+# kind=${kind}
+# pid=${s.pid}
+# upstream=${upstream}
+# proxyPrefix=${rawLp}
+# frontend routing:
+${frontendHint}
+backend ${backend}
+  mode http
+  option forwardfor
+${hdrs}${stripLine}  server ${server} ${upstreamHostPort(upstream)}
+`;
+}
+
+/**
+ * HAProxy `frontend truth-yard` section routing every service to its backend.
+ * With `--haproxy-out` this is all of `truth-yard.generated.cfg`: the backends
+ * live in their own files and haproxy loads the directory (`-f <dir>`).
+ */
+export function haproxyFrontendConf(
+  states: SpawnedState[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  if (states.length === 0) return "";
+
+  const bind = overrides.haproxy?.bind ?? "*:80";
+  const extra = overrides.haproxy?.extra ?? "";
+  const extraBlock = extra.trim() ? `${extra.trimEnd()}\n` : "";
+
+  // longest prefixes first so nested prefixes win
+  const routed = [...states].sort((a, b) =>
+    haproxyLocation(b, overrides).lp.length -
+    haproxyLocation(a, overrides).lp.length
+  );
+
+  return `# Truth Yard haproxy config (generated)
+frontend truth-yard
+  bind ${bind}
+  mode http
+${extraBlock}${routed.map((s) => haproxyFrontendLines(s, overrides)).join("")}`;
+}
+
+/**
+ * The frontend followed by every backend, as a single config.
+ */
+export function haproxyBundledReverseProxyConf(
+  states: SpawnedState[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  if (states.length === 0) return "";
+  return `${haproxyFrontendConf(states, overrides)}
+${states.map((s) => haproxyBackendFromState(s, overrides)).join("\n")}`;
+}
+
+function apacheLocation(s: SpawnedState, overrides: ProxyConfOverrides) {
+  const locationPrefix = overrides.apache?.locationPrefix ??
+    defaultLocationPrefixFromState(s);
+  const rawLp = ensureTrailingSlash(locationPrefix).replaceAll(/\/+/g, "/");
+  const lp = (rawLp === "/") ? "" : trimTrailingSlashes(rawLp);
+  return { rawLp, lp };
+}
+
+/**
+ * Indexes of `states` in `<Location>` order. Apache merges every matching
+ * `<Location>` in file order and the last one wins, so shorter prefixes come
+ * first and nested ones after them.
+ */
+function apacheLocationOrder(
+  states: SpawnedState[],
+  overrides: ProxyConfOverrides,
+): number[] {
+  const lengths = states.map((s) => apacheLocation(s, overrides).rawLp.length);
+  return states.map((_, i) => i).sort((a, b) => lengths[a] - lengths[b]);
+}
 
-  if (args.traefikConfHome) {
-    const dir = normalizePath(args.traefikConfHome);
-    await ensureDir(dir);
+/**
+ * Apache `<Location>` block for one service, meant to sit inside a
+ * `<VirtualHost>` (see apacheIncludeConf and apacheBundledReverseProxyConf).
+ */
+export function apacheLocationFromState(
+  s: SpawnedState,
+  overrides: ProxyConfOverrides = {},
+): string {
+  const id = stateId(s);
+  const kind = stateKind(s);
+  const dbPath = stateDbPath(s);
+  const upstream = trimTrailingSlashes(upstreamFromState(s));
 
+  const stripPrefix = overrides.apache?.stripPrefix ?? false;
+  const { rawLp, lp } = apacheLocation(s, overrides);
+
+  const target = `${upstream}${stripPrefix ? "/" : rawLp}`;
+  const redirLine = lp ? `  RedirectMatch 308 ^${lp}$ ${lp}/\n\n` : "";
+
+  const hdrs = yardHeaders({
+    id,
+    dbPath,
+    kind,
+    pid: s.pid,
+    upstream,
+    proxyPrefix: rawLp,
+  }).map(([name, value]) =>
+    `    RequestHeader set X-Truth-Yard-${name} ${quoted(value)}\n`
+  ).join("");
+
+  return `  # Truth Yard apache reverse proxy (generated)
+  # id=${id}
+  # db=${dbPath}
+  # kind=${kind}
+  # pid=${s.pid}
+  # upstream=${upstream}
+  # proxyPrefix=${rawLp}
+${redirLine}  <Location ${rawLp}>
+    ProxyPass ${target}
+    ProxyPassReverse ${target}
+${hdrs}  </Location>
+`;
+}
+
+function apacheVirtualHost(body: string, overrides: ProxyConfOverrides) {
+  const serverName = overrides.apache?.serverName;
+  const listen = overrides.apache?.listen ?? "80";
+  const extra = overrides.apache?.extra ?? "";
+  const extraBlock = extra.trim() ? `\n${extra.trimEnd()}\n` : "";
+  const address = listen.includes(":") ? listen : `*:${listen}`;
+
+  return `# requires mod_proxy, mod_proxy_http and mod_headers
+<VirtualHost ${address}>
+${serverName ? `  ServerName ${serverName}\n` : ""}  ProxyPreserveHost On
+
+${body}${extraBlock}</VirtualHost>
+`;
+}
+
+/**
+ * Apache httpd `<VirtualHost>` with one `ProxyPass`/`ProxyPassReverse`
+ * `<Location>` for the service (mod_proxy adds X-Forwarded-*).
+ */
+export function apacheReverseProxyConfFromState(
+  s: SpawnedState,
+  overrides: ProxyConfOverrides = {},
+): string {
+  return apacheVirtualHost(apacheLocationFromState(s, overrides), overrides);
+}
+
+/**
+ * `<VirtualHost>` that `Include`s one `<Location>` file per service (Apache
+ * resolves relative paths against ServerRoot, so pass absolute ones).
+ */
+export function apacheIncludeConf(
+  locationFiles: string[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  return apacheVirtualHost(
+    locationFiles.map((f) => `  Include ${quoted(f)}\n`).join(""),
+    overrides,
+  );
+}
+
+export function apacheBundledReverseProxyConf(
+  states: SpawnedState[],
+  overrides: ProxyConfOverrides = {},
+): string {
+  if (states.length === 0) return "";
+  return apacheVirtualHost(
+    apacheLocationOrder(states, overrides)
+      .map((i) => apacheLocationFromState(states[i], overrides))
+      .join("\n"),
+    overrides,
+  );
+}
+
+export type ProxyConfType =
+  | "nginx"
+  | "traefik"
+  | "caddy"
+  | "haproxy"
+  | "apache";
+
+/**
+ * Output directory per config type; types without a directory are skipped.
+ */
+export type ProxyConfTargets = Readonly<{
+  nginxConfHome?: string;
+  traefikConfHome?: string;
+  caddyConfHome?: string;
+  haproxyConfHome?: string;
+  apacheConfHome?: string;
+}>;
+
+type ProxyConfGenerator = Readonly<{
+  home: keyof ProxyConfTargets;
+  ext: string;
+  service: (s: SpawnedState, overrides: ProxyConfOverrides) => string;
+  bundle: (
+    states: SpawnedState[],
+    overrides: ProxyConfOverrides,
+    serviceFiles: string[],
+    dir: string,
+  ) => string;
+}>;
+
+const PROXY_CONF_GENERATORS: Readonly<
+  Record<ProxyConfType, ProxyConfGenerator>
+> = {
+  nginx: {
+    home: "nginxConfHome",
+    ext: "conf",
+    service: nginxReverseProxyConfFromState,
+    bundle: nginxBundledReverseProxyConf,
+  },
+  traefik: {
+    home: "traefikConfHome",
+    ext: "yaml",
+    service: traefikReverseProxyConfFromState,
+    bundle: (states, overrides) =>
+      states.map((s) => traefikReverseProxyConfFromState(s, overrides))
+        .join("\n"),
+  },
+  caddy: {
+    home: "caddyConfHome",
+    ext: "caddy",
+    service: caddyReverseProxySnippetFromState,
+    bundle: (_states, overrides, serviceFiles) =>
+      caddyImportConf(serviceFiles, overrides),
+  },
+  haproxy: {
+    home: "haproxyConfHome",
+    ext: "cfg",
+    service: haproxyBackendFromState,
+    bundle: haproxyFrontendConf,
+  },
+  apache: {
+    home: "apacheConfHome",
+    ext: "conf",
+    service: apacheLocationFromState,
+    bundle: (states, overrides, serviceFiles, dir) =>
+      apacheIncludeConf(
+        apacheLocationOrder(states, overrides)
+          .map((i) => `${resolve(dir)}/${serviceFiles[i]}`),
+        overrides,
+      ),
+  },
+};
+
+/**
+ * Targets with a single output directory for `type`.
+ */
+export function proxyConfTarget(
+  type: ProxyConfType,
+  dir: string,
+): ProxyConfTargets {
+  return { [PROXY_CONF_GENERATORS[type].home]: dir };
+}
+
+/**
+ * Output directories of `targets`, each with the pattern of the file names
+ * written there: one `truth-yard.<id>.<ext>` per service plus
+ * `truth-yard.generated.<ext>`.
+ */
+export function proxyConfHomes(
+  targets: ProxyConfTargets,
+): Array<{ type: ProxyConfType; dir: string; pattern: RegExp }> {
+  return Object.entries(PROXY_CONF_GENERATORS).flatMap(([type, gen]) => {
+    const home = targets[gen.home];
+    return home
+      ? [{
+        type: type as ProxyConfType,
+        dir: normalizePath(home),
+        pattern: new RegExp(`^truth-yard\\..+\\.${gen.ext}$`),
+      }]
+      : [];
+  });
+}
+
+/**
+ * Every config file for `targets`, by path (pure; nothing is written).
+ */
+export function reverseProxyConfFiles(
+  states: SpawnedState[],
+  targets: ProxyConfTargets,
+  overrides: ProxyConfOverrides = {},
+): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const gen of Object.values(PROXY_CONF_GENERATORS)) {
+    const home = targets[gen.home];
+    if (!home) continue;
+    const dir = normalizePath(home);
+
+    const serviceFiles: string[] = [];
     for (const s of states) {
-      const id = stateId(s);
-      const fn = `truth-yard.${safeFileName(id)}.yaml`;
-      await writeTextAtomic(
-        `${dir}/${fn}`,
-        traefikReverseProxyConfFromState(s, overrides),
-      );
+      const fn = `truth-yard.${safeFileName(stateId(s))}.${gen.ext}`;
+      files.set(`${dir}/${fn}`, gen.service(s, overrides));
+      serviceFiles.push(fn);
     }
+    files.set(
+      `${dir}/truth-yard.generated.${gen.ext}`,
+      gen.bundle(states, overrides, serviceFiles, dir),
+    );
+  }
+  return files;
+}
 
-    const bundle = states.map((s) =>
-      traefikReverseProxyConfFromState(s, overrides)
-    )
-      .join("\n");
-    await writeTextAtomic(`${dir}/truth-yard.generated.yaml`, bundle);
+export async function generateReverseProxyConfsFromSpawnedStates(
+  args: ProxyConfTargets & {
+    verbose?: boolean;
+    overrides?: ProxyConfOverrides;
+
+    /**
+     * What to print when no output directory is given (default nginx).
+     */
+    stdoutType?: Exclude<ProxyConfType, "traefik">;
+  },
+) {
+  const overrides = args.overrides ?? {};
 
-    if (args.verbose) {
+  const states: SpawnedState[] = [];
+  for await (const s of taggedProcesses()) {
+    states.push(s);
+  }
+
+  for (
+    const [path, content] of reverseProxyConfFiles(states, args, overrides)
+  ) {
+    await writeTextFileAtomic(normalizePath(path), content);
+  }
+
+  if (args.verbose) {
+    for (const [type, gen] of Object.entries(PROXY_CONF_GENERATORS)) {
+      const home = args[gen.home];
+      if (!home) continue;
       console.log(
-        `[spawned] wrote traefik conf(s) to: ${dir} (and truth-yard.generated.yaml)`,
+        `[spawned] wrote ${type} conf(s) to: ${
+          normalizePath(home)
+        } (and truth-yard.generated.${gen.ext})`,
       );
     }
   }
 
-  if (!args.nginxConfHome && !args.traefikConfHome) {
-    console.log(nginxBundledReverseProxyConf(states, overrides));
+  const anyHome = Object.values(PROXY_CONF_GENERATORS).some((g) =>
+    args[g.home]
+  );
+  if (!anyHome) {
+    const print = {
+      nginx: nginxBundledReverseProxyConf,
+      caddy: caddyBundledReverseProxyConf,
+      haproxy: haproxyBundledReverseProxyConf,
+      apache: apacheBundledReverseProxyConf,
+    }[args.stdoutType ?? "nginx"];
+    console.log(print(states, overrides));
   }
 }
 
@@ -0,0 +1,240 @@
+// reverse-proxy-conf_test.ts
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+
+import {
+  apacheBundledReverseProxyConf,
+  apacheIncludeConf,
+  apacheLocationFromState,
+  apacheReverseProxyConfFromState,
+  caddyBundledReverseProxyConf,
+  caddyImportConf,
+  caddyReverseProxySnippetFromState,
+  haproxyBackendFromState,
+  haproxyBundledReverseProxyConf,
+  haproxyFrontendConf,
+  proxyConfTarget,
+  reverseProxyConfFiles,
+} from "./reverse-proxy-conf.ts";
+import type { SpawnedContext, TaggedProcess } from "./spawn.ts";
+
+function stateOf(
+  id: string,
+  cargo: string,
+  proxyEndpointPrefix: string,
+  port: number,
+  pid: number,
+): TaggedProcess {
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    pid,
+    provenance: `/yard/cargo.d/${cargo}`,
+    contextPath: `/yard/ledger.d/s1/${cargo}.context.json`,
+    sessionId: "s1",
+    serviceId: id,
+    env: {},
+    context: {
+      service: {
+        id,
+        kind: "sqlpage",
+        label: cargo,
+        proxyEndpointPrefix,
+        upstreamUrl: baseUrl,
+      },
+      supplier: { location: `/yard/cargo.d/${cargo}` },
+      listen: { host: "127.0.0.1", port, baseUrl, probeUrl: baseUrl },
+    } as unknown as SpawnedContext,
+  };
+}
+
+const state = stateOf(
+  "finance-ledger",
+  "finance/ledger.sqlite.db",
+  "/apps/sqlpage/finance/ledger",
+  3000,
+  42,
+);
+const states = [
+  state,
+  stateOf("chinook", "chinook.db", "/apps/sqlpage/chinook", 3001, 43),
+];
+
+const goldenDir = new URL("../support/fixtures/proxy-conf/", import.meta.url);
+
+/**
+ * Compare with `support/fixtures/proxy-conf/<name>`; run with
+ * UPDATE_GOLDEN=1 to rewrite the golden files after intended changes.
+ */
+async function assertGolden(name: string, actual: string) {
+  const url = new URL(name, goldenDir);
+  if (Deno.env.get("UPDATE_GOLDEN") === "1") {
+    await Deno.mkdir(goldenDir, { recursive: true });
+    await Deno.writeTextFile(url, actual);
+    return;
+  }
+  assertEquals(actual, await Deno.readTextFile(url), `golden ${name}`);
+}
+
+Deno.test("reverse-proxy-conf: caddy", async (t) => {
+  await t.step("snippet proxies the prefix with yard headers", () => {
+    const out = caddyReverseProxySnippetFromState(state);
+    assertStringIncludes(
+      out,
+      "redir /apps/sqlpage/finance/ledger /apps/sqlpage/finance/ledger/ 308",
+    );
+    assertStringIncludes(out, "handle /apps/sqlpage/finance/ledger/* {");
+    assertStringIncludes(out, "reverse_proxy http://127.0.0.1:3000 {");
+    assertStringIncludes(out, 'header_up X-Truth-Yard-Id "finance-ledger"');
+    assertStringIncludes(out, 'header_up X-Truth-Yard-Pid "42"');
+    assertStringIncludes(
+      out,
+      'header_up X-Truth-Yard-ProxyPrefix "/apps/sqlpage/finance/ledger/"',
+    );
+  });
+
+  await t.step("overrides", () => {
+    const out = caddyReverseProxySnippetFromState(state, {
+      caddy: { locationPrefix: "/ledger", stripPrefix: true },
+    });
+    assertStringIncludes(out, "handle_path /ledger/* {");
+    assertStringIncludes(out, "redir /ledger /ledger/ 308");
+
+    const root = caddyReverseProxySnippetFromState(state, {
+      caddy: { locationPrefix: "/" },
+    });
+    assertStringIncludes(root, "handle /* {");
+    assert(!root.includes("redir"));
+  });
+
+  await t.step("site blocks", () => {
+    const bundle = caddyBundledReverseProxyConf([state], {
+      caddy: { siteAddress: "yard.example.com", extra: "  encode gzip" },
+    });
+    assert(bundle.includes("yard.example.com {\n"));
+    assert(bundle.trimEnd().endsWith("  encode gzip\n}"));
+    assertEquals(caddyBundledReverseProxyConf([]), "");
+
+    assertEquals(
+      caddyImportConf(["truth-yard.a.caddy", "truth-yard.b.caddy"]),
+      "# Truth Yard Caddyfile (generated)\n:80 {\n" +
+        "  import truth-yard.a.caddy\n  import truth-yard.b.caddy\n}\n",
+    );
+  });
+});
+
+Deno.test("reverse-proxy-conf: haproxy golden files", async (t) => {
+  await t.step("backend", async () => {
+    await assertGolden("haproxy.backend.cfg", haproxyBackendFromState(state));
+  });
+
+  await t.step("bundle", async () => {
+    await assertGolden(
+      "haproxy.generated.cfg",
+      haproxyBundledReverseProxyConf(states),
+    );
+  });
+
+  await t.step("written files define each backend once", async () => {
+    await assertGolden("haproxy.frontend.cfg", haproxyFrontendConf(states));
+
+    const files = reverseProxyConfFiles(
+      states,
+      proxyConfTarget("haproxy", "/etc/haproxy/truth-yard"),
+    );
+    const all = [...files.values()].join("\n");
+    for (const s of states) {
+      const backend = haproxyBackendFromState(s).match(/^backend .+$/m)![0];
+      assertEquals(all.split(`\n${backend}\n`).length - 1, 1, backend);
+    }
+    assertEquals(
+      files.get("/etc/haproxy/truth-yard/truth-yard.generated.cfg"),
+      haproxyFrontendConf(states),
+    );
+  });
+
+  await t.step("overrides", async () => {
+    await assertGolden(
+      "haproxy.strip-prefix.cfg",
+      haproxyBundledReverseProxyConf([state], {
+        haproxy: {
+          locationPrefix: "/ledger",
+          bind: ":8080",
+          stripPrefix: true,
+          extra: "  http-request deny if { path_beg /admin }",
+        },
+      }),
+    );
+  });
+});
+
+Deno.test("reverse-proxy-conf: apache golden files", async (t) => {
+  await t.step("virtual host per service", async () => {
+    await assertGolden(
+      "apache.service.conf",
+      apacheReverseProxyConfFromState(state),
+    );
+  });
+
+  await t.step("bundle", async () => {
+    await assertGolden(
+      "apache.generated.conf",
+      apacheBundledReverseProxyConf(states),
+    );
+  });
+
+  await t.step(
+    "written files: one VirtualHost including the locations",
+    async () => {
+      await assertGolden(
+        "apache.location.conf",
+        apacheLocationFromState(state),
+      );
+
+      const dir = "/etc/apache2/truth-yard";
+      const files = reverseProxyConfFiles(
+        states,
+        proxyConfTarget("apache", dir),
+      );
+      const serviceFiles = [...files.keys()].filter((p) =>
+        !p.endsWith(".generated.conf")
+      );
+      for (const f of serviceFiles) {
+        assert(!files.get(f)!.includes("<VirtualHost"), f);
+      }
+      await assertGolden(
+        "apache.include.conf",
+        files.get(`${dir}/truth-yard.generated.conf`)!,
+      );
+      // shorter prefixes first (chinook), nested ones last
+      assertEquals(
+        files.get(`${dir}/truth-yard.generated.conf`),
+        apacheIncludeConf([...serviceFiles].reverse()),
+      );
+    },
+  );
+
+  await t.step("nested prefixes come after their parents", async () => {
+    await assertGolden(
+      "apache.nested.conf",
+      apacheBundledReverseProxyConf([
+        stateOf("chinook", "chinook.db", "/apps/sqlpage/chinook", 3001, 43),
+        stateOf("portal", "portal.sqlite.db", "/", 3002, 44),
+        stateOf("apps", "apps.sqlite.db", "/apps", 3003, 45),
+      ]),
+    );
+  });
+
+  await t.step("overrides", async () => {
+    await assertGolden(
+      "apache.strip-prefix.conf",
+      apacheBundledReverseProxyConf([state], {
+        apache: {
+          locationPrefix: "/ledger",
+          serverName: "yard.example.com",
+          listen: "8080",
+          stripPrefix: true,
+          extra: '  Header set X-Frame-Options "DENY"',
+        },
+      }),
+    );
+  });
+});
@@ -91,6 +91,8 @@ function fmtMaybe(v: unknown): string {
 
 function stringifyError(err: unknown): string {
   if (err instanceof Error) return err.message;
+  // errors replayed from an events.jsonl journal
+  if (isRecord(err) && typeof err.message === "string") return err.message;
   return String(err);
 }
 
@@ -192,6 +194,55 @@ export function richTextUISpawnEvents(
       return;
     }
 
+    if (type === "port_lease_conflict") {
+      const port = getNumber(ev, "port");
+      const holder = getString(ev, "holder");
+      const why = getString(ev, "reason") === "in_use"
+        ? "leased port in use"
+        : `port leased to ${holder ?? "other cargo"}`;
+      console.log(
+        `${fmtTime(ev)} ⚠️ ${svc(ev)} ${yellow(why)} ${
+          cyan(String(port ?? "?"))
+        }`,
+      );
+      return;
+    }
+
+    if (type === "port_reassigned") {
+      const previousPort = getNumber(ev, "previousPort");
+      const port = getNumber(ev, "port");
+      console.log(
+        `${fmtTime(ev)} 🔀 ${svc(ev)} port ${
+          dim(String(previousPort ?? "?"))
+        } → ${cyan(String(port ?? "?"))} ${
+          dim(`(${getString(ev, "reason") ?? "?"})`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "host_lease_held_elsewhere") {
+      const holder = getRecord(ev, "holder") ?? {};
+      const host = getRecord(holder, "host") ?? {};
+      console.log(
+        `${fmtTime(ev)} 🛳️ ${svc(ev)} ${yellow("launched by")} ${
+          cyan(getString(host, "hostname") ?? "another host")
+        } ${dim(`lease until ${getString(holder, "expiresAt") ?? "?"}`)}`,
+      );
+      return;
+    }
+
+    if (type === "host_lease_taken_over") {
+      const previous = getRecord(ev, "previous") ?? {};
+      const host = getRecord(previous, "host") ?? {};
+      console.log(
+        `${fmtTime(ev)} ⚓ ${svc(ev)} ${yellow("took over expired lease")} ${
+          dim(`from ${getString(host, "hostname") ?? "?"}`)
+        }`,
+      );
+      return;
+    }
+
     if (type === "spawning") {
       console.log(`${fmtTime(ev)} 🧬 spawning ${svc(ev)}`);
       return;
@@ -206,6 +257,146 @@ export function richTextUISpawnEvents(
       return;
     }
 
+    // supervision (watch mode liveness)
+    if (type === "process_exited") {
+      const pid = getNumber(ev, "pid");
+      console.log(
+        `${fmtTime(ev)} 🔴 exited ${svc(ev)} pid=${dim(String(pid ?? "?"))}`,
+      );
+      return;
+    }
+
+    if (type === "respawn_scheduled") {
+      const attempt = getNumber(ev, "attempt");
+      const delayMs = getNumber(ev, "delayMs");
+      console.log(
+        `${fmtTime(ev)} ♻️ respawn ${svc(ev)} attempt ${
+          cyan(String(attempt ?? "?"))
+        } in ${dim(`${delayMs ?? "?"}ms`)}`,
+      );
+      return;
+    }
+
+    if (type === "respawn_abandoned") {
+      const restarts = getNumber(ev, "restarts");
+      console.error(
+        `${fmtTime(ev)} 🧯 ${red("crash loop")} ${svc(ev)} ${
+          magenta(`gave up after ${restarts ?? "?"} restarts`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "cargo_changed") {
+      const pid = getNumber(ev, "pid");
+      console.log(
+        `${fmtTime(ev)} 🔁 ${yellow("cargo changed")} ${svc(ev)} ${
+          dim(`restarting pid=${pid ?? "?"}`)
+        }`,
+      );
+      return;
+    }
+
+    // health monitoring (watch mode)
+    if (type === "service_unhealthy") {
+      const failures = getNumber(ev, "failures");
+      const err = getString(ev, "error");
+      console.error(
+        `${fmtTime(ev)} 🩺 ${red("unhealthy")} ${svc(ev)} ${
+          dim(`${failures ?? "?"} failed probes${err ? `: ${err}` : ""}`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "service_recovered") {
+      const downMs = getNumber(ev, "downMs");
+      console.log(
+        `${fmtTime(ev)} 💚 ${green("recovered")} ${svc(ev)} ${
+          dim(`after ${Math.round(downMs ?? 0)}ms`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "service_unhealthy_restart") {
+      const pid = getNumber(ev, "pid");
+      console.log(
+        `${fmtTime(ev)} 🔁 ${yellow("unhealthy too long")} ${svc(ev)} ${
+          dim(`restarting pid=${pid ?? "?"}`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "log_rotated") {
+      if (!showAll) return;
+      const stream = getString(ev, "stream") ?? "?";
+      const seg = getRecord(ev, "segment") ?? {};
+      const path = getString(seg, "path") ?? "?";
+      const bytes = getNumber(seg, "bytes");
+      console.log(
+        `${fmtTime(ev)} 🗂️ ${cyan("log rotated")} ${svc(ev)} ${dim(stream)} → ${
+          dim(path)
+        }${bytes !== undefined ? dim(` (${bytes} bytes)`) : ""}`,
+      );
+      return;
+    }
+
+    // proxy config regeneration (watch mode)
+    if (type === "proxy_conf_updated") {
+      const written = ev["written"];
+      const removed = ev["removed"];
+      const n = (v: unknown) => Array.isArray(v) ? v.length : 0;
+      console.log(
+        `${fmtTime(ev)} 🧭 ${cyan("proxy conf updated")} ${
+          dim(`${n(written)} written, ${n(removed)} removed`)
+        }`,
+      );
+      return;
+    }
+
+    if (type === "proxy_conf_reloaded") {
+      const command = getString(ev, "command") ?? "?";
+      console.log(
+        `${fmtTime(ev)} 🔄 ${green("proxy reloaded")} ${dim(command)}`,
+      );
+      return;
+    }
+
+    if (type === "proxy_conf_failed") {
+      const phase = getString(ev, "phase") ?? "?";
+      const where = getString(ev, "command") ?? getString(ev, "path") ?? "";
+      console.error(
+        `${fmtTime(ev)} 🧭 ${red(`proxy conf ${phase} failed`)} ${dim(where)} ${
+          magenta(stringifyError(ev["error"]))
+        }`,
+      );
+      return;
+    }
+
+    // actions triggered from the web UI
+    if (type === "operator_action") {
+      const action = getString(ev, "action") ?? "?";
+      const who = `${getString(ev, "actor") ?? "?"} via ${
+        getString(ev, "via") ?? "?"
+      }`;
+      const target = getString(ev, "serviceId") ??
+        getString(ev, "contextPath") ?? "";
+      if (ev["ok"] === true) {
+        console.log(
+          `${fmtTime(ev)} 🧑‍✈️ ${cyan(action)} ${target} ${dim(`by ${who}`)}`,
+        );
+      } else {
+        console.error(
+          `${fmtTime(ev)} 🧑‍✈️ ${red(`${action} failed`)} ${target} ${
+            dim(`by ${who}`)
+          } ${magenta(stringifyError(ev["error"]))}`,
+        );
+      }
+      return;
+    }
+
     // paths + context
     if (type === "paths_resolved") {
       if (!showAll) return;
@@ -1,19 +1,30 @@
 // lib/spawn.ts
-import { resolve } from "@std/path";
+import { basename, dirname, join, resolve } from "@std/path";
 
 import type { Path } from "./discover.ts";
 import {
+  type Derivation,
   exposable,
+  type ExposableOptions,
   type ExposableService,
   type ExposableServiceConf,
   type SpawnedProcess,
   type SpawnHost,
   type SpawnLogTarget,
 } from "./exposable.ts";
+import { type CargoFingerprint, cargoFingerprint } from "./fingerprint.ts";
+import {
+  type HostLease,
+  type HostLeaseStore,
+  type HostLeaseVerdict,
+  localHostIdentity,
+} from "./host-lease.ts";
+import type { CargoManifestResolution } from "./manifest.ts";
 import { ensureParentDir, joinUrl, safeRelFromRoot } from "./path.ts";
+import type { PortLeaseStore } from "./port-lease.ts";
 import { tabular, TabularDataSupplier } from "./tabular.ts";
 
-export type SpawnLedgerNature = "context" | "stdout" | "stderr";
+export type SpawnLedgerNature = "context" | "stdout" | "stderr" | "derived";
 
 export type SpawnLedgerPath<Entry> = (
   entry: Entry,
@@ -60,6 +71,48 @@ export type SpawnEvent =
       listenHost: string;
       port: number;
       baseUrl: string;
+      source?: "pinned" | "lease" | "pool";
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "port_lease_conflict";
+      serviceId: string;
+      provenance: string;
+      port: number;
+      /** Provenance holding the lease, when the port is leased to other cargo. */
+      holder?: string;
+      reason: "in_use" | "leased_by_other";
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "port_reassigned";
+      serviceId: string;
+      provenance: string;
+      previousPort: number;
+      port: number;
+      reason: "in_use" | "pinned";
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "host_lease_held_elsewhere";
+      serviceId: string;
+      provenance: string;
+      holder: HostLease;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "host_lease_taken_over";
+      serviceId: string;
+      provenance: string;
+      previous: HostLease;
     }>
   )
   | (
@@ -140,6 +193,131 @@ export type SpawnEvent =
       error: unknown;
     }>
   )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "process_exited";
+      serviceId: string;
+      provenance: string;
+      pid: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "respawn_scheduled";
+      serviceId: string;
+      provenance: string;
+      attempt: number;
+      delayMs: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "respawn_abandoned";
+      serviceId: string;
+      provenance: string;
+      restarts: number;
+      windowMs: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "cargo_changed";
+      serviceId: string;
+      provenance: string;
+      pid: number;
+      previous: CargoFingerprint;
+      current: CargoFingerprint;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "service_unhealthy";
+      serviceId: string;
+      provenance: string;
+      pid: number;
+      url: string;
+      failures: number;
+      error?: string;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "service_recovered";
+      serviceId: string;
+      provenance: string;
+      pid: number;
+      url: string;
+      downMs: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "service_unhealthy_restart";
+      serviceId: string;
+      provenance: string;
+      pid: number;
+      unhealthyMs: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "log_rotated";
+      serviceId: string;
+      provenance: string;
+      stream: "stdout" | "stderr";
+      segment: LogSegment;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "proxy_conf_updated";
+      written: string[];
+      removed: string[];
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "proxy_conf_reloaded";
+      command: string;
+      durationMs: number;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "proxy_conf_failed";
+      phase: "generate" | "write" | "reload";
+      path?: string;
+      command?: string;
+      code?: number;
+      error: unknown;
+    }>
+  )
+  | (
+    & SpawnEventBase
+    & Readonly<{
+      type: "operator_action";
+      action: "stop" | "restart" | "respawn" | "materialize";
+      actor: string;
+      via: string;
+      ok: boolean;
+      serviceId?: string;
+      pid?: number;
+      contextPath?: string;
+      newPid?: number;
+      error?: unknown;
+    }>
+  )
   | (SpawnEventBase & Readonly<{ type: "complete"; summary: SpawnSummary }>)
   | (
     & SpawnEventBase
@@ -152,6 +330,14 @@ export type SpawnEvent =
 
 export type SpawnEventListener = (event: SpawnEvent) => void | Promise<void>;
 
+/**
+ * A SpawnEvent without its session/timing base, as passed to emitters.
+ */
+export type SpawnEventPayload = DistributiveOmit<
+  SpawnEvent,
+  keyof SpawnEventBase
+>;
+
 /* -------------------------------- expose -------------------------------- */
 
 export type ExposeDecision =
@@ -159,6 +345,34 @@ export type ExposeDecision =
   | Readonly<{
     proxyEndpointPrefix: string;
     exposableServiceConf?: ExposableServiceConf;
+
+    /**
+     * Pin the service to this port instead of allocating the next free one
+     * (used to restart a service where it was listening before). Spawning
+     * fails when the port is already in use, unless `portFallback` is set.
+     */
+    port?: number;
+
+    /**
+     * Allocate another port when the pinned one is already in use.
+     */
+    portFallback?: boolean;
+
+    /**
+     * Probe URL for this service: absolute, or a path joined onto its base
+     * URL. Overrides SpawnOptions.probe.url.
+     */
+    probeUrl?: string;
+
+    /**
+     * Effective cargo manifest, recorded in the context as-is.
+     */
+    manifest?: CargoManifestResolution;
+
+    /**
+     * Host lease key (see host-lease.ts); defaults to the provenance.
+     */
+    hostLeaseKey?: string;
   }>;
 
 export type ExposeFn = (
@@ -187,15 +401,50 @@ export type SpawnOptions = Readonly<{
   findFreePort?: boolean;
   portMax?: number; // Optional upper bound for scanning. If omitted, defaults to 65535.
 
+  /**
+   * Advisory per-cargo host leases for shared cargo volumes. When set, a
+   * service whose lease is held by another (live) host is skipped.
+   */
+  hostLeases?: HostLeaseStore;
+
+  /**
+   * Sticky per-provenance port leases. When set, a service gets its leased
+   * port back if free, and pool allocation skips ports leased to others.
+   */
+  portLeases?: PortLeaseStore;
+
   sqlpageBin?: string;
   sqlpageEnv?: string;
   surveilrBin?: string;
+  duckdbBin?: string;
+  sqliteBin?: string;
+
+  /**
+   * Opt-in for exposing plain SQLite through the generic browser.
+   */
+  browseSqlite?: ExposableOptions["browseSqlite"];
+
+  /**
+   * Per-supplier kind override (cargo manifests).
+   */
+  kindOverride?: ExposableOptions["kindOverride"];
+
+  /**
+   * Deno executable used to run built-in endpoints (default: the current one).
+   */
+  denoBin?: string;
 
   onEvent?: SpawnEventListener;
   sessionId?: string;
 
   probe?: ReachabilityProbe;
 
+  /**
+   * Also store a SHA-256 of each cargo file in the context's supplier
+   * fingerprint (size and mtime are always stored).
+   */
+  fingerprintHash?: boolean;
+
   defaultStdoutLogPath?: SpawnLogTarget;
   defaultStderrLogPath?: SpawnLogTarget;
 }>;
@@ -213,7 +462,7 @@ export type SpawnedContext = Readonly<{
     upstreamUrl: string;
   }>;
 
-  supplier: TabularDataSupplier;
+  supplier: TabularDataSupplier & Readonly<{ fingerprint?: CargoFingerprint }>;
 
   session: SpawnSession;
 
@@ -229,6 +478,48 @@ export type SpawnedContext = Readonly<{
     plan: SpawnedProcess["plan"];
   }>;
 
+  /**
+   * Present when the service serves a derived copy of its cargo (Excel).
+   */
+  derivation?: Derivation;
+
+  /**
+   * Effective cargo manifest (merged directory + file manifests) and the
+   * files it came from, when any applied.
+   */
+  manifest?: CargoManifestResolution;
+
+  /**
+   * Readiness probe outcome; absent when probing was disabled.
+   */
+  health?: ServiceHealth;
+
+  /**
+   * Log rotation state per stream, written on every rotation.
+   */
+  logs?: Readonly<{ stdout?: LogRotationState; stderr?: LogRotationState }>;
+
+  /**
+   * Present when the service was launched under a host lease; `yard stop`
+   * releases the lease by this key.
+   */
+  hostLease?: Readonly<{ key: string }>;
+
+  /**
+   * Set by `yard stop`: when the service was stopped and the last signal sent
+   * to it (null when it was already gone). SIGKILL does not mean it exited.
+   */
+  stoppedAt?: string;
+  stopSignal?: StopOutcome["signal"];
+
+  /**
+   * Set by `yard ps --reconcile --repair`: when a running orphan was adopted
+   * (the context was rebuilt from its TRUTH_YARD_* tags, so supplier and
+   * plan are best-effort) or when a stale context was archived.
+   */
+  adoptedAt?: string;
+  archivedAt?: string;
+
   paths: Readonly<{
     context?: string;
     stdout?: string;
@@ -236,6 +527,46 @@ export type SpawnedContext = Readonly<{
   }>;
 }>;
 
+/**
+ * "pending" is written while the probe runs so the ledger is never missing
+ * a context for a live process.
+ */
+export type ServiceHealthStatus = "pending" | "healthy" | "unhealthy";
+
+export type ServiceHealth = Readonly<{
+  status: ServiceHealthStatus;
+  url: string;
+  checkedAt: string;
+  latencyMs?: number;
+  httpStatus?: number;
+  lastError?: string;
+}>;
+
+/**
+ * A rotated-out piece of a service log, `<name>.stdout.log.1[.gz]` (numbered)
+ * or `<name>.stdout.log.<YYYYMMDDTHHMMSSZ>[.gz]` (timestamped).
+ */
+export type LogSegment = Readonly<{
+  path: string;
+  bytes: number;
+  rotatedAt: string;
+  gzip: boolean;
+}>;
+
+export type LogRotationState = Readonly<{
+  /**
+   * The live log the service keeps appending to.
+   */
+  path: string;
+  openedAt: string;
+  rotatedAt?: string;
+
+  /**
+   * Newest first.
+   */
+  segments: LogSegment[];
+}>;
+
 /* ------------------------------ typing helpers --------------------------- */
 
 type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K>
@@ -703,17 +1034,45 @@ export function isPidAlive(pid: number): boolean {
   }
 }
 
-export async function killPID(pid: number): Promise<void> {
-  const killGroup = () => {
+export type StopOutcome = Readonly<{
+  pid: number;
+
+  /**
+   * Last signal sent, or null when the process was already gone.
+   */
+  signal: "SIGTERM" | "SIGKILL" | null;
+
+  /**
+   * False only if the process survived SIGKILL as well.
+   */
+  exited: boolean;
+
+  waitedMs: number;
+}>;
+
+/**
+ * Stop a process (its process group where supported): SIGTERM, wait up to
+ * `graceMs` (default 2000) for it to exit, then escalate to SIGKILL.
+ */
+export async function stopPID(
+  pid: number,
+  opts: Readonly<{ graceMs?: number }> = {},
+): Promise<StopOutcome> {
+  const graceMs = Math.max(0, opts.graceMs ?? 2_000);
+  const started = performance.now();
+  const waited = () => Math.round(performance.now() - started);
+
+  const signalGroup = (sig: Deno.Signal) => {
+    if (Deno.build.os === "windows") return false;
     try {
-      Deno.kill(-pid, "SIGTERM");
+      Deno.kill(-pid, sig);
       return true;
     } catch {
       return false;
     }
   };
 
-  const killSingle = (sig: Deno.Signal) => {
+  const signalSingle = (sig: Deno.Signal) => {
     try {
       Deno.kill(pid, sig);
       return true;
@@ -722,25 +1081,30 @@ export async function killPID(pid: number): Promise<void> {
     }
   };
 
-  const triedGroup = Deno.build.os !== "windows" ? killGroup() : false;
-  if (!triedGroup) {
-    if (!killSingle("SIGTERM")) return;
-  }
+  const waitForExit = async (ms: number) => {
+    const until = performance.now() + ms;
+    while (performance.now() < until) {
+      if (!isPidAlive(pid)) return true;
+      await new Promise((r) => setTimeout(r, 100));
+    }
+    return !isPidAlive(pid);
+  };
 
-  for (let i = 0; i < 20; i++) {
-    if (!isPidAlive(pid)) return;
-    await new Promise((r) => setTimeout(r, 100));
+  if (!signalGroup("SIGTERM") && !signalSingle("SIGTERM")) {
+    return { pid, signal: null, exited: true, waitedMs: waited() };
   }
 
-  if (Deno.build.os !== "windows") {
-    try {
-      Deno.kill(-pid, "SIGKILL");
-      return;
-    } catch {
-      // fall back
-    }
+  if (await waitForExit(graceMs)) {
+    return { pid, signal: "SIGTERM", exited: true, waitedMs: waited() };
   }
-  killSingle("SIGKILL");
+
+  if (!signalGroup("SIGKILL")) signalSingle("SIGKILL");
+  const exited = await waitForExit(1_000);
+  return { pid, signal: "SIGKILL", exited, waitedMs: waited() };
+}
+
+export async function killPID(pid: number): Promise<void> {
+  await stopPID(pid);
 }
 
 /* ------------------------------ port helpers ------------------------------ */
@@ -771,16 +1135,22 @@ async function allocatePort(
     candidatePort: number;
     findFreePort: boolean;
     portMax: number;
+    skip?: (port: number) => boolean;
   }>,
 ): Promise<number> {
-  const { listenHost, candidatePort, findFreePort, portMax } = args;
+  const { listenHost, candidatePort, findFreePort, portMax, skip } = args;
 
   const start = Math.max(1, Math.floor(candidatePort));
   const max = Math.min(65535, Math.max(start, Math.floor(portMax)));
 
-  if (!findFreePort) return start;
+  if (!findFreePort) {
+    let p = start;
+    while (p < max && skip?.(p)) p++;
+    return p;
+  }
 
   for (let p = start; p <= max; p++) {
+    if (skip?.(p)) continue;
     if (await isPortAvailable(listenHost, p)) return p;
   }
 
@@ -789,6 +1159,19 @@ async function allocatePort(
   );
 }
 
+/**
+ * Provenance key of a service: the real path of its cargo (falls back to the
+ * resolved path when the file cannot be resolved).
+ */
+function provenanceOf(service: ExposableService): string {
+  const abs = resolve(service.supplier.location);
+  try {
+    return Deno.realPathSync(abs);
+  } catch {
+    return abs;
+  }
+}
+
 /* --------------------------------- api ---------------------------------- */
 
 export async function* spawn(
@@ -797,7 +1180,10 @@ export async function* spawn(
   spawnedLedgerPath: SpawnLedgerPath<ExposableService>,
   opts: SpawnOptions,
 ): AsyncGenerator<SpawnedContext, SpawnSummary> {
-  const host: SpawnHost = opts.host ?? { identity: "spawn", pid: Deno.pid };
+  const host: SpawnHost = {
+    ...localHostIdentity(),
+    ...(opts.host ?? { identity: "spawn", pid: Deno.pid }),
+  };
 
   const session: SpawnSession = {
     sessionId: opts.sessionId ?? crypto.randomUUID(),
@@ -817,6 +1203,12 @@ export async function* spawn(
   const sqlpageBin = opts.sqlpageBin ?? "sqlpage";
   const sqlpageEnv = opts.sqlpageEnv ?? "development";
   const surveilrBin = opts.surveilrBin ?? "surveilr";
+  const duckdbBin = opts.duckdbBin ?? "duckdb";
+  const sqliteBin = opts.sqliteBin ?? "sqlite3";
+  const denoBin = opts.denoBin ?? Deno.execPath();
+
+  const leases = opts.portLeases;
+  await leases?.load();
 
   const spawned: string[] = [];
   const skipped: string[] = [];
@@ -825,15 +1217,13 @@ export async function* spawn(
 
   const t0 = performance.now();
 
-  type EmitEvent = DistributiveOmit<SpawnEvent, keyof SpawnEventBase>;
-
-  const emit = async (event: EmitEvent) => {
+  const emit = async (event: SpawnEventPayload) => {
     if (!opts.onEvent) return;
     const e: SpawnEvent = {
       session,
       ts: new Date().toISOString(),
       tMs: performance.now() - t0,
-      ...(event as EmitEvent),
+      ...(event as SpawnEventPayload),
     } as SpawnEvent;
 
     try {
@@ -845,7 +1235,12 @@ export async function* spawn(
 
   await emit({ type: "session_start" });
 
-  for await (const service of exposable(tabular(srcPaths))) {
+  for await (
+    const service of exposable(tabular(srcPaths), {
+      browseSqlite: opts.browseSqlite,
+      kindOverride: opts.kindOverride,
+    })
+  ) {
     const id = service.id;
 
     await emit({ type: "discovered", serviceId: id });
@@ -882,18 +1277,143 @@ export async function* spawn(
     const exposableServiceConf: ExposableServiceConf =
       decision.exposableServiceConf ?? {};
 
+    const provenance = provenanceOf(service);
+    const hostLeaseKey = decision.hostLeaseKey ?? provenance;
+
+    let hostLeased = false;
+    if (opts.hostLeases) {
+      let verdict: HostLeaseVerdict | undefined;
+      try {
+        verdict = await opts.hostLeases.acquire(hostLeaseKey, id);
+      } catch {
+        // advisory: an unwritable lease directory must not block spawning
+      }
+      if (verdict?.kind === "held_elsewhere") {
+        await emit({
+          type: "host_lease_held_elsewhere",
+          serviceId: id,
+          provenance,
+          holder: verdict.holder,
+        });
+        skipped.push(id);
+        continue;
+      }
+      if (verdict?.kind === "taken_over") {
+        await emit({
+          type: "host_lease_taken_over",
+          serviceId: id,
+          provenance,
+          previous: verdict.previous,
+        });
+      }
+      hostLeased = verdict !== undefined;
+    }
+
+    // Give the vessel back to other hosts when it never launched here
+    const releaseHostLease = async () => {
+      if (!hostLeased) return;
+      try {
+        await opts.hostLeases?.release(hostLeaseKey);
+      } catch {
+        // best-effort
+      }
+    };
+
+    let pinnedPort = decision.port;
+    const lease = leases?.get(provenance);
+
     let allocatedPort: number;
+    let portSource: "pinned" | "lease" | "pool";
     try {
-      allocatedPort = await allocatePort({
-        listenHost,
-        candidatePort: port,
-        findFreePort,
-        portMax,
-      });
+      if (
+        pinnedPort !== undefined && findFreePort &&
+        !(await isPortAvailable(listenHost, pinnedPort))
+      ) {
+        await emit({
+          type: "port_lease_conflict",
+          serviceId: id,
+          provenance,
+          port: pinnedPort,
+          reason: "in_use",
+        });
+        if (!decision.portFallback) {
+          throw new Error(
+            `pinned port ${pinnedPort} is already in use on ${listenHost}`,
+          );
+        }
+        pinnedPort = undefined;
+      }
+
+      if (pinnedPort !== undefined) {
+        allocatedPort = pinnedPort;
+        portSource = "pinned";
+
+        const holder = leases?.holderOf(pinnedPort);
+        if (holder && holder !== provenance) {
+          await emit({
+            type: "port_lease_conflict",
+            serviceId: id,
+            provenance,
+            port: pinnedPort,
+            holder,
+            reason: "leased_by_other",
+          });
+        }
+        if (lease && lease.port !== pinnedPort) {
+          await emit({
+            type: "port_reassigned",
+            serviceId: id,
+            provenance,
+            previousPort: lease.port,
+            port: pinnedPort,
+            reason: "pinned",
+          });
+        }
+      } else if (
+        lease &&
+        (!findFreePort || await isPortAvailable(listenHost, lease.port))
+      ) {
+        allocatedPort = lease.port;
+        portSource = "lease";
+      } else {
+        if (lease) {
+          await emit({
+            type: "port_lease_conflict",
+            serviceId: id,
+            provenance,
+            port: lease.port,
+            reason: "in_use",
+          });
+        }
+
+        allocatedPort = await allocatePort({
+          listenHost,
+          candidatePort: port,
+          findFreePort,
+          portMax,
+          skip: (p) => {
+            const holder = leases?.holderOf(p);
+            return holder !== undefined && holder !== provenance;
+          },
+        });
+        portSource = "pool";
+
+        if (lease) {
+          await emit({
+            type: "port_reassigned",
+            serviceId: id,
+            provenance,
+            previousPort: lease.port,
+            port: allocatedPort,
+            reason: "in_use",
+          });
+        }
+      }
     } catch (error) {
       errored.push(id);
       errors.push({ id, error });
       await emit({ type: "error", serviceId: id, phase: "spawn", error });
+      await releaseHostLease();
       continue;
     }
 
@@ -904,6 +1424,7 @@ export async function* spawn(
       listenHost,
       port: allocatedPort,
       baseUrl,
+      source: portSource,
     });
 
     const ctxPath = spawnedLedgerPath(service, "context");
@@ -937,19 +1458,20 @@ export async function* spawn(
       proxyEndpointPrefix === "" ? "/" : proxyEndpointPrefix,
     );
 
-    const probeUrl = buildProbeUrl({
-      baseUrl,
-      proxyEndpointPrefix,
-      service,
-      probe: opts.probe,
-    });
+    const probeUrl = decision.probeUrl
+      ? (/^https?:\/\//i.test(decision.probeUrl)
+        ? decision.probeUrl
+        : joinUrl(baseUrl, decision.probeUrl))
+      : buildProbeUrl({
+        baseUrl,
+        proxyEndpointPrefix,
+        service,
+        probe: opts.probe,
+      });
 
     try {
       let child: SpawnedProcess;
       const contextPathAbs = ctxPath ? resolve(ctxPath) : undefined;
-      const provenance = Deno.realPathSync(
-        resolve(service.supplier.location),
-      );
 
       const tags = contextPathAbs
         ? {
@@ -985,6 +1507,65 @@ export async function* spawn(
           },
           exposableServiceConf,
         });
+      } else if (service.kind === "duckdb") {
+        child = await service.spawn({
+          host,
+          init: {
+            listenHost,
+            port: allocatedPort,
+            proxyEndpointPrefix,
+            duckdbBin,
+            denoBin,
+            stdoutLogPath: stdoutPath,
+            stderrLogPath: stderrPath,
+            processTags: tags,
+          },
+          exposableServiceConf,
+        });
+      } else if (service.kind === "sqlite") {
+        child = await service.spawn({
+          host,
+          init: {
+            listenHost,
+            port: allocatedPort,
+            proxyEndpointPrefix,
+            sqliteBin,
+            denoBin,
+            stdoutLogPath: stdoutPath,
+            stderrLogPath: stderrPath,
+            processTags: tags,
+          },
+          exposableServiceConf,
+        });
+      } else if (service.kind === "excel") {
+        // Kept in the ledger (next to the context) so it goes with the session
+        const derivedDbPath = spawnedLedgerPath(service, "derived") ??
+          (ctxPath
+            ? join(
+              dirname(ctxPath),
+              `${basename(service.supplier.filePath)}.derived.sqlite.db`,
+            )
+            : undefined);
+        if (!derivedDbPath) {
+          throw new Error(
+            "excel services need a ledger path for their derived SQLite",
+          );
+        }
+        child = await service.spawn({
+          host,
+          init: {
+            listenHost,
+            port: allocatedPort,
+            proxyEndpointPrefix,
+            sqliteBin,
+            denoBin,
+            derivedDbPath,
+            stdoutLogPath: stdoutPath,
+            stderrLogPath: stderrPath,
+            processTags: tags,
+          },
+          exposableServiceConf,
+        });
       } else {
         child = await service.spawn({
           host,
@@ -1003,7 +1584,16 @@ export async function* spawn(
 
       await emit({ type: "spawned", serviceId: id, pid: child.pid });
 
-      const ctx: SpawnedContext = {
+      let fingerprint: CargoFingerprint | undefined;
+      try {
+        fingerprint = await cargoFingerprint(provenance, {
+          hash: opts.fingerprintHash,
+        });
+      } catch {
+        // best-effort; a context without fingerprint is never "changed"
+      }
+
+      let ctx: SpawnedContext = {
         startedAt: new Date().toISOString(),
         service: {
           id,
@@ -1012,7 +1602,7 @@ export async function* spawn(
           proxyEndpointPrefix,
           upstreamUrl,
         },
-        supplier,
+        supplier: fingerprint ? { ...supplier, fingerprint } : supplier,
         session,
         listen: {
           host: listenHost,
@@ -1024,6 +1614,18 @@ export async function* spawn(
           pid: child.pid,
           plan: child.plan,
         },
+        ...(child.derivation ? { derivation: child.derivation } : {}),
+        ...(decision.manifest ? { manifest: decision.manifest } : {}),
+        ...(hostLeased ? { hostLease: { key: hostLeaseKey } } : {}),
+        ...(opts.probe?.enabled
+          ? {
+            health: {
+              status: "pending",
+              url: probeUrl,
+              checkedAt: new Date().toISOString(),
+            },
+          }
+          : {}),
         paths: {
           context: ctxPath,
           stdout: typeof stdoutPath === "string" ? stdoutPath : undefined,
@@ -1031,7 +1633,8 @@ export async function* spawn(
         },
       };
 
-      if (ctxPath) {
+      const writeContext = async () => {
+        if (!ctxPath) return;
         try {
           await ensureParentDir(ctxPath);
           await Deno.writeTextFile(
@@ -1047,7 +1650,9 @@ export async function* spawn(
             error,
           });
         }
-      }
+      };
+
+      await writeContext();
 
       if (opts.probe?.enabled) {
         const timeoutMs = opts.probe.timeoutMs ?? 15_000;
@@ -1065,6 +1670,16 @@ export async function* spawn(
             timeoutMs,
           );
           const durationMs = performance.now() - probeStarted;
+          ctx = {
+            ...ctx,
+            health: {
+              status: "healthy",
+              url: probeUrl,
+              checkedAt: new Date().toISOString(),
+              latencyMs: Math.round(durationMs),
+              httpStatus: status,
+            },
+          };
           await emit({
             type: "service_reachable",
             serviceId: id,
@@ -1074,6 +1689,16 @@ export async function* spawn(
           });
         } catch (error) {
           const durationMs = performance.now() - probeStarted;
+          ctx = {
+            ...ctx,
+            health: {
+              status: "unhealthy",
+              url: probeUrl,
+              checkedAt: new Date().toISOString(),
+              latencyMs: Math.round(durationMs),
+              lastError: String((error as Error)?.message ?? error),
+            },
+          };
           await emit({
             type: "service_unreachable",
             serviceId: id,
@@ -1083,6 +1708,7 @@ export async function* spawn(
           });
           await emit({ type: "error", serviceId: id, phase: "probe", error });
         }
+        await writeContext();
       } else {
         await emit({
           type: "reachability_probe_skipped",
@@ -1091,15 +1717,25 @@ export async function* spawn(
         });
       }
 
+      if (leases) {
+        try {
+          await leases.lease(provenance, allocatedPort, id);
+        } catch {
+          // best-effort; the next start just allocates again
+        }
+      }
+
       spawned.push(id);
       yield ctx;
 
-      // Advance the global port cursor to the next port after the allocated one.
-      port = allocatedPort + 1;
+      // Advance the global port cursor to the next port after the allocated one
+      // (pinned and leased ports live outside the cursor's sequence).
+      if (portSource === "pool") port = allocatedPort + 1;
     } catch (error) {
       errored.push(id);
       errors.push({ id, error });
       await emit({ type: "error", serviceId: id, phase: "spawn", error });
+      await releaseHostLease();
       // Keep existing semantics: only advance port cursor on success.
     }
   }
@@ -3,7 +3,12 @@ import { assert, assertEquals } from "@std/assert";
 import { basename, join, resolve } from "@std/path";
 
 import type { ExposableService, SpawnHost } from "./exposable.ts";
-import { spawn, type SpawnedContext, type SpawnSummary } from "./spawn.ts";
+import {
+  spawn,
+  type SpawnedContext,
+  type SpawnLedgerNature,
+  type SpawnSummary,
+} from "./spawn.ts";
 
 function fixturesDir(): string {
   return resolve(join(import.meta.dirname ?? ".", "../support/fixtures"));
@@ -96,7 +101,7 @@ function mkStatePaths(tag: string): {
   dir: string;
   spawnStatePath: (
     entry: ExposableService,
-    nature: "context" | "stdout" | "stderr",
+    nature: SpawnLedgerNature,
   ) => string | undefined;
 } {
   const enabled = Deno.env.get("TEST_SPAWN_LOGS") === "1";
@@ -104,11 +109,12 @@ function mkStatePaths(tag: string): {
 
   const spawnStatePath = (
     entry: ExposableService,
-    nature: "context" | "stdout" | "stderr",
+    nature: SpawnLedgerNature,
   ) => {
+    const base = `${entry.kind}-${entry.id}`;
+    if (nature === "derived") return join(dir, `${base}.derived.sqlite.db`);
     if (!enabled && nature !== "context") return undefined;
 
-    const base = `${entry.kind}-${entry.id}`;
     if (nature === "context") return join(dir, `${base}.context.json`);
     if (nature === "stdout") return join(dir, `${base}.stdout.log`);
     return join(dir, `${base}.stderr.log`);
@@ -234,3 +240,36 @@ Deno.test("spawn: smoke spawn and HTTP 200 (surveilr + sqlpage)", async (t) => {
     await killPid(c.spawned.pid);
   }
 });
+
+Deno.test("spawn: a pinned port already in use is refused", async () => {
+  const held = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const port = (held.addr as Deno.NetAddr).port;
+  const { dir, spawnStatePath } = mkStatePaths("pinned");
+
+  try {
+    const { contexts, summary } = await drainSpawn(spawn(
+      [{ path: fixturesDir() }],
+      (entry) =>
+        basename(entry.supplier.location) === "empty-rssd.sqlite.db"
+          ? { proxyEndpointPrefix: "/", port }
+          : false,
+      spawnStatePath,
+      {
+        host: { identity: "spawn_test", pid: Deno.pid },
+        listenHost: "127.0.0.1",
+        probe: { enabled: false },
+      },
+    ));
+
+    assertEquals(contexts.length, 0);
+    assertEquals(summary.errors.length, 1);
+    assert(
+      String(summary.errors[0].error).includes(
+        `pinned port ${port} is already in use`,
+      ),
+    );
+  } finally {
+    held.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
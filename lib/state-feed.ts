@@ -0,0 +1,354 @@
+// lib/state-feed.ts
+import { join, relative } from "@std/path";
+
+import type {
+  ServiceHealthStatus,
+  SpawnedContext,
+  TaggedProcess,
+} from "./spawn.ts";
+
+/**
+ * Live yard state for the web UI's `/.truth-yard/api/events` stream.
+ *
+ * One feed is shared by every connected client: while anyone is subscribed,
+ * a single timer re-enumerates tagged processes once per interval and diffs
+ * them with the previous round, and one recursive watch on the ledger
+ * directory collects changed files, which are reported once per path per
+ * round. Nothing runs while nobody listens.
+ */
+export type YardStateEvent =
+  | Readonly<{ type: "process-added"; process: TaggedProcess }>
+  | Readonly<{ type: "process-removed"; process: TaggedProcess }>
+  | Readonly<{
+    type: "health-changed";
+    process: TaggedProcess;
+    from?: ServiceHealthStatus;
+    to?: ServiceHealthStatus;
+  }>
+  | Readonly<{
+    type: "ledger-file-changed";
+    change: "create" | "modify" | "remove";
+
+    /**
+     * Relative to the ledger directory.
+     */
+    path: string;
+  }>;
+
+export type YardStateListener = (event: YardStateEvent) => void;
+
+export type YardStateFeedOptions = Readonly<{
+  ledgerDir: string;
+
+  /**
+   * Scan period in ms (default 2000).
+   */
+  intervalMs?: number;
+
+  states: () => Promise<TaggedProcess[]>;
+}>;
+
+/**
+ * Identity of a tagged process across scans.
+ */
+export function taggedProcessKey(p: TaggedProcess): string {
+  return `${p.pid}:${p.contextPath}`;
+}
+
+/**
+ * Pure diff of two scans: removals, then additions, then health changes.
+ */
+export function diffTaggedProcesses(
+  prev: readonly TaggedProcess[],
+  next: readonly TaggedProcess[],
+): YardStateEvent[] {
+  const before = new Map(prev.map((p) => [taggedProcessKey(p), p]));
+  const after = new Map(next.map((p) => [taggedProcessKey(p), p]));
+  const removed: YardStateEvent[] = [];
+  const added: YardStateEvent[] = [];
+  const health: YardStateEvent[] = [];
+
+  for (const [key, p] of before) {
+    if (!after.has(key)) removed.push({ type: "process-removed", process: p });
+  }
+  for (const [key, p] of after) {
+    const was = before.get(key);
+    if (!was) {
+      added.push({ type: "process-added", process: p });
+      continue;
+    }
+    const from = was.context?.health?.status;
+    const to = p.context?.health?.status;
+    if (from !== to) {
+      health.push({ type: "health-changed", process: p, from, to });
+    }
+  }
+  return [...removed, ...added, ...health];
+}
+
+/* ---------------------------------- views ---------------------------------- */
+
+/**
+ * What one client may see. Under access rules a principal only sees services
+ * whose proxy prefix it may reach (a service without a prefix matches no
+ * rule), and process environments, which may carry credentials, are only
+ * shown to unrestricted principals.
+ */
+export type YardStateView = Readonly<{
+  /**
+   * Absent for an unrestricted principal.
+   */
+  mayReach?: (proxyEndpointPrefix: string) => boolean;
+}>;
+
+function prefixVisible(
+  prefix: string | undefined,
+  view: YardStateView,
+): boolean {
+  if (!view.mayReach) return true;
+  return !!prefix && view.mayReach(prefix);
+}
+
+/**
+ * `p` as `view` may see it: undefined when hidden, without environments
+ * when the view is restricted.
+ */
+export function viewTaggedProcess(
+  p: TaggedProcess,
+  view: YardStateView,
+): TaggedProcess | undefined {
+  if (!view.mayReach) return p;
+  const prefix = p.proxyEndpointPrefix ??
+    p.context?.service?.proxyEndpointPrefix;
+  if (!prefixVisible(prefix, view)) return undefined;
+
+  const ctx = p.context;
+  return {
+    ...p,
+    env: {},
+    context: ctx
+      ? {
+        ...ctx,
+        spawned: ctx.spawned
+          ? { ...ctx.spawned, plan: { ...ctx.spawned.plan, env: undefined } }
+          : ctx.spawned,
+        manifest: ctx.manifest
+          ? {
+            ...ctx.manifest,
+            effective: { ...ctx.manifest.effective, env: undefined },
+          }
+          : undefined,
+      }
+      : undefined,
+  };
+}
+
+export function viewTaggedProcesses(
+  processes: readonly TaggedProcess[],
+  view: YardStateView,
+): TaggedProcess[] {
+  return processes.flatMap((p) => viewTaggedProcess(p, view) ?? []);
+}
+
+const LEDGER_SERVICE_FILE =
+  /\.(?:context\.json|supervisor\.jsonl|derived\.sqlite\.db|(?:stdout|stderr)\.log(?:\..+)?)$/;
+
+/**
+ * The context file a service's ledger file (context, logs and their rotated
+ * segments, supervisor journal, derived database) belongs to; undefined for
+ * files that belong to no single service.
+ */
+export function ledgerServiceContextPath(path: string): string | undefined {
+  const m = LEDGER_SERVICE_FILE.exec(path);
+  if (!m) return undefined;
+  const base = path.slice(0, m.index);
+  if (!base || base.endsWith("/")) return undefined;
+  return `${base}.context.json`;
+}
+
+/**
+ * Whether `view` may read the ledger file at `path`. A restricted view only
+ * reads the files of services it may reach.
+ */
+export async function ledgerFileVisible(
+  path: string,
+  view: YardStateView,
+): Promise<boolean> {
+  if (!view.mayReach) return true;
+  const contextPath = ledgerServiceContextPath(path);
+  if (!contextPath) return false;
+  try {
+    const ctx = JSON.parse(
+      await Deno.readTextFile(contextPath),
+    ) as SpawnedContext;
+    return prefixVisible(ctx.service?.proxyEndpointPrefix, view);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `e` as `view` may see it (undefined when hidden); ledger paths are
+ * relative to `ledgerDir`.
+ */
+export async function viewYardStateEvent(
+  e: YardStateEvent,
+  view: YardStateView,
+  ledgerDir: string,
+): Promise<YardStateEvent | undefined> {
+  if (!view.mayReach) return e;
+  if (e.type === "ledger-file-changed") {
+    return await ledgerFileVisible(join(ledgerDir, e.path), view)
+      ? e
+      : undefined;
+  }
+  const process = viewTaggedProcess(e.process, view);
+  return process ? { ...e, process } : undefined;
+}
+
+async function present(path: string) {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function yardStateFeed(opts: YardStateFeedOptions) {
+  const listeners = new Set<YardStateListener>();
+  const pending = new Map<string, Deno.FsEvent["kind"]>();
+  let current: Promise<TaggedProcess[]> | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let watcher: Deno.FsWatcher | undefined;
+  let ticking = false;
+  // bumped by stop() so a round still in flight drops its results
+  let run = 0;
+
+  const emit = (event: YardStateEvent) => {
+    for (const l of listeners) {
+      try {
+        l(event);
+      } catch {
+        // ignore listener failures
+      }
+    }
+  };
+
+  // retried every round until the ledger directory exists
+  const watch = () => {
+    if (watcher) return;
+    let w: Deno.FsWatcher;
+    try {
+      w = Deno.watchFs(opts.ledgerDir, { recursive: true });
+    } catch {
+      return;
+    }
+    watcher = w;
+    (async () => {
+      try {
+        for await (const ev of w) {
+          if (ev.kind === "access") continue;
+          for (const p of ev.paths) {
+            if (pending.get(p) !== "create") pending.set(p, ev.kind);
+          }
+        }
+      } catch {
+        // closed
+      } finally {
+        if (watcher === w) watcher = undefined;
+      }
+    })();
+  };
+
+  const flushLedger = async () => {
+    const batch = [...pending];
+    pending.clear();
+    for (const [path, kind] of batch) {
+      const change = !(await present(path))
+        ? "remove"
+        : kind === "create"
+        ? "create"
+        : "modify";
+      emit({
+        type: "ledger-file-changed",
+        change,
+        path: relative(opts.ledgerDir, path).replaceAll("\\", "/"),
+      });
+    }
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+    watcher?.close();
+    watcher = undefined;
+    pending.clear();
+    current = undefined;
+    run++;
+  };
+
+  const feed = {
+    /**
+     * One round: report ledger changes, rescan and report the diff. The
+     * first round only records a baseline.
+     */
+    async tick(): Promise<void> {
+      if (ticking) return;
+      ticking = true;
+      const round = run;
+      try {
+        watch();
+        await flushLedger();
+        if (round !== run) return;
+        const prev = current ? await current.catch(() => undefined) : undefined;
+        if (round !== run) return;
+        let next: TaggedProcess[];
+        try {
+          next = await opts.states();
+        } catch {
+          return; // keep the previous scan; try again next round
+        }
+        if (round !== run) return; // stopped meanwhile
+        current = Promise.resolve(next);
+        for (const e of prev ? diffTaggedProcesses(prev, next) : []) emit(e);
+      } finally {
+        ticking = false;
+      }
+    },
+
+    /**
+     * The latest scan while the feed runs (a fresh one otherwise), so
+     * clients connecting to a running feed do not re-enumerate processes.
+     */
+    async snapshot(): Promise<TaggedProcess[]> {
+      if (timer === undefined) return await opts.states();
+      current ??= opts.states();
+      try {
+        return await current;
+      } catch (e) {
+        current = undefined;
+        throw e;
+      }
+    },
+
+    /**
+     * Listen for events; the first subscriber starts the feed and the last
+     * unsubscribe stops it.
+     */
+    subscribe(listener: YardStateListener): () => void {
+      listeners.add(listener);
+      if (timer === undefined) {
+        watch();
+        timer = setInterval(() => void feed.tick(), opts.intervalMs ?? 2000);
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+      };
+    },
+  };
+  return feed;
+}
+
+export type YardStateFeed = ReturnType<typeof yardStateFeed>;
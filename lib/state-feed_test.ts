@@ -0,0 +1,260 @@
+// state-feed_test.ts
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { join } from "@std/path";
+
+import type { SpawnedContext, TaggedProcess } from "./spawn.ts";
+import {
+  diffTaggedProcesses,
+  ledgerFileVisible,
+  ledgerServiceContextPath,
+  viewTaggedProcesses,
+  viewYardStateEvent,
+  type YardStateEvent,
+  yardStateFeed,
+  type YardStateView,
+} from "./state-feed.ts";
+
+function proc(
+  pid: number,
+  id: string,
+  health?: "pending" | "healthy" | "unhealthy",
+): TaggedProcess {
+  return {
+    pid,
+    provenance: `/yard/cargo.d/${id}.db`,
+    contextPath: `/yard/ledger.d/s1/${id}.db.context.json`,
+    sessionId: "s1",
+    serviceId: id,
+    env: {},
+    context:
+      (health
+        ? { health: { status: health, url: "", checkedAt: "" } }
+        : {}) as unknown as SpawnedContext,
+  };
+}
+
+const summary = (events: YardStateEvent[]) =>
+  events.map((e) =>
+    e.type === "ledger-file-changed"
+      ? `${e.type} ${e.change} ${e.path}`
+      : e.type === "health-changed"
+      ? `${e.type} ${e.process.serviceId} ${e.from}->${e.to}`
+      : `${e.type} ${e.process.serviceId}`
+  );
+
+Deno.test("state-feed: diff of two scans", () => {
+  const events = diffTaggedProcesses(
+    [proc(10, "a", "healthy"), proc(11, "b"), proc(12, "c", "pending")],
+    [proc(10, "a", "unhealthy"), proc(13, "b"), proc(12, "c", "pending")],
+  );
+  assertEquals(summary(events), [
+    "process-removed b",
+    "process-added b",
+    "health-changed a healthy->unhealthy",
+  ]);
+  assertEquals(diffTaggedProcesses([proc(1, "a")], [proc(1, "a")]), []);
+});
+
+Deno.test("state-feed: shared feed", async (t) => {
+  const ledgerDir = await Deno.makeTempDir({ prefix: "truth-yard-feed-" });
+  let scans = 0;
+  let current = [proc(10, "a", "pending")];
+  const feed = yardStateFeed({
+    ledgerDir,
+    intervalMs: 60_000,
+    states: () => {
+      scans++;
+      return Promise.resolve(current);
+    },
+  });
+
+  const a: YardStateEvent[] = [];
+  const b: YardStateEvent[] = [];
+  const offA = feed.subscribe((e) => a.push(e));
+  const offB = feed.subscribe((e) => b.push(e));
+
+  try {
+    await t.step("clients share one scan", async () => {
+      assertEquals((await feed.snapshot()).length, 1);
+      assertEquals((await feed.snapshot()).length, 1);
+      assertEquals(scans, 1);
+    });
+
+    await t.step("process and ledger changes are pushed", async () => {
+      await Deno.writeTextFile(join(ledgerDir, "b.db.context.json"), "{}");
+      await new Promise((r) => setTimeout(r, 300));
+      current = [proc(10, "a", "healthy"), proc(11, "b")];
+      await feed.tick();
+
+      assertEquals(summary(a), [
+        "ledger-file-changed create b.db.context.json",
+        "process-added b",
+        "health-changed a pending->healthy",
+      ]);
+      assertEquals(summary(b), summary(a));
+    });
+
+    await t.step("unchanged rounds are quiet", async () => {
+      a.length = 0;
+      await feed.tick();
+      assertEquals(a, []);
+    });
+
+    await t.step("stops with the last subscriber", async () => {
+      offA();
+      offB();
+      scans = 0;
+      await feed.snapshot();
+      await feed.snapshot();
+      assertEquals(scans, 2);
+    });
+  } finally {
+    offA();
+    offB();
+    await Deno.remove(ledgerDir, { recursive: true });
+  }
+});
+
+Deno.test("state-feed: a round in flight when the feed stops is dropped", async () => {
+  const ledgerDir = await Deno.makeTempDir({ prefix: "truth-yard-feed-" });
+  let release = () => {};
+  let scans = 0;
+  const feed = yardStateFeed({
+    ledgerDir,
+    intervalMs: 60_000,
+    states: () => {
+      scans++;
+      return new Promise((r) => {
+        release = () => r([proc(10, "a")]);
+      });
+    },
+  });
+
+  const off = feed.subscribe(() => {});
+  let offAgain = () => {};
+  try {
+    const round = feed.tick();
+    await new Promise((r) => setTimeout(r, 50));
+    off();
+    release();
+    await round;
+
+    // the stale scan was not kept: the restarted feed scans afresh
+    offAgain = feed.subscribe(() => {});
+    scans = 0;
+    const fresh = feed.snapshot();
+    release();
+    assertEquals((await fresh).length, 1);
+    assertEquals(scans, 1);
+  } finally {
+    off();
+    offAgain();
+    await Deno.remove(ledgerDir, { recursive: true });
+  }
+});
+
+Deno.test("state-feed: restricted views", async (t) => {
+  const tenant = (prefix?: string, id = "x"): TaggedProcess => ({
+    ...proc(20, id),
+    proxyEndpointPrefix: prefix,
+    env: { TOKEN: "s3cret" },
+    context: {
+      service: { proxyEndpointPrefix: prefix },
+      spawned: {
+        pid: 20,
+        plan: { command: "sqlpage", args: [], env: { K: "v" } },
+      },
+      manifest: { sources: [], effective: { env: { M: "1" } } },
+    } as unknown as SpawnedContext,
+  });
+  const all = [tenant("/apps/a", "a"), tenant("/apps/b", "b"), tenant()];
+  const onlyA: YardStateView = { mayReach: (p) => p.startsWith("/apps/a") };
+
+  await t.step("unrestricted principals see everything", () => {
+    assertEquals(viewTaggedProcesses(all, {}), all);
+  });
+
+  await t.step("restricted principals see reachable services only", () => {
+    const seen = viewTaggedProcesses(all, onlyA);
+    assertEquals(seen.map((p) => p.serviceId), ["a"]);
+    assertEquals(seen[0].env, {});
+    assertEquals(seen[0].context?.spawned.plan.env, undefined);
+    assertEquals(seen[0].context?.manifest?.effective.env, undefined);
+    assertEquals(all[0].env, { TOKEN: "s3cret" });
+  });
+
+  await t.step("ledger files map to their service's context", () => {
+    for (
+      const f of [
+        "s1/a.db.context.json",
+        "s1/a.db.stdout.log",
+        "s1/a.db.stderr.log.3.gz",
+        "s1/a.db.supervisor.jsonl",
+        "s1/a.db.derived.sqlite.db",
+      ]
+    ) {
+      assertEquals(ledgerServiceContextPath(f), "s1/a.db.context.json");
+    }
+    assertEquals(ledgerServiceContextPath("s1/events.jsonl"), undefined);
+    assertEquals(ledgerServiceContextPath("port-leases.json"), undefined);
+  });
+
+  const ledgerDir = await Deno.makeTempDir({ prefix: "truth-yard-feed-" });
+  try {
+    await Deno.mkdir(join(ledgerDir, "s1"));
+    for (const [id, prefix] of [["a", "/apps/a"], ["b", "/apps/b"]]) {
+      await Deno.writeTextFile(
+        join(ledgerDir, "s1", `${id}.db.context.json`),
+        JSON.stringify({ service: { id, proxyEndpointPrefix: prefix } }),
+      );
+    }
+    const file = (rel: string) => join(ledgerDir, rel);
+
+    await t.step("ledger files of other services are hidden", async () => {
+      assert(await ledgerFileVisible(file("s1/a.db.stdout.log"), onlyA));
+      assertFalse(await ledgerFileVisible(file("s1/b.db.stdout.log"), onlyA));
+      assertFalse(await ledgerFileVisible(file("s1/b.db.context.json"), onlyA));
+      assertFalse(await ledgerFileVisible(file("s1/events.jsonl"), onlyA));
+      assert(await ledgerFileVisible(file("s1/events.jsonl"), {}));
+    });
+
+    await t.step("events are filtered and redacted", async () => {
+      const changed = (path: string): YardStateEvent => ({
+        type: "ledger-file-changed",
+        change: "modify",
+        path,
+      });
+      assertEquals(
+        await viewYardStateEvent(
+          changed("s1/b.db.stdout.log"),
+          onlyA,
+          ledgerDir,
+        ),
+        undefined,
+      );
+      assert(
+        await viewYardStateEvent(
+          changed("s1/a.db.stdout.log"),
+          onlyA,
+          ledgerDir,
+        ),
+      );
+      assertEquals(
+        await viewYardStateEvent(
+          { type: "process-added", process: all[1] },
+          onlyA,
+          ledgerDir,
+        ),
+        undefined,
+      );
+      const added = await viewYardStateEvent(
+        { type: "process-added", process: all[0] },
+        onlyA,
+        ledgerDir,
+      );
+      assertEquals(added?.type === "process-added" && added.process.env, {});
+    });
+  } finally {
+    await Deno.remove(ledgerDir, { recursive: true });
+  }
+});
@@ -0,0 +1,227 @@
+// lib/stop.ts
+import { join, relative, resolve, SEPARATOR } from "@std/path";
+
+import { hostLeases } from "./host-lease.ts";
+import { writeTextFileAtomic } from "./path.ts";
+import {
+  type SpawnedContext,
+  type StopOutcome,
+  stopPID,
+  type TaggedProcess,
+  taggedProcesses,
+  type TaggedProcessesOptions,
+} from "./spawn.ts";
+
+/**
+ * Selective, graceful stopping of tagged services.
+ *
+ * A selector matches a service by any of:
+ * - serviceId (exact)
+ * - proxy endpoint prefix (`/apps/sqlpage/finance` also matches everything
+ *   below it)
+ * - provenance: a cargo file, or a directory containing cargo (relative
+ *   paths are resolved against the current directory)
+ *
+ * No selectors means every tagged service (subject to `ledgerHome`).
+ */
+export type StopOptions = Readonly<{
+  /**
+   * SIGTERM grace period before escalating to SIGKILL (default 2000).
+   */
+  graceMs?: number;
+
+  /**
+   * Only list what would be stopped.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Only consider services whose context lives under this ledger home (and
+   * release their host leases there once stopped).
+   */
+  ledgerHome?: string;
+
+  /**
+   * Consider services wherever their context lives; `ledgerHome` then only
+   * says where their host leases are released.
+   */
+  anyLedger?: boolean;
+
+  strategy?: TaggedProcessesOptions["strategy"];
+}>;
+
+export type StopResult = Readonly<{
+  process: TaggedProcess;
+
+  /**
+   * The selector that matched (undefined when stopping everything).
+   */
+  selector?: string;
+
+  /**
+   * Absent on dry runs.
+   */
+  outcome?: StopOutcome;
+}>;
+
+export function selectorMatches(tp: TaggedProcess, selector: string): boolean {
+  if (tp.serviceId === selector) return true;
+
+  const prefix = tp.proxyEndpointPrefix ??
+    tp.context?.service?.proxyEndpointPrefix;
+  if (prefix && selector.startsWith("/")) {
+    const sel = selector.replace(/\/+$/, "");
+    if (prefix === sel || prefix.startsWith(`${sel}/`)) return true;
+  }
+
+  const sel = resolve(selector);
+  const prov = resolve(tp.provenance);
+  return prov === sel || prov.startsWith(sel + SEPARATOR);
+}
+
+function underDir(path: string, dirAbs: string): boolean {
+  const p = resolve(path);
+  return p === dirAbs || p.startsWith(dirAbs + SEPARATOR);
+}
+
+/**
+ * Stop the matching services one at a time, updating each ledger context
+ * with `stoppedAt` and `stopSignal`.
+ */
+export async function* stopServices(
+  selectors: readonly string[],
+  opts: StopOptions = {},
+): AsyncGenerator<StopResult> {
+  const ledgerHomeAbs = opts.ledgerHome ? resolve(opts.ledgerHome) : undefined;
+
+  const matched: Array<{ tp: TaggedProcess; selector?: string }> = [];
+  for await (
+    const tp of taggedProcesses(
+      opts.strategy ? { strategy: opts.strategy } : undefined,
+    )
+  ) {
+    if (
+      ledgerHomeAbs && !opts.anyLedger &&
+      !underDir(tp.contextPath, ledgerHomeAbs)
+    ) continue;
+    if (selectors.length === 0) {
+      matched.push({ tp });
+      continue;
+    }
+    const selector = selectors.find((s) => selectorMatches(tp, s));
+    if (selector !== undefined) matched.push({ tp, selector });
+  }
+
+  for (const { tp, selector } of matched) {
+    if (opts.dryRun) {
+      yield { process: tp, selector };
+      continue;
+    }
+
+    const outcome = await stopTaggedProcess(tp, {
+      ...opts,
+      ledgerHome: ledgerHomeAbs,
+    });
+    yield { process: tp, selector, outcome };
+  }
+}
+
+/**
+ * Stop one tagged service: SIGTERM then SIGKILL, record `stoppedAt` in its
+ * context and, given `ledgerHome`, release its host lease there.
+ */
+export async function stopTaggedProcess(
+  tp: TaggedProcess,
+  opts: Pick<StopOptions, "graceMs" | "ledgerHome"> = {},
+): Promise<StopOutcome> {
+  const outcome = await stopPID(tp.pid, { graceMs: opts.graceMs });
+  await markContextStopped(tp.contextPath, outcome);
+  const leaseKey = tp.context?.hostLease?.key;
+  if (opts.ledgerHome && outcome.exited && leaseKey) {
+    try {
+      await hostLeases(resolve(opts.ledgerHome)).release(leaseKey);
+    } catch {
+      // expires on its own
+    }
+  }
+  return outcome;
+}
+
+async function markContextStopped(
+  contextPath: string,
+  outcome: StopOutcome,
+): Promise<void> {
+  try {
+    const ctx = JSON.parse(
+      await Deno.readTextFile(contextPath),
+    ) as SpawnedContext;
+    await writeTextFileAtomic(
+      contextPath,
+      JSON.stringify(
+        {
+          ...ctx,
+          stoppedAt: new Date().toISOString(),
+          stopSignal: outcome.signal,
+        },
+        null,
+        2,
+      ) + "\n",
+    );
+  } catch {
+    // context already gone or unreadable; nothing to record into
+  }
+}
+
+/**
+ * Session directory (directly under the ledger home) that holds a context
+ * file, or undefined when the context is outside the ledger home.
+ */
+export function ledgerSessionOf(
+  ledgerHome: string,
+  contextPath: string,
+): string | undefined {
+  const home = resolve(ledgerHome);
+  const rel = relative(home, resolve(contextPath));
+  if (!rel || rel.startsWith("..")) return undefined;
+  const first = rel.split(SEPARATOR)[0];
+  if (!first || first === rel) return undefined; // file directly in the home
+  return join(home, first);
+}
+
+/**
+ * Remove the ledger sessions that contain the given contexts (and the
+ * current-session pointer when it names one of them). Returns the removed
+ * session directories.
+ */
+export async function removeLedgerSessions(
+  ledgerHome: string,
+  contextPaths: Iterable<string>,
+): Promise<string[]> {
+  const sessions = new Set<string>();
+  for (const p of contextPaths) {
+    const s = ledgerSessionOf(ledgerHome, p);
+    if (s) sessions.add(s);
+  }
+
+  const removed: string[] = [];
+  for (const s of [...sessions].sort()) {
+    try {
+      await Deno.remove(s, { recursive: true });
+      removed.push(s);
+    } catch {
+      // already gone
+    }
+  }
+
+  const pointer = join(resolve(ledgerHome), ".current-session");
+  try {
+    const current = (await Deno.readTextFile(pointer)).trim();
+    if (removed.includes(join(resolve(ledgerHome), current))) {
+      await Deno.remove(pointer);
+    }
+  } catch {
+    // no pointer
+  }
+
+  return removed;
+}
@@ -0,0 +1,99 @@
+// stop_test.ts
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { join } from "@std/path";
+
+import { isPidAlive, stopPID, type TaggedProcess } from "./spawn.ts";
+import {
+  ledgerSessionOf,
+  removeLedgerSessions,
+  selectorMatches,
+} from "./stop.ts";
+
+function tagged(partial: Partial<TaggedProcess>): TaggedProcess {
+  return {
+    pid: 1,
+    provenance: "/yard/cargo.d/finance/ledger.sqlite.db",
+    contextPath: "/yard/ledger.d/s1/finance/ledger.sqlite.db.context.json",
+    sessionId: "s1",
+    serviceId: "finance-ledger",
+    proxyEndpointPrefix: "/apps/sqlpage/finance/ledger",
+    env: {},
+    ...partial,
+  };
+}
+
+Deno.test("stop: selectors", async (t) => {
+  const tp = tagged({});
+
+  await t.step("serviceId", () => {
+    assert(selectorMatches(tp, "finance-ledger"));
+    assertFalse(selectorMatches(tp, "finance"));
+  });
+
+  await t.step("proxy prefix and below", () => {
+    assert(selectorMatches(tp, "/apps/sqlpage/finance/ledger"));
+    assert(selectorMatches(tp, "/apps/sqlpage/finance/"));
+    assertFalse(selectorMatches(tp, "/apps/sqlpage/fin"));
+  });
+
+  await t.step("provenance file or directory", () => {
+    assert(selectorMatches(tp, "/yard/cargo.d/finance/ledger.sqlite.db"));
+    assert(selectorMatches(tp, "/yard/cargo.d/finance"));
+    assertFalse(selectorMatches(tp, "/yard/cargo.d/fin"));
+  });
+});
+
+Deno.test("stop: ledger sessions of stopped services", async (t) => {
+  const home = await Deno.makeTempDir({ prefix: "truth-yard-stop-" });
+
+  try {
+    await t.step("session is the first directory under the home", () => {
+      assertEquals(
+        ledgerSessionOf(home, join(home, "s1", "a", "x.context.json")),
+        join(home, "s1"),
+      );
+      assertEquals(
+        ledgerSessionOf(home, join(home, "port-leases.json")),
+        undefined,
+      );
+      assertEquals(
+        ledgerSessionOf(home, "/elsewhere/x.context.json"),
+        undefined,
+      );
+    });
+
+    await t.step("only the given sessions are removed", async () => {
+      for (const s of ["s1", "s2"]) {
+        await Deno.mkdir(join(home, s), { recursive: true });
+        await Deno.writeTextFile(join(home, s, "x.context.json"), "{}");
+      }
+      await Deno.writeTextFile(join(home, ".current-session"), "s1\n");
+
+      const removed = await removeLedgerSessions(home, [
+        join(home, "s1", "x.context.json"),
+      ]);
+      assertEquals(removed, [join(home, "s1")]);
+
+      const left = [];
+      for await (const e of Deno.readDir(home)) left.push(e.name);
+      assertEquals(left, ["s2"]);
+    });
+  } finally {
+    await Deno.remove(home, { recursive: true });
+  }
+});
+
+Deno.test("stop: SIGTERM within the grace period", async () => {
+  const child = new Deno.Command("sleep", {
+    args: ["30"],
+    stdout: "null",
+    stderr: "null",
+  }).spawn();
+
+  const outcome = await stopPID(child.pid, { graceMs: 2_000 });
+  await child.status;
+
+  assertEquals(outcome.signal, "SIGTERM");
+  assert(outcome.exited);
+  assertFalse(isPidAlive(child.pid));
+});
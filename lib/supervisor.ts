@@ -0,0 +1,297 @@
+// lib/supervisor.ts
+import { resolve } from "@std/path";
+
+import { appendJsonLine } from "./path.ts";
+import {
+  isPidAlive,
+  type SpawnedContext,
+  type SpawnEvent,
+  type SpawnEventListener,
+  type SpawnEventPayload,
+  type SpawnSession,
+  taggedProcesses,
+} from "./spawn.ts";
+
+/**
+ * Liveness supervision for watch mode.
+ *
+ * The watch loop only wakes up on filesystem events; a service that exits on
+ * its own would otherwise go unnoticed until cargo changes. The supervisor is
+ * polled on a timer, notices dead services (by tagged process and pid), and
+ * decides when each may be respawned using per-service exponential backoff
+ * with a crash-loop cutoff.
+ */
+export type SupervisorOptions = Readonly<{
+  /**
+   * If false, dead services are never respawned (default true in watch mode).
+   */
+  enabled?: boolean;
+
+  /**
+   * Liveness check period in ms (default 2000).
+   */
+  intervalMs?: number;
+
+  /**
+   * Delay before the first respawn of a service (default 1000).
+   */
+  initialBackoffMs?: number;
+
+  /**
+   * Upper bound for any single respawn delay (default 60000).
+   */
+  maxBackoffMs?: number;
+
+  /**
+   * Multiplier applied per restart inside the crash-loop window (default 2).
+   */
+  backoffFactor?: number;
+
+  /**
+   * Sliding window used to count restarts (default 300000, five minutes).
+   */
+  crashLoopWindowMs?: number;
+
+  /**
+   * Give up on a service once it restarted this many times inside the
+   * window (default 5).
+   */
+  crashLoopMaxRestarts?: number;
+}>;
+
+export type RespawnDecision =
+  | Readonly<{ kind: "respawn"; attempt: number; delayMs: number }>
+  | Readonly<{ kind: "abandon"; restarts: number }>;
+
+/**
+ * Pure backoff policy: given how many restarts already happened inside the
+ * crash-loop window, decide whether (and when) to respawn again.
+ */
+export function respawnDecision(
+  recentRestarts: number,
+  opts: SupervisorOptions = {},
+): RespawnDecision {
+  const initial = opts.initialBackoffMs ?? 1_000;
+  const max = opts.maxBackoffMs ?? 60_000;
+  const factor = opts.backoffFactor ?? 2;
+  const maxRestarts = opts.crashLoopMaxRestarts ?? 5;
+
+  if (recentRestarts >= maxRestarts) {
+    return { kind: "abandon", restarts: recentRestarts };
+  }
+
+  const delayMs = Math.min(
+    max,
+    Math.max(0, Math.round(initial * Math.pow(factor, recentRestarts))),
+  );
+  return { kind: "respawn", attempt: recentRestarts + 1, delayMs };
+}
+
+type KnownService = {
+  serviceId: string;
+  pid: number;
+};
+
+type RespawnState = {
+  restarts: number[];
+  dueAt?: number;
+  abandoned?: boolean;
+};
+
+export type SupervisorEvent = Extract<
+  SpawnEventPayload,
+  {
+    type:
+      | "process_exited"
+      | "respawn_scheduled"
+      | "respawn_abandoned"
+      | "cargo_changed";
+  }
+>;
+
+export type Supervisor = ReturnType<typeof supervisor>;
+
+/**
+ * Create a supervisor for services whose provenance lives under `rootsAbs`.
+ *
+ * Every supervisor event is passed to `onEvent` and appended (JSONL) to the
+ * ledger file returned by `ledgerPath` for that provenance.
+ */
+export function supervisor(
+  opts: SupervisorOptions,
+  args: Readonly<{
+    session: SpawnSession;
+    rootsAbs: readonly string[];
+    onEvent?: SpawnEventListener;
+    ledgerPath: (provenance: string) => string | undefined;
+  }>,
+) {
+  const windowMs = opts.crashLoopWindowMs ?? 300_000;
+  const t0 = performance.now();
+
+  const known = new Map<string, KnownService>();
+  const states = new Map<string, RespawnState>();
+
+  const underRoots = (prov: string) =>
+    args.rootsAbs.some((r) => prov === r || prov.startsWith(r + "/"));
+
+  const emit = async (provenance: string, event: SupervisorEvent) => {
+    const e = {
+      session: args.session,
+      ts: new Date().toISOString(),
+      tMs: performance.now() - t0,
+      ...event,
+    } as SpawnEvent;
+
+    const path = args.ledgerPath(provenance);
+    if (path) {
+      try {
+        await appendJsonLine(path, e);
+      } catch {
+        // ledger write failures must not stop supervision
+      }
+    }
+
+    if (!args.onEvent) return;
+    try {
+      await args.onEvent(e);
+    } catch {
+      // ignore listener failures
+    }
+  };
+
+  const track = (ctxs: Iterable<SpawnedContext>) => {
+    for (const ctx of ctxs) {
+      const prov = provenanceOfContext(ctx);
+      if (!underRoots(prov)) continue;
+      known.set(prov, { serviceId: ctx.service.id, pid: ctx.spawned.pid });
+    }
+  };
+
+  return {
+    track,
+
+    /**
+     * Record an event the watch loop produced for a supervised service (for
+     * example a restart because its cargo changed).
+     */
+    record: emit,
+
+    /**
+     * True while a provenance is waiting out its backoff or was abandoned,
+     * so other reconcile passes must not respawn it early.
+     */
+    blocked(provenance: string): boolean {
+      const st = states.get(provenance);
+      if (!st) return false;
+      if (st.abandoned) return true;
+      return st.dueAt !== undefined && Date.now() < st.dueAt;
+    },
+
+    /**
+     * Check liveness of every known service and return the provenances whose
+     * respawn is due now.
+     */
+    async check(): Promise<Set<string>> {
+      const alive = new Set<string>();
+
+      if (Deno.build.os === "linux") {
+        for await (const tp of taggedProcesses()) {
+          const prov = resolve(tp.provenance);
+          if (!underRoots(prov)) continue;
+          alive.add(prov);
+          known.set(prov, { serviceId: tp.serviceId, pid: tp.pid });
+        }
+      }
+
+      const now = Date.now();
+      const due = new Set<string>();
+
+      for (const [prov, svc] of known) {
+        if (alive.has(prov) || isPidAlive(svc.pid)) continue;
+
+        if (!(await fileExists(prov))) {
+          // cargo removed: the watch loop owns that, stop supervising it
+          known.delete(prov);
+          states.delete(prov);
+          continue;
+        }
+
+        const st = states.get(prov) ?? { restarts: [] };
+        if (st.abandoned) continue;
+
+        if (st.dueAt !== undefined) {
+          if (now >= st.dueAt) due.add(prov);
+          continue;
+        }
+
+        await emit(prov, {
+          type: "process_exited",
+          serviceId: svc.serviceId,
+          provenance: prov,
+          pid: svc.pid,
+        });
+
+        st.restarts = st.restarts.filter((t) => now - t <= windowMs);
+        const decision = respawnDecision(st.restarts.length, opts);
+
+        if (decision.kind === "abandon") {
+          st.abandoned = true;
+          states.set(prov, st);
+          await emit(prov, {
+            type: "respawn_abandoned",
+            serviceId: svc.serviceId,
+            provenance: prov,
+            restarts: decision.restarts,
+            windowMs,
+          });
+          continue;
+        }
+
+        st.dueAt = now + decision.delayMs;
+        states.set(prov, st);
+        await emit(prov, {
+          type: "respawn_scheduled",
+          serviceId: svc.serviceId,
+          provenance: prov,
+          attempt: decision.attempt,
+          delayMs: decision.delayMs,
+        });
+        if (decision.delayMs <= 0) due.add(prov);
+      }
+
+      return due;
+    },
+
+    /**
+     * Record that a respawn was attempted for these provenances and track the
+     * contexts that actually came up.
+     */
+    respawned(
+      attempted: Iterable<string>,
+      spawned: Iterable<SpawnedContext>,
+    ) {
+      const now = Date.now();
+      for (const prov of attempted) {
+        const st = states.get(prov) ?? { restarts: [] };
+        st.restarts.push(now);
+        st.dueAt = undefined;
+        states.set(prov, st);
+      }
+      track(spawned);
+    },
+  };
+}
+
+export function provenanceOfContext(ctx: SpawnedContext): string {
+  const tagged = ctx.spawned.plan.env?.["TRUTH_YARD_PROVENANCE"];
+  return resolve(tagged ?? ctx.supplier.location);
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,37 @@
+// supervisor_test.ts
+import { assertEquals } from "@std/assert";
+
+import { respawnDecision } from "./supervisor.ts";
+
+Deno.test("supervisor: respawn backoff policy", async (t) => {
+  await t.step("first restart uses the initial backoff", () => {
+    assertEquals(respawnDecision(0), {
+      kind: "respawn",
+      attempt: 1,
+      delayMs: 1_000,
+    });
+  });
+
+  await t.step("backoff grows exponentially per recent restart", () => {
+    const delays = [0, 1, 2, 3].map((n) => {
+      const d = respawnDecision(n, { crashLoopMaxRestarts: 10 });
+      return d.kind === "respawn" ? d.delayMs : -1;
+    });
+    assertEquals(delays, [1_000, 2_000, 4_000, 8_000]);
+  });
+
+  await t.step("backoff is capped by maxBackoffMs", () => {
+    assertEquals(
+      respawnDecision(8, { crashLoopMaxRestarts: 10, maxBackoffMs: 30_000 }),
+      { kind: "respawn", attempt: 9, delayMs: 30_000 },
+    );
+  });
+
+  await t.step("crash loop cutoff abandons the service", () => {
+    assertEquals(respawnDecision(5), { kind: "abandon", restarts: 5 });
+    assertEquals(
+      respawnDecision(2, { crashLoopMaxRestarts: 2 }),
+      { kind: "abandon", restarts: 2 },
+    );
+  });
+});
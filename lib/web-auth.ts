@@ -0,0 +1,346 @@
+// lib/web-auth.ts
+
+/**
+ * Authentication and per-prefix authorization for the web UI
+ * (bin/web-ui/serve.ts).
+ *
+ * Authenticators are tried in order; the first one that finds credentials
+ * of its scheme decides. Rules then decide which paths the principal may
+ * reach: the longest matching prefix wins and a path no rule covers is
+ * denied. Without rules, every authenticated principal reaches every path.
+ */
+export type WebAuthScheme = "bearer" | "basic" | "trusted-header";
+
+export type WebPrincipal = Readonly<{
+  user: string;
+  groups: readonly string[];
+  scheme: WebAuthScheme;
+}>;
+
+/**
+ * `undefined`: the request carries no credentials of this scheme;
+ * `null`: it does, but they are not valid.
+ */
+export type WebAuthResult = WebPrincipal | null | undefined;
+
+export type WebAuthenticator = Readonly<{
+  scheme: WebAuthScheme;
+  authenticate(
+    req: Request,
+    remoteAddr?: string,
+  ): Promise<WebAuthResult>;
+}>;
+
+/**
+ * `allow` entries: `*` (any authenticated principal), a user name or
+ * `@group`.
+ */
+export type WebAuthRule = Readonly<{
+  prefix: string;
+  allow: readonly string[];
+}>;
+
+export type WebAuthRules = Readonly<{
+  /**
+   * Group memberships of users whose authenticator carries none
+   * (bearer tokens, htpasswd).
+   */
+  groups: Readonly<Record<string, readonly string[]>>;
+  rules: readonly WebAuthRule[];
+}>;
+
+export type WebAuthDecision =
+  | Readonly<{ ok: true; principal: WebPrincipal; rule?: WebAuthRule }>
+  | Readonly<{ ok: false; status: 401 | 403; reason: string }>;
+
+/* ---------------- credential files ---------------- */
+
+type CredentialLine = Readonly<{ user: string; secret: string; line: number }>;
+
+function credentialLines(text: string): CredentialLine[] {
+  const out: CredentialLine[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const s = raw.trim();
+    if (!s || s.startsWith("#")) return;
+    const colon = s.indexOf(":");
+    if (colon <= 0 || colon === s.length - 1) {
+      throw new Error(`line ${i + 1}: expected <user>:<secret>`);
+    }
+    out.push({
+      user: s.slice(0, colon),
+      secret: s.slice(colon + 1),
+      line: i + 1,
+    });
+  });
+  return out;
+}
+
+/**
+ * Bearer tokens file: one `<user>:<token>` per line, `#` comments.
+ */
+export function parseTokensFile(text: string): Map<string, string> {
+  const byToken = new Map<string, string>();
+  for (const { user, secret, line } of credentialLines(text)) {
+    if (byToken.has(secret)) {
+      throw new Error(`line ${line}: token of ${user} is not unique`);
+    }
+    byToken.set(secret, user);
+  }
+  return byToken;
+}
+
+/**
+ * htpasswd file. Only SHA-1 entries (`htpasswd -s`, `{SHA}…`) can be
+ * verified without native crypto; other hash formats are rejected here so
+ * a misconfigured file fails at startup instead of denying every login.
+ */
+export function parseHtpasswd(text: string): Map<string, string> {
+  const byUser = new Map<string, string>();
+  for (const { user, secret, line } of credentialLines(text)) {
+    if (!secret.startsWith("{SHA}")) {
+      throw new Error(
+        `line ${line}: unsupported hash for ${user} (use htpasswd -s)`,
+      );
+    }
+    byUser.set(user, secret);
+  }
+  return byUser;
+}
+
+async function digest(alg: "SHA-1" | "SHA-256", text: string) {
+  return new Uint8Array(
+    await crypto.subtle.digest(alg, new TextEncoder().encode(text)),
+  );
+}
+
+/**
+ * Constant-time comparison (of digests, so lengths do not leak either).
+ */
+async function sameSecret(a: string, b: string): Promise<boolean> {
+  const [da, db] = [await digest("SHA-256", a), await digest("SHA-256", b)];
+  let diff = 0;
+  for (let i = 0; i < da.length; i++) diff |= da[i] ^ db[i];
+  return diff === 0;
+}
+
+async function htpasswdSha(password: string): Promise<string> {
+  const d = await digest("SHA-1", password);
+  return `{SHA}${btoa(String.fromCharCode(...d))}`;
+}
+
+/* ---------------- authenticators ---------------- */
+
+function authorizationParam(req: Request, scheme: string) {
+  const h = req.headers.get("authorization");
+  if (!h) return undefined;
+  const space = h.indexOf(" ");
+  if (space < 0 || h.slice(0, space).toLowerCase() !== scheme) {
+    return undefined;
+  }
+  return h.slice(space + 1).trim();
+}
+
+export function bearerTokenAuthenticator(
+  tokens: ReadonlyMap<string, string>,
+): WebAuthenticator {
+  return {
+    scheme: "bearer",
+    async authenticate(req) {
+      const token = authorizationParam(req, "bearer");
+      if (token === undefined) return undefined;
+      for (const [known, user] of tokens) {
+        if (await sameSecret(token, known)) {
+          return { user, groups: [], scheme: "bearer" };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+export function basicAuthenticator(
+  htpasswd: ReadonlyMap<string, string>,
+): WebAuthenticator {
+  return {
+    scheme: "basic",
+    async authenticate(req) {
+      const param = authorizationParam(req, "basic");
+      if (param === undefined) return undefined;
+
+      let decoded: string;
+      try {
+        decoded = new TextDecoder().decode(
+          Uint8Array.from(atob(param), (ch) => ch.charCodeAt(0)),
+        );
+      } catch {
+        return null;
+      }
+      const colon = decoded.indexOf(":");
+      if (colon <= 0) return null;
+      const user = decoded.slice(0, colon);
+      const expected = htpasswd.get(user);
+      const actual = await htpasswdSha(decoded.slice(colon + 1));
+      // compare even for unknown users so timing does not reveal them
+      const ok = await sameSecret(actual, expected ?? "");
+      return ok && expected ? { user, groups: [], scheme: "basic" } : null;
+    },
+  };
+}
+
+/**
+ * Trusts an upstream SSO proxy (oauth2-proxy, Authelia, …) that has
+ * already authenticated the user and passes the identity in headers. The
+ * headers are only believed from `trustedProxies` (default loopback);
+ * from anywhere else they are treated as forged credentials.
+ */
+export function trustedHeaderAuthenticator(opts: {
+  userHeader: string;
+  groupsHeader?: string;
+  trustedProxies?: readonly string[];
+}): WebAuthenticator {
+  const trusted = new Set(opts.trustedProxies ?? ["127.0.0.1", "::1"]);
+  return {
+    scheme: "trusted-header",
+    // deno-lint-ignore require-await
+    async authenticate(req, remoteAddr) {
+      const user = req.headers.get(opts.userHeader)?.trim();
+      if (!user) return undefined;
+      if (!remoteAddr || !trusted.has(remoteAddr)) return null;
+      const groups = opts.groupsHeader
+        ? (req.headers.get(opts.groupsHeader) ?? "")
+          .split(/[,\s]+/)
+          .filter(Boolean)
+        : [];
+      return { user, groups, scheme: "trusted-header" };
+    },
+  };
+}
+
+/* ---------------- authorization ---------------- */
+
+function normalizePrefix(p: string) {
+  const s = p.trim();
+  const withSlash = s.startsWith("/") ? s : `/${s}`;
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, "") : withSlash;
+}
+
+/**
+ * Rules file (JSON):
+ * `{ "groups": { "<group>": ["<user>", …] }, "rules": [{ "prefix", "allow" }] }`.
+ */
+export function parseAuthRules(text: string): WebAuthRules {
+  const raw = JSON.parse(text) as {
+    groups?: Record<string, unknown>;
+    rules?: unknown;
+  };
+  const groups: Record<string, string[]> = {};
+  for (const [group, users] of Object.entries(raw.groups ?? {})) {
+    if (!Array.isArray(users) || users.some((u) => typeof u !== "string")) {
+      throw new Error(`groups.${group}: expected an array of user names`);
+    }
+    groups[group] = users;
+  }
+
+  if (!Array.isArray(raw.rules)) throw new Error(`"rules" must be an array`);
+  const rules = raw.rules.map((r, i): WebAuthRule => {
+    const { prefix, allow } = (r ?? {}) as {
+      prefix?: unknown;
+      allow?: unknown;
+    };
+    if (typeof prefix !== "string" || !prefix.trim()) {
+      throw new Error(`rules[${i}]: "prefix" must be a non-empty string`);
+    }
+    if (!Array.isArray(allow) || allow.some((a) => typeof a !== "string")) {
+      throw new Error(`rules[${i}]: "allow" must be an array of strings`);
+    }
+    return { prefix: normalizePrefix(prefix), allow };
+  });
+
+  return { groups, rules };
+}
+
+/**
+ * The rule for `path`: the longest prefix that equals it or is followed by
+ * a `/` in it.
+ */
+export function matchAuthRule(
+  path: string,
+  rules: readonly WebAuthRule[],
+): WebAuthRule | undefined {
+  let best: WebAuthRule | undefined;
+  for (const r of rules) {
+    const hit = r.prefix === "/" || path === r.prefix ||
+      path.startsWith(r.prefix + "/");
+    if (hit && (!best || r.prefix.length > best.prefix.length)) best = r;
+  }
+  return best;
+}
+
+/**
+ * The principal's groups: the authenticator's plus the rules file's.
+ */
+export function principalGroups(
+  principal: WebPrincipal,
+  rules?: WebAuthRules,
+): string[] {
+  const groups = new Set(principal.groups);
+  for (const [group, users] of Object.entries(rules?.groups ?? {})) {
+    if (users.includes(principal.user)) groups.add(group);
+  }
+  return [...groups].sort();
+}
+
+export function ruleAllows(
+  rule: WebAuthRule,
+  principal: WebPrincipal,
+  groups: readonly string[],
+): boolean {
+  return rule.allow.some((a) =>
+    a === "*" ||
+    (a.startsWith("@") ? groups.includes(a.slice(1)) : a === principal.user)
+  );
+}
+
+/**
+ * Authenticate a request and authorize its path.
+ */
+export async function webAuthorize(
+  req: Request,
+  path: string,
+  opts: Readonly<{
+    authenticators: readonly WebAuthenticator[];
+    rules?: WebAuthRules;
+    remoteAddr?: string;
+  }>,
+): Promise<WebAuthDecision> {
+  let principal: WebPrincipal | undefined;
+  for (const a of opts.authenticators) {
+    const res = await a.authenticate(req, opts.remoteAddr);
+    if (res === undefined) continue;
+    if (res === null) {
+      return {
+        ok: false,
+        status: 401,
+        reason: `invalid ${a.scheme} credentials`,
+      };
+    }
+    principal = res;
+    break;
+  }
+  if (!principal) {
+    return { ok: false, status: 401, reason: "authentication required" };
+  }
+
+  principal = { ...principal, groups: principalGroups(principal, opts.rules) };
+  if (!opts.rules) return { ok: true, principal };
+
+  const rule = matchAuthRule(path, opts.rules.rules);
+  if (!rule || !ruleAllows(rule, principal, principal.groups)) {
+    return {
+      ok: false,
+      status: 403,
+      reason: `${principal.user} may not access ${path}`,
+    };
+  }
+  return { ok: true, principal, rule };
+}
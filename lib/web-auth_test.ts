@@ -0,0 +1,152 @@
+// web-auth_test.ts
+import { assert, assertEquals, assertThrows } from "@std/assert";
+
+import {
+  basicAuthenticator,
+  bearerTokenAuthenticator,
+  parseAuthRules,
+  parseHtpasswd,
+  parseTokensFile,
+  trustedHeaderAuthenticator,
+  webAuthorize,
+} from "./web-auth.ts";
+
+function req(headers: Record<string, string> = {}) {
+  return new Request("http://yard.test/", { headers });
+}
+
+const basic = (user: string, password: string) =>
+  `Basic ${btoa(`${user}:${password}`)}`;
+
+// htpasswd -nbs alice secret
+const htpasswd = "alice:{SHA}5en6G6MezRroT3XKqkdPOmY/BfQ=\n";
+
+Deno.test("web-auth: authenticators", async (t) => {
+  await t.step("bearer tokens", async () => {
+    const a = bearerTokenAuthenticator(
+      parseTokensFile("# ci\nci-bot:t0k3n\nops:other\n"),
+    );
+    assertEquals(await a.authenticate(req()), undefined);
+    assertEquals(
+      (await a.authenticate(req({ authorization: "Bearer t0k3n" })))?.user,
+      "ci-bot",
+    );
+    assertEquals(
+      await a.authenticate(req({ authorization: "Bearer nope" })),
+      null,
+    );
+    assertEquals(
+      await a.authenticate(req({ authorization: basic("ci-bot", "t0k3n") })),
+      undefined,
+    );
+    assertThrows(() => parseTokensFile("a:x\nb:x\n"), Error, "not unique");
+  });
+
+  await t.step("htpasswd basic auth", async () => {
+    const a = basicAuthenticator(parseHtpasswd(htpasswd));
+    assertEquals(
+      await a.authenticate(req({ authorization: basic("alice", "secret") })),
+      { user: "alice", groups: [], scheme: "basic" },
+    );
+    assertEquals(
+      await a.authenticate(req({ authorization: basic("alice", "wrong") })),
+      null,
+    );
+    assertEquals(
+      await a.authenticate(req({ authorization: basic("bob", "secret") })),
+      null,
+    );
+    assertThrows(
+      () => parseHtpasswd("bob:$apr1$abc$def\n"),
+      Error,
+      "unsupported hash for bob",
+    );
+  });
+
+  await t.step("trusted headers only from trusted proxies", async () => {
+    const a = trustedHeaderAuthenticator({
+      userHeader: "x-forwarded-user",
+      groupsHeader: "x-forwarded-groups",
+    });
+    const r = req({
+      "x-forwarded-user": "carol",
+      "x-forwarded-groups": "tenant-a, ops",
+    });
+    assertEquals(await a.authenticate(r, "127.0.0.1"), {
+      user: "carol",
+      groups: ["tenant-a", "ops"],
+      scheme: "trusted-header",
+    });
+    assertEquals(await a.authenticate(r, "10.0.0.9"), null);
+    assertEquals(await a.authenticate(req(), "127.0.0.1"), undefined);
+  });
+});
+
+Deno.test("web-auth: per-prefix authorization", async (t) => {
+  const rules = parseAuthRules(JSON.stringify({
+    groups: { "tenant-a": ["alice"], admins: ["ops"] },
+    rules: [
+      { prefix: "/", allow: ["@admins"] },
+      { prefix: "/apps/tenant-a/", allow: ["@tenant-a", "@admins"] },
+      { prefix: "/.truth-yard/asset", allow: ["*"] },
+    ],
+  }));
+  const authenticators = [
+    bearerTokenAuthenticator(parseTokensFile("alice:ta\nops:to\nbob:tb\n")),
+  ];
+  const as = (token: string, path: string) =>
+    webAuthorize(req({ authorization: `Bearer ${token}` }), path, {
+      authenticators,
+      rules,
+    });
+
+  await t.step("tenants reach only their own prefix", async () => {
+    const ok = await as("ta", "/apps/tenant-a/index.sql");
+    assert(ok.ok);
+    assertEquals(ok.principal.groups, ["tenant-a"]);
+    assertEquals(ok.rule?.prefix, "/apps/tenant-a");
+
+    assertEquals((await as("ta", "/apps/tenant-a")).ok, true);
+    assertEquals((await as("ta", "/apps/tenant-ab/x")).ok, false);
+    const denied = await as("ta", "/.truth-yard/api/tagged-processes.json");
+    assert(!denied.ok);
+    assertEquals(denied.status, 403);
+  });
+
+  await t.step("wildcards and the root rule", async () => {
+    assertEquals((await as("tb", "/.truth-yard/asset/app.js")).ok, true);
+    assertEquals((await as("tb", "/apps/tenant-a/")).ok, false);
+    assertEquals((await as("to", "/apps/tenant-a/")).ok, true);
+    assertEquals((await as("to", "/anything")).ok, true);
+  });
+
+  await t.step("missing or invalid credentials are 401", async () => {
+    const none = await webAuthorize(req(), "/", { authenticators, rules });
+    assert(!none.ok);
+    assertEquals(none.status, 401);
+    const bad = await as("nope", "/");
+    assert(!bad.ok);
+    assertEquals(bad.reason, "invalid bearer credentials");
+  });
+
+  await t.step("paths no rule covers are denied", async () => {
+    const narrow = parseAuthRules(
+      '{"rules":[{"prefix":"/apps/a","allow":["*"]}]}',
+    );
+    const res = await webAuthorize(
+      req({ authorization: "Bearer ta" }),
+      "/apps/b",
+      { authenticators, rules: narrow },
+    );
+    assertEquals(res.ok, false);
+  });
+
+  await t.step("malformed rules are rejected", () => {
+    assertThrows(() => parseAuthRules("{}"), Error, "must be an array");
+    assertThrows(
+      () => parseAuthRules('{"rules":[{"prefix":"/a","allow":"*"}]}'),
+      Error,
+      "rules[0]",
+    );
+  });
+});